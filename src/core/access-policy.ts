@@ -0,0 +1,174 @@
+/**
+ * Access Policy
+ *
+ * Evaluates the declarative role policy that decides which tools, workspace
+ * paths and resource URIs a caller may see and use. Deny rules of any of the
+ * caller's roles take precedence over allow rules; anything not explicitly
+ * allowed is denied.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { readFileSync } from 'fs';
+import Joi from 'joi';
+import { AccessPolicyDocument, AccessRules, RolePolicy } from '@/types/mcp';
+import { globToRegExp } from '@/core/glob';
+
+type RuleKind = keyof AccessRules;
+
+/**
+ * Path of a tool argument, both as an absolute real path and relative to its workspace root
+ */
+export interface PolicyPath {
+  readonly absolute: string;
+  readonly relative: string | null;
+}
+
+const rulesSchema = Joi.object({
+  tools: Joi.array().items(Joi.string()).optional(),
+  paths: Joi.array().items(Joi.string()).optional(),
+  resources: Joi.array().items(Joi.string()).optional(),
+});
+
+const documentSchema = Joi.object({
+  roles: Joi.object().pattern(
+    Joi.string(),
+    Joi.object({
+      permissions: Joi.array().items(Joi.string()).optional(),
+      allow: rulesSchema.optional(),
+      deny: rulesSchema.optional(),
+    })
+  ).required(),
+});
+
+export class AccessPolicy {
+  /**
+   * Policy used when no policy file is configured
+   */
+  public static readonly DEFAULT_DOCUMENT: AccessPolicyDocument = {
+    roles: {
+      admin: {
+        permissions: ['read', 'write', 'admin'],
+        allow: { tools: ['*'], paths: ['**'], resources: ['**'] },
+      },
+      user: {
+        permissions: ['read', 'write'],
+        allow: { tools: ['*'], paths: ['**'], resources: ['**'] },
+      },
+      readonly: {
+        permissions: ['read'],
+        allow: { tools: ['*'], paths: ['**'], resources: ['**'] },
+        deny: {
+          tools: [
+            'write_file',
+            'edit_file',
+            'restore_file_version',
+            'move_file',
+            'copy_file',
+            'delete_file',
+            'create_directory',
+            'download_image',
+          ],
+        },
+      },
+    },
+  };
+
+  private readonly roles = new Map<string, RolePolicy>();
+  private readonly patterns = new Map<string, RegExp>();
+
+  /**
+   * Only roles listed in the authorization config take part in evaluation
+   */
+  constructor(document: AccessPolicyDocument, configuredRoles: readonly string[]) {
+    const { error } = documentSchema.validate(document);
+    if (error) {
+      throw new Error(`Invalid access policy: ${error.message}`);
+    }
+
+    for (const [role, policy] of Object.entries(document.roles)) {
+      if (configuredRoles.includes(role)) {
+        this.roles.set(role, policy);
+      }
+    }
+  }
+
+  /**
+   * Load a policy file
+   */
+  public static fromFile(path: string, configuredRoles: readonly string[]): AccessPolicy {
+    const document = JSON.parse(readFileSync(path, 'utf-8')) as AccessPolicyDocument;
+    const unknownRoles = Object.keys(document.roles || {}).filter(role => !configuredRoles.includes(role));
+    if (unknownRoles.length > 0) {
+      throw new Error(`Access policy ${path} defines unconfigured roles: ${unknownRoles.join(', ')}`);
+    }
+
+    return new AccessPolicy(document, configuredRoles);
+  }
+
+  /**
+   * Get the permissions granted by a set of roles
+   */
+  public grantedPermissions(roles: readonly string[]): string[] {
+    const permissions = new Set<string>();
+    for (const role of roles) {
+      this.roles.get(role)?.permissions?.forEach(permission => permissions.add(permission));
+    }
+    return Array.from(permissions);
+  }
+
+  /**
+   * Check whether the roles may see and call a tool
+   */
+  public canUseTool(roles: readonly string[], toolName: string): boolean {
+    return this.evaluate(roles, 'tools', pattern => this.matches(pattern, toolName));
+  }
+
+  /**
+   * Check whether the roles may touch a workspace path. Absolute patterns are
+   * matched against the real path, relative ones against the root-relative path.
+   */
+  public canAccessPath(roles: readonly string[], path: PolicyPath): boolean {
+    return this.evaluate(roles, 'paths', pattern =>
+      pattern.startsWith('/')
+        ? this.matches(pattern, path.absolute)
+        : path.relative !== null && this.matches(pattern, path.relative)
+    );
+  }
+
+  /**
+   * Check whether the roles may see and read a resource
+   */
+  public canAccessResource(roles: readonly string[], uri: string): boolean {
+    return this.evaluate(roles, 'resources', pattern => this.matches(pattern, uri));
+  }
+
+  /**
+   * Apply deny-over-allow precedence across every configured role of the caller
+   */
+  private evaluate(roles: readonly string[], kind: RuleKind, test: (pattern: string) => boolean): boolean {
+    const policies = roles
+      .map(role => this.roles.get(role))
+      .filter((policy): policy is RolePolicy => policy !== undefined);
+
+    if (policies.some(policy => (policy.deny?.[kind] || []).some(test))) {
+      return false;
+    }
+
+    return policies.some(policy => (policy.allow?.[kind] || []).some(test));
+  }
+
+  private matches(pattern: string, value: string): boolean {
+    let regex = this.patterns.get(pattern);
+    if (!regex) {
+      regex = globToRegExp(pattern);
+      // `dir/**` covers the directory itself too, so denying it also hides the directory
+      if (pattern.endsWith('/**')) {
+        regex = new RegExp(`${regex.source}|${globToRegExp(pattern.slice(0, -3)).source}`);
+      }
+      this.patterns.set(pattern, regex);
+    }
+    return regex.test(value);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Backup Store
+ *
+ * Keeps earlier versions of workspace files in a directory of its own, so
+ * changes can be rolled back without backup copies piling up next to the
+ * originals. Each file gets a subdirectory, named after a hash of its path,
+ * holding one file per version and an index describing them. Versions are
+ * pruned by count and age per file and by total size across the store.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { mkdir, readFile, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { BackupConfig, Logger } from '@/types/mcp';
+import { writeFileAtomic } from '@/tools/atomic-write';
+
+const INDEX_FILE = 'index.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One saved version of a file
+ */
+export interface FileVersion {
+  readonly id: string;
+  readonly createdAt: string;
+  readonly size: number;
+  readonly hash: string;
+  /** The operation that replaced this version, such as `write_file` */
+  readonly reason: string;
+}
+
+export class BackupStore {
+  private readonly logger: Logger;
+  private readonly config: BackupConfig;
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Bytes held by all versions, counted from the indexes on first use */
+  private totalSize: number | undefined;
+
+  constructor(logger: Logger, config: BackupConfig) {
+    this.logger = logger;
+    this.config = config;
+  }
+
+  /**
+   * Save the current content of a file; nothing is saved for a missing file
+   * or one identical to its latest version
+   */
+  public async save(filePath: string, reason: string): Promise<FileVersion | undefined> {
+    return this.exclusive(async () => {
+      let data: Buffer;
+      try {
+        data = await readFile(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+
+      const index = await this.readIndex(filePath);
+      const hash = createHash('sha256').update(data).digest('hex');
+      const latest = index.versions[index.versions.length - 1];
+      if (latest?.hash === hash) {
+        return latest;
+      }
+
+      const createdAt = new Date();
+      const version: FileVersion = {
+        id: `${createdAt.getTime().toString(36)}-${randomUUID().slice(0, 8)}`,
+        createdAt: createdAt.toISOString(),
+        size: data.length,
+        hash,
+        reason,
+      };
+
+      const directory = this.directoryFor(filePath);
+      await mkdir(directory, { recursive: true });
+      await writeFileAtomic(join(directory, version.id), data);
+      index.versions.push(version);
+      this.totalSize = (await this.getTotalSize()) + version.size;
+      await this.prune(filePath, index);
+      await this.enforceTotalSize(version);
+
+      this.logger.info('File version saved', { path: filePath, version: version.id, reason });
+      return version;
+    });
+  }
+
+  /**
+   * List the saved versions of a file, newest first
+   */
+  public async list(filePath: string): Promise<FileVersion[]> {
+    const index = await this.readIndex(filePath);
+    return [...index.versions].reverse();
+  }
+
+  /**
+   * Read the content of a saved version, or undefined when there is no such version
+   */
+  public async read(filePath: string, versionId: string): Promise<{ version: FileVersion; data: Buffer } | undefined> {
+    const index = await this.readIndex(filePath);
+    const version = index.versions.find(candidate => candidate.id === versionId);
+    if (!version) {
+      return undefined;
+    }
+    return { version, data: await readFile(join(this.directoryFor(filePath), version.id)) };
+  }
+
+  /**
+   * Drop versions beyond the per-file count and age limits
+   */
+  private async prune(filePath: string, index: BackupIndex): Promise<void> {
+    const { maxVersionsPerFile, maxAgeDays } = this.config;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : -Infinity;
+
+    const kept = index.versions
+      .filter(version => Date.parse(version.createdAt) >= cutoff)
+      .slice(-maxVersionsPerFile);
+    const dropped = index.versions.filter(version => !kept.includes(version));
+
+    await this.writeIndex(filePath, { path: filePath, versions: kept });
+    await this.removeVersions(this.directoryFor(filePath), dropped);
+  }
+
+  /**
+   * Drop the oldest versions across all files until the store fits its size limit.
+   * The version just saved is never dropped, so `save` can return it.
+   */
+  private async enforceTotalSize(saved: FileVersion): Promise<void> {
+    const limit = this.config.maxTotalSizeMb * 1024 * 1024;
+    let total = await this.getTotalSize();
+    if (total <= limit) {
+      return;
+    }
+
+    const entries = (await this.readAllVersions()).filter(entry => entry.version.id !== saved.id);
+    entries.sort((a, b) => a.version.createdAt.localeCompare(b.version.createdAt));
+    const dropped = new Map<string, FileVersion[]>();
+    let removed = 0;
+    for (const entry of entries) {
+      if (total <= limit) {
+        break;
+      }
+      total -= entry.version.size;
+      removed++;
+      dropped.set(entry.path, [...(dropped.get(entry.path) || []), entry.version]);
+    }
+
+    for (const [path, versions] of dropped) {
+      const index = await this.readIndex(path);
+      await this.writeIndex(path, {
+        path,
+        versions: index.versions.filter(version => !versions.some(drop => drop.id === version.id)),
+      });
+      await this.removeVersions(this.directoryFor(path), versions);
+    }
+    this.logger.info('Backup store pruned to its size limit', { removed, limitMb: this.config.maxTotalSizeMb });
+  }
+
+  /**
+   * Get the bytes held by all versions, reading every index only the first time
+   */
+  private async getTotalSize(): Promise<number> {
+    if (this.totalSize === undefined) {
+      const entries = await this.readAllVersions();
+      this.totalSize = entries.reduce((sum, entry) => sum + entry.version.size, 0);
+    }
+    return this.totalSize;
+  }
+
+  private async readAllVersions(): Promise<Array<{ path: string; version: FileVersion }>> {
+    const entries: Array<{ path: string; version: FileVersion }> = [];
+    for (const entry of await readdir(this.config.directory, { withFileTypes: true })) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      const index = await this.readIndexFile(join(this.config.directory, entry.name));
+      entries.push(...index.versions.map(version => ({ path: index.path, version })));
+    }
+    return entries;
+  }
+
+  private async removeVersions(directory: string, versions: readonly FileVersion[]): Promise<void> {
+    for (const version of versions) {
+      await rm(join(directory, version.id), { force: true });
+    }
+    if (this.totalSize !== undefined) {
+      this.totalSize -= versions.reduce((sum, version) => sum + version.size, 0);
+    }
+  }
+
+  private directoryFor(filePath: string): string {
+    const key = createHash('sha256').update(filePath).digest('hex').slice(0, 32);
+    return join(this.config.directory, key);
+  }
+
+  private async readIndex(filePath: string): Promise<BackupIndex> {
+    const index = await this.readIndexFile(this.directoryFor(filePath));
+    return index.path === filePath ? index : { path: filePath, versions: [] };
+  }
+
+  private async readIndexFile(directory: string): Promise<BackupIndex> {
+    try {
+      return JSON.parse(await readFile(join(directory, INDEX_FILE), 'utf8')) as BackupIndex;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Unreadable backup index', { directory, error: (error as Error).message });
+      }
+      return { path: '', versions: [] };
+    }
+  }
+
+  private async writeIndex(filePath: string, index: BackupIndex): Promise<void> {
+    const directory = this.directoryFor(filePath);
+    if (index.versions.length === 0) {
+      await rm(directory, { recursive: true, force: true });
+      return;
+    }
+    await mkdir(directory, { recursive: true });
+    await writeFileAtomic(join(directory, INDEX_FILE), JSON.stringify(index, null, 2));
+  }
+
+  /**
+   * Run store updates one at a time, so concurrent saves do not lose index entries
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+interface BackupIndex {
+  path: string;
+  versions: FileVersion[];
+}
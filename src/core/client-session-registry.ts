@@ -0,0 +1,173 @@
+/**
+ * Client Session Registry
+ *
+ * Negotiates the protocol version during `initialize` and remembers, per
+ * session, the version agreed on together with the client's declared
+ * capabilities and identity. A session becomes ready once the client sends
+ * `notifications/initialized`.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import Joi from 'joi';
+import {
+  ClientSession,
+  ClientCapabilities,
+  ClientInfo,
+  Logger,
+  JsonRpcErrorCode,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '@/types/mcp';
+
+/**
+ * Raised when the client asks for a protocol version older than any this server speaks
+ */
+export class UnsupportedProtocolVersionError extends Error {
+  public readonly code = JsonRpcErrorCode.INVALID_PARAMS;
+  public readonly requested: string;
+  public readonly supported: readonly string[];
+
+  constructor(requested: string, supported: readonly string[]) {
+    super(`Unsupported protocol version: ${requested}`);
+    this.name = 'UnsupportedProtocolVersionError';
+    this.requested = requested;
+    this.supported = supported;
+  }
+}
+
+/**
+ * Raised when initialize parameters are malformed or the session state does not allow the request
+ */
+export class InitializeError extends Error {
+  public readonly code: JsonRpcErrorCode;
+
+  constructor(message: string, code: JsonRpcErrorCode = JsonRpcErrorCode.INVALID_PARAMS) {
+    super(message);
+    this.name = 'InitializeError';
+    this.code = code;
+  }
+}
+
+const PROTOCOL_VERSION_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const initializeParamsSchema = Joi.object({
+  protocolVersion: Joi.string().required(),
+  capabilities: Joi.object().unknown(true).required(),
+  clientInfo: Joi.object({
+    name: Joi.string().required(),
+    version: Joi.string().required(),
+  }).unknown(true).required(),
+}).unknown(true);
+
+/**
+ * Pick the newest supported version that is not newer than the one requested.
+ * Versions are dates, so a client asking for a version it shares with us gets
+ * exactly that, and a newer client is offered our latest.
+ */
+export function negotiateProtocolVersion(
+  requested: string,
+  supported: readonly string[] = SUPPORTED_PROTOCOL_VERSIONS
+): string {
+  const candidates = PROTOCOL_VERSION_PATTERN.test(requested)
+    ? supported.filter(version => version <= requested)
+    : [];
+
+  if (candidates.length === 0) {
+    throw new UnsupportedProtocolVersionError(requested, supported);
+  }
+
+  return candidates.reduce((newest, version) => (version > newest ? version : newest));
+}
+
+export class ClientSessionRegistry {
+  private readonly logger: Logger;
+  private readonly sessions = new Map<string, ClientSession>();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Handle initialize for a session: validate the parameters, negotiate the
+   * protocol version and record what the client declared
+   */
+  public initialize(sessionId: string, params: unknown): ClientSession {
+    const { error, value } = initializeParamsSchema.validate(params);
+    if (error) {
+      throw new InitializeError(`Invalid initialize parameters: ${error.message}`);
+    }
+
+    if (this.sessions.get(sessionId)?.ready) {
+      throw new InitializeError('Session is already initialized', JsonRpcErrorCode.INVALID_REQUEST);
+    }
+
+    const { protocolVersion, capabilities, clientInfo } = value as {
+      protocolVersion: string;
+      capabilities: ClientCapabilities;
+      clientInfo: ClientInfo;
+    };
+
+    const session: ClientSession = {
+      sessionId,
+      protocolVersion: negotiateProtocolVersion(protocolVersion),
+      capabilities,
+      clientInfo: { name: clientInfo.name, version: clientInfo.version },
+      initializedAt: new Date(),
+      ready: false,
+    };
+    this.sessions.set(sessionId, session);
+
+    this.logger.info('Client session initialized', {
+      sessionId,
+      client: `${clientInfo.name}/${clientInfo.version}`,
+      requestedVersion: protocolVersion,
+      protocolVersion: session.protocolVersion,
+    });
+
+    return session;
+  }
+
+  /**
+   * Mark a session ready after notifications/initialized. Returns false when
+   * the session never sent initialize.
+   */
+  public markReady(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.logger.warn('Initialized notification for unknown session', { sessionId });
+      return false;
+    }
+
+    session.ready = true;
+    return true;
+  }
+
+  /**
+   * Get what a client declared during initialize
+   */
+  public getSession(sessionId: string): ClientSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Whether the session completed the initialize handshake
+   */
+  public isReady(sessionId: string): boolean {
+    return !!this.sessions.get(sessionId)?.ready;
+  }
+
+  /**
+   * Forget a session that has ended
+   */
+  public removeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Get the number of tracked sessions
+   */
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+}
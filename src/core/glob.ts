@@ -0,0 +1,171 @@
+/**
+ * Glob Patterns
+ *
+ * Translates glob patterns into regular expressions for file name filters,
+ * role policies and ignore files. Paths use `/` separators: `*`, `?` and
+ * character classes stay within one segment, `**` as a whole segment spans
+ * any number of them, `{a,b}` lists alternatives and `\` escapes the next
+ * character. Pattern lists may exclude paths again with a leading `!`.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+export interface GlobOptions {
+  /** Match letters regardless of case; defaults to false */
+  readonly ignoreCase?: boolean;
+  /** Expand `{a,b}` alternatives; ignore files treat braces literally. Defaults to true */
+  readonly braces?: boolean;
+}
+
+/**
+ * Translate a glob into an anchored regular expression
+ */
+export function globToRegExp(glob: string, options: GlobOptions = {}): RegExp {
+  return new RegExp(`^${translate(glob, options.braces !== false)}$`, options.ignoreCase ? 'i' : '');
+}
+
+/**
+ * Compile a list of globs into one test. Patterns apply in order and the last
+ * one that matches decides, so `!` patterns exclude what earlier ones included;
+ * a list that starts with a `!` pattern includes everything it does not exclude.
+ */
+export function createGlobMatcher(globs: readonly string[], options: GlobOptions = {}): (path: string) => boolean {
+  const patterns = globs.map(glob => {
+    const negated = glob.startsWith('!');
+    return { negated, regex: globToRegExp(negated ? glob.slice(1) : glob, options) };
+  });
+  const initial = patterns[0]?.negated ?? false;
+
+  return path => {
+    let matched = initial;
+    for (const pattern of patterns) {
+      if (pattern.regex.test(path)) {
+        matched = !pattern.negated;
+      }
+    }
+    return matched;
+  };
+}
+
+function translate(glob: string, braces: boolean): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]!);
+    } else if (char === '*' && glob[i + 1] === '*' && isSegmentStart(glob, i) && isSegmentEnd(glob, i + 2)) {
+      // Globstar: `**/` matches any number of leading segments, a trailing `/**` everything beneath
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+      // Further stars inside a segment add nothing
+      while (glob[i + 1] === '*') {
+        i++;
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = findClassEnd(glob, i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += translateClass(glob.slice(i + 1, end));
+        i = end;
+      }
+    } else if (char === '{' && braces) {
+      const alternatives = splitBraces(glob, i);
+      if (alternatives) {
+        source += `(?:${alternatives.parts.map(part => translate(part, braces)).join('|')})`;
+        i = alternatives.end;
+      } else {
+        source += '\\{';
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function isSegmentStart(glob: string, index: number): boolean {
+  return index === 0 || glob[index - 1] === '/';
+}
+
+function isSegmentEnd(glob: string, index: number): boolean {
+  return index === glob.length || glob[index] === '/';
+}
+
+/**
+ * Index of the `]` closing a class opened at `start`, or -1 when it is not closed
+ */
+function findClassEnd(glob: string, start: number): number {
+  let i = start + 1;
+  if (glob[i] === '!' || glob[i] === '^') {
+    i++;
+  }
+  // A `]` right after the opening bracket is part of the class
+  if (glob[i] === ']') {
+    i++;
+  }
+  for (; i < glob.length; i++) {
+    if (glob[i] === '\\') {
+      i++;
+    } else if (glob[i] === ']') {
+      return i;
+    } else if (glob[i] === '/') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function translateClass(body: string): string {
+  const negated = body.startsWith('!') || body.startsWith('^');
+  const members = (negated ? body.slice(1) : body).replace(/\\(.)|([\]\\^])/g, (_match, escaped: string, special: string) =>
+    `\\${escaped ?? special}`
+  );
+  // Negated classes never match the separator either
+  return negated ? `[^/${members}]` : `[${members}]`;
+}
+
+/**
+ * Split `{a,b,c}` at top-level commas; undefined when the braces are not closed or hold no comma
+ */
+function splitBraces(glob: string, start: number): { parts: string[]; end: number } | undefined {
+  const parts: string[] = [];
+  let depth = 0;
+  let partStart = start + 1;
+
+  for (let i = start + 1; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(glob.slice(partStart, i));
+      partStart = i + 1;
+    } else if (char === '}') {
+      parts.push(glob.slice(partStart, i));
+      return parts.length > 1 ? { parts, end: i } : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,213 @@
+/**
+ * JSON Schema Validation
+ *
+ * Compiles the JSON Schema subset used by tool input schemas into Joi schemas:
+ * types, enum/const, numeric and length bounds, pattern, required and
+ * additional properties, array items, and oneOf/anyOf/allOf. Validation is
+ * strict (no type coercion), reports every violation, and fills in `default`
+ * values from the schema.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import Joi from 'joi';
+import { JsonSchema } from '@/types/mcp';
+
+/**
+ * One failing field, addressed by its dotted path within the validated value
+ */
+export interface SchemaViolation {
+  readonly path: string;
+  readonly message: string;
+}
+
+export interface SchemaValidationResult<T> {
+  readonly value: T;
+  readonly violations: SchemaViolation[];
+}
+
+/**
+ * Convert a JSON Schema into an equivalent Joi schema
+ */
+export function jsonSchemaToJoi(schema: JsonSchema): Joi.Schema {
+  let joiSchema: Joi.Schema;
+  if (schema.enum) {
+    joiSchema = Joi.valid(...schema.enum);
+  } else if (schema.const !== undefined) {
+    joiSchema = Joi.valid(schema.const);
+  } else if (schema.oneOf || schema.anyOf || schema.allOf) {
+    joiSchema = compileComposition(schema);
+  } else {
+    joiSchema = compileType(schema);
+  }
+
+  if (schema.default !== undefined) {
+    joiSchema = joiSchema.default(schema.default);
+  }
+  if (schema.description) {
+    joiSchema = joiSchema.description(schema.description);
+  }
+
+  return joiSchema;
+}
+
+/**
+ * Validate a value, collecting every violation and applying schema defaults
+ */
+export function validateWithSchema<T>(schema: Joi.Schema, value: T): SchemaValidationResult<T> {
+  const { error, value: validated } = schema.validate(value, { abortEarly: false, convert: false });
+
+  const violations = (error?.details || []).map(detail => ({
+    path: detail.path.join('.'),
+    message: detail.message,
+  }));
+
+  return { value: validated as T, violations };
+}
+
+function compileType(schema: JsonSchema): Joi.Schema {
+  switch (schema.type) {
+    case 'string':
+      return compileString(schema);
+    case 'number':
+    case 'integer':
+      return compileNumber(schema);
+    case 'boolean':
+      return Joi.boolean();
+    case 'null':
+      return Joi.valid(null);
+    case 'array':
+      return compileArray(schema);
+    case 'object':
+      return compileObject(schema);
+    default:
+      // Untyped schemas that name properties, as in oneOf branches listing required fields
+      return schema.properties || schema.required ? compileObject(schema) : Joi.any();
+  }
+}
+
+function compileString(schema: JsonSchema): Joi.Schema {
+  // JSON Schema accepts empty strings unless minLength says otherwise
+  let joiSchema = Joi.string().allow('');
+
+  if (schema.minLength !== undefined) {
+    joiSchema = joiSchema.min(schema.minLength);
+  }
+  if (schema.maxLength !== undefined) {
+    joiSchema = joiSchema.max(schema.maxLength);
+  }
+  if (schema.pattern !== undefined) {
+    joiSchema = joiSchema.pattern(new RegExp(schema.pattern, 'u'));
+  }
+
+  switch (schema.format) {
+    case 'uri':
+      return joiSchema.uri();
+    case 'email':
+      return joiSchema.email();
+    case 'date-time':
+      return joiSchema.isoDate();
+    default:
+      return joiSchema;
+  }
+}
+
+function compileNumber(schema: JsonSchema): Joi.Schema {
+  let joiSchema = Joi.number();
+
+  if (schema.type === 'integer') {
+    joiSchema = joiSchema.integer();
+  }
+  if (schema.minimum !== undefined) {
+    joiSchema = joiSchema.min(schema.minimum);
+  }
+  if (schema.maximum !== undefined) {
+    joiSchema = joiSchema.max(schema.maximum);
+  }
+  if (schema.exclusiveMinimum !== undefined) {
+    joiSchema = joiSchema.greater(schema.exclusiveMinimum);
+  }
+  if (schema.exclusiveMaximum !== undefined) {
+    joiSchema = joiSchema.less(schema.exclusiveMaximum);
+  }
+  if (schema.multipleOf !== undefined) {
+    joiSchema = joiSchema.multiple(schema.multipleOf);
+  }
+
+  return joiSchema;
+}
+
+function compileArray(schema: JsonSchema): Joi.Schema {
+  let joiSchema = Joi.array();
+
+  if (schema.items) {
+    joiSchema = joiSchema.items(jsonSchemaToJoi(schema.items));
+  }
+  if (schema.minItems !== undefined) {
+    joiSchema = joiSchema.min(schema.minItems);
+  }
+  if (schema.maxItems !== undefined) {
+    joiSchema = joiSchema.max(schema.maxItems);
+  }
+  if (schema.uniqueItems) {
+    joiSchema = joiSchema.unique();
+  }
+
+  return joiSchema;
+}
+
+function compileObject(schema: JsonSchema): Joi.Schema {
+  const required = new Set(schema.required || []);
+  const keys: Record<string, Joi.Schema> = {};
+
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    const propertySchema = jsonSchemaToJoi(property);
+    keys[name] = required.has(name) ? propertySchema.required() : propertySchema;
+  }
+
+  // Required names without a property schema still have to be present
+  for (const name of required) {
+    if (!keys[name]) {
+      keys[name] = Joi.any().required();
+    }
+  }
+
+  let joiSchema = Joi.object(keys).unknown(schema.additionalProperties !== false);
+
+  if (schema.minProperties !== undefined) {
+    joiSchema = joiSchema.min(schema.minProperties);
+  }
+  if (schema.maxProperties !== undefined) {
+    joiSchema = joiSchema.max(schema.maxProperties);
+  }
+
+  return joiSchema;
+}
+
+/**
+ * oneOf must match exactly one branch, anyOf at least one and allOf every
+ * branch. Sibling keywords such as `type` and `properties` are validated
+ * first, so their field errors are reported individually.
+ */
+function compileComposition(schema: JsonSchema): Joi.Schema {
+  const { oneOf, anyOf, allOf, ...rest } = schema;
+  const [keyword, branches, mode] = oneOf
+    ? ['oneOf', oneOf, 'one' as const]
+    : anyOf
+      ? ['anyOf', anyOf, 'any' as const]
+      : ['allOf', allOf!, 'all' as const];
+
+  const alternatives = Joi.alternatives().try(...branches.map(branch => jsonSchemaToJoi(branch))).match(mode);
+  if (!rest.type && !rest.properties) {
+    return alternatives;
+  }
+
+  const expectation = { one: 'exactly one', any: 'at least one', all: 'all' }[mode];
+  return compileType(rest).custom((value, helpers) => {
+    const { error } = alternatives.validate(value, { convert: false });
+    return error
+      ? helpers.message({ custom: `{{#label}} must match ${expectation} of the ${keyword} schemas` })
+      : value;
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Progress Reporter
+ *
+ * Turns progress updates from a running tool into `notifications/progress`
+ * messages for the progress token the client sent in `_meta.progressToken`.
+ * Updates are throttled, and only sent when the progress value grows, since
+ * the protocol requires it to increase with every notification.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { NotificationSender, ProgressNotification, ProgressReporter } from '@/types/mcp';
+
+/**
+ * Create a reporter that notifies the client about one request's progress
+ */
+export function createProgressReporter(
+  progressToken: string | number,
+  sendNotification: NotificationSender,
+  minIntervalMs = 100
+): ProgressReporter {
+  let lastProgress = -Infinity;
+  let lastSentAt = 0;
+
+  return (progress, total, message) => {
+    if (progress <= lastProgress) {
+      return;
+    }
+
+    // Completion is always reported; intermediate updates at most once per interval
+    const now = Date.now();
+    const finished = total !== undefined && progress >= total;
+    if (!finished && now - lastSentAt < minIntervalMs) {
+      return;
+    }
+
+    lastProgress = progress;
+    lastSentAt = now;
+
+    const notification: ProgressNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress,
+        ...(total !== undefined ? { total } : {}),
+        ...(message ? { message } : {}),
+      },
+    };
+    sendNotification(notification);
+  };
+}
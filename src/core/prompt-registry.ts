@@ -0,0 +1,437 @@
+/**
+ * Prompt Registry
+ *
+ * Serves MCP prompts loaded from JSON definition files in the configured
+ * prompt directory, plus prompts registered at runtime. Prompts declare typed
+ * arguments, render `{{argument}}` placeholders, and can embed workspace files
+ * or images into their messages. The directory is watched and reloaded on
+ * change, emitting `listChanged`.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { EventEmitter } from 'events';
+import { watch, FSWatcher } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import Joi from 'joi';
+import mime from 'mime-types';
+import { WorkspaceSandbox } from '@/core/workspace-sandbox';
+import { isTextMimeType } from '@/core/resource-registry';
+import {
+  Prompt,
+  PromptMessage,
+  GetPromptResult,
+  PromptsConfig,
+  Content,
+  ContentType,
+  SecurityContext,
+  Logger,
+  JsonRpcErrorCode,
+} from '@/types/mcp';
+
+/**
+ * Raised when prompts/get names a prompt that does not exist
+ */
+export class PromptNotFoundError extends Error {
+  public readonly code = JsonRpcErrorCode.INVALID_PARAMS;
+
+  constructor(name: string) {
+    super(`Prompt not found: ${name}`);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+/**
+ * Raised when prompt arguments are missing or do not match their declared types
+ */
+export class PromptArgumentError extends Error {
+  public readonly code = JsonRpcErrorCode.INVALID_PARAMS;
+  public readonly problems: readonly string[];
+
+  constructor(promptName: string, problems: readonly string[]) {
+    super(`Invalid arguments for prompt ${promptName}: ${problems.join('; ')}`);
+    this.name = 'PromptArgumentError';
+    this.problems = problems;
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+const definitionSchema = Joi.object({
+  name: Joi.string().pattern(/^[A-Za-z0-9_.-]+$/).required(),
+  description: Joi.string().optional(),
+  arguments: Joi.array().items(
+    Joi.object({
+      name: Joi.string().pattern(/^[A-Za-z0-9_]+$/).required(),
+      description: Joi.string().optional(),
+      type: Joi.string().valid('string', 'number', 'boolean', 'enum').default('string'),
+      values: Joi.when('type', {
+        is: 'enum',
+        then: Joi.array().items(Joi.string()).min(1).required(),
+        otherwise: Joi.forbidden(),
+      }),
+      required: Joi.boolean().optional(),
+      default: Joi.alternatives().try(Joi.string(), Joi.number(), Joi.boolean()).optional(),
+    })
+  ).unique('name').default([]),
+  messages: Joi.array().items(
+    Joi.object({
+      role: Joi.string().valid('user', 'assistant').required(),
+      text: Joi.string(),
+      resource: Joi.string(),
+    }).xor('text', 'resource')
+  ).min(1).required(),
+});
+
+export class PromptRegistry extends EventEmitter {
+  private readonly logger: Logger;
+  private readonly config: PromptsConfig;
+  private readonly workspace: WorkspaceSandbox;
+  private readonly directory: string;
+  private filePrompts = new Map<string, PromptDefinition>();
+  private readonly registeredPrompts = new Map<string, PromptDefinition>();
+  private watcher: FSWatcher | undefined;
+  private reloadTimer: NodeJS.Timeout | undefined;
+  private isInitialized = false;
+
+  constructor(logger: Logger, config: PromptsConfig, workspace: WorkspaceSandbox) {
+    super();
+    this.logger = logger;
+    this.config = config;
+    this.workspace = workspace;
+    this.directory = resolve(config.directory);
+  }
+
+  /**
+   * Load the prompt library and start watching it for changes
+   */
+  public async initialize(): Promise<void> {
+    await this.loadDirectory();
+
+    try {
+      this.watcher = watch(this.directory, () => this.scheduleReload());
+      this.watcher.on('error', error => this.logger.warn('Prompt directory watch failed', {
+        path: this.directory,
+        error: error.message,
+      }));
+    } catch {
+      this.logger.debug('Prompt directory not watched', { path: this.directory });
+    }
+
+    this.isInitialized = true;
+    this.logger.info('Prompt registry initialized', { prompts: this.filePrompts.size, path: this.directory });
+  }
+
+  /**
+   * Register a prompt definition at runtime
+   */
+  public registerPrompt(definition: unknown): void {
+    const prompt = this.validateDefinition(definition);
+    if (this.registeredPrompts.has(prompt.name)) {
+      throw new Error(`Prompt ${prompt.name} is already registered`);
+    }
+
+    this.registeredPrompts.set(prompt.name, prompt);
+    this.logger.debug('Prompt registered', { name: prompt.name });
+    this.emitListChanged();
+  }
+
+  /**
+   * Unregister a runtime prompt
+   */
+  public unregisterPrompt(name: string): boolean {
+    const removed = this.registeredPrompts.delete(name);
+    if (removed) {
+      this.logger.debug('Prompt unregistered', { name });
+      this.emitListChanged();
+    }
+    return removed;
+  }
+
+  /**
+   * List the available prompts
+   */
+  public listPrompts(): Prompt[] {
+    return this.allPrompts().map(definition => ({
+      name: definition.name,
+      ...(definition.description ? { description: definition.description } : {}),
+      arguments: definition.arguments.map(argument => ({
+        name: argument.name,
+        description: this.describeArgument(argument),
+        required: !!argument.required && argument.default === undefined,
+      })),
+    }));
+  }
+
+  /**
+   * Render a prompt with the given arguments. Embedded files are read through
+   * the caller's workspace and must pass the optional access check, which gets
+   * both their URI and their resolved path.
+   */
+  public async getPrompt(
+    name: string,
+    args: Record<string, unknown>,
+    securityContext: SecurityContext,
+    canEmbed: (uri: string, filePath: string) => Promise<boolean> = async () => true
+  ): Promise<GetPromptResult> {
+    const definition = this.registeredPrompts.get(name) || this.filePrompts.get(name);
+    if (!definition) {
+      throw new PromptNotFoundError(name);
+    }
+
+    const values = this.bindArguments(definition, args);
+    const messages: PromptMessage[] = [];
+
+    for (const message of definition.messages) {
+      const content = message.text !== undefined
+        ? { type: ContentType.TEXT, text: this.render(message.text, values) }
+        : await this.embedFile(definition.name, this.render(message.resource!, values), securityContext, canEmbed);
+      messages.push({ role: message.role, content });
+    }
+
+    return {
+      ...(definition.description ? { description: definition.description } : {}),
+      messages,
+    };
+  }
+
+  /**
+   * Get prompt registry health status
+   */
+  public getHealthStatus(): { status: string; prompts: number } {
+    return {
+      status: 'healthy',
+      prompts: this.filePrompts.size + this.registeredPrompts.size,
+    };
+  }
+
+  /**
+   * Stop watching the prompt directory
+   */
+  public close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Read every *.json definition in the prompt directory. Invalid files are
+   * skipped with a warning so one bad edit cannot take the library down.
+   */
+  private async loadDirectory(): Promise<void> {
+    const prompts = new Map<string, PromptDefinition>();
+
+    let files: string[];
+    try {
+      files = (await readdir(this.directory)).filter(file => extname(file) === '.json').sort();
+    } catch {
+      this.filePrompts = prompts;
+      return;
+    }
+
+    for (const file of files) {
+      const filePath = join(this.directory, file);
+      try {
+        const prompt = this.validateDefinition(JSON.parse(await readFile(filePath, 'utf-8')));
+        if (prompts.has(prompt.name)) {
+          throw new Error(`duplicate prompt name ${prompt.name}`);
+        }
+        prompts.set(prompt.name, prompt);
+      } catch (error) {
+        this.logger.warn('Skipping invalid prompt file', { path: filePath, error: (error as Error).message });
+      }
+    }
+
+    this.filePrompts = prompts;
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+    }
+
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.loadDirectory()
+        .then(() => {
+          this.logger.info('Prompt library reloaded', { prompts: this.filePrompts.size });
+          this.emitListChanged();
+        })
+        .catch(error => this.logger.error('Prompt library reload failed', error as Error));
+    }, 200);
+    this.reloadTimer.unref();
+  }
+
+  /**
+   * Validate a definition and check that every placeholder names a declared argument
+   */
+  private validateDefinition(definition: unknown): PromptDefinition {
+    const { error, value } = definitionSchema.validate(definition);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const prompt = value as PromptDefinition;
+    const declared = new Set(prompt.arguments.map(argument => argument.name));
+
+    for (const message of prompt.messages) {
+      const template = message.text ?? message.resource ?? '';
+      for (const [, placeholder] of template.matchAll(PLACEHOLDER)) {
+        if (!declared.has(placeholder!)) {
+          throw new Error(`placeholder {{${placeholder}}} does not name an argument`);
+        }
+      }
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Apply defaults and coerce argument values to their declared types
+   */
+  private bindArguments(definition: PromptDefinition, args: Record<string, unknown>): Map<string, string> {
+    const values = new Map<string, string>();
+    const problems: string[] = [];
+
+    for (const argument of definition.arguments) {
+      const raw = args[argument.name] ?? argument.default;
+
+      if (raw === undefined || raw === '') {
+        if (argument.required) {
+          problems.push(`${argument.name} is required`);
+        }
+        values.set(argument.name, '');
+        continue;
+      }
+
+      const text = String(raw);
+      switch (argument.type) {
+        case 'number':
+          if (text.trim() === '' || !Number.isFinite(Number(text))) {
+            problems.push(`${argument.name} must be a number`);
+          }
+          break;
+        case 'boolean':
+          if (text !== 'true' && text !== 'false') {
+            problems.push(`${argument.name} must be true or false`);
+          }
+          break;
+        case 'enum':
+          if (!argument.values!.includes(text)) {
+            problems.push(`${argument.name} must be one of ${argument.values!.join(', ')}`);
+          }
+          break;
+      }
+      values.set(argument.name, text);
+    }
+
+    const unknown = Object.keys(args).filter(key => !definition.arguments.some(argument => argument.name === key));
+    if (unknown.length > 0) {
+      problems.push(`unknown arguments: ${unknown.join(', ')}`);
+    }
+
+    if (problems.length > 0) {
+      throw new PromptArgumentError(definition.name, problems);
+    }
+
+    return values;
+  }
+
+  private render(template: string, values: Map<string, string>): string {
+    return template.replace(PLACEHOLDER, (_, name: string) => values.get(name) ?? '');
+  }
+
+  /**
+   * Embed a workspace file: images as image content, everything else as an embedded resource
+   */
+  private async embedFile(
+    promptName: string,
+    path: string,
+    securityContext: SecurityContext,
+    canEmbed: (uri: string, filePath: string) => Promise<boolean>
+  ): Promise<Content> {
+    const filePath = await this.workspace.resolvePath(path, securityContext);
+    const uri = pathToFileURL(filePath).href;
+
+    if (!(await canEmbed(uri, filePath))) {
+      throw new PromptArgumentError(promptName, [`access denied for ${path}`]);
+    }
+
+    const stats = await stat(filePath);
+    if (!stats.isFile()) {
+      throw new PromptArgumentError(promptName, [`${path} is not a file`]);
+    }
+    if (stats.size > this.config.maxEmbedSize) {
+      throw new PromptArgumentError(promptName, [`${path} is larger than ${this.config.maxEmbedSize} bytes`]);
+    }
+
+    const data = await readFile(filePath);
+    const mimeType = mime.lookup(filePath) || 'text/plain';
+
+    if (mimeType.startsWith('image/') && !isTextMimeType(mimeType)) {
+      return { type: ContentType.IMAGE, data: data.toString('base64'), mimeType };
+    }
+
+    return {
+      type: ContentType.RESOURCE,
+      resource: isTextMimeType(mimeType)
+        ? { uri, mimeType, text: data.toString('utf8') }
+        : { uri, mimeType, blob: data.toString('base64') },
+    };
+  }
+
+  private describeArgument(argument: PromptArgumentDefinition): string {
+    const details = [
+      argument.type !== 'string' ? argument.type === 'enum' ? `one of ${argument.values!.join(', ')}` : argument.type : '',
+      argument.default !== undefined ? `default ${argument.default}` : '',
+    ].filter(Boolean);
+
+    const description = argument.description || argument.name;
+    return details.length > 0 ? `${description} (${details.join(', ')})` : description;
+  }
+
+  private allPrompts(): PromptDefinition[] {
+    const prompts = new Map(this.filePrompts);
+    this.registeredPrompts.forEach((prompt, name) => prompts.set(name, prompt));
+    return Array.from(prompts.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Announce changes to the prompt list once the registry is running
+   */
+  private emitListChanged(): void {
+    if (this.isInitialized) {
+      this.emit('listChanged');
+    }
+  }
+}
+
+/**
+ * Prompt definition as stored in a prompt file, after validation
+ */
+interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments: PromptArgumentDefinition[];
+  messages: PromptMessageDefinition[];
+}
+
+interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  type: 'string' | 'number' | 'boolean' | 'enum';
+  values?: string[];
+  required?: boolean;
+  default?: string | number | boolean;
+}
+
+interface PromptMessageDefinition {
+  role: 'user' | 'assistant';
+  text?: string;
+  resource?: string;
+}
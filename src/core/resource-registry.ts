@@ -1,58 +1,471 @@
-import { injectable, inject } from 'inversify';
-import { ConfigService } from '../services/config.service';
-import { LoggerService } from '../services/logger.service';
-import { Resource, ResourceTemplate } from '../types/mcp';
+/**
+ * Resource Registry
+ *
+ * Serves MCP resources: descriptors registered at runtime plus every file in
+ * the configured resource directories, exposed as file:// URIs. Listings are
+ * paginated with opaque cursors, and reads return text or base64 blobs
+ * depending on the MIME type. Emits `updated` for subscribed resources and
+ * `listChanged` when the set of resources changes.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
 
-@injectable()
-export class ResourceRegistry {
-  private resources: Map<string, Resource> = new Map();
+import { EventEmitter } from 'events';
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, isAbsolute, join, relative, resolve, sep } from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+import mime from 'mime-types';
+import { WorkspaceSandbox } from '@/core/workspace-sandbox';
+import { ResourceWatcher } from '@/core/resource-watcher';
+import {
+  Resource,
+  ResourceTemplate,
+  ResourceContent,
+  ResourceListResult,
+  ResourcesConfig,
+  ResourceDirectoryConfig,
+  SecurityContext,
+  Logger,
+  McpErrorCode,
+  JsonRpcErrorCode,
+} from '@/types/mcp';
 
-  constructor(
-    @inject('ConfigService') private config: ConfigService,
-    @inject('LoggerService') private logger: LoggerService
-  ) {}
+/**
+ * Raised when a resource URI does not name a readable resource
+ */
+export class ResourceNotFoundError extends Error {
+  public readonly code = McpErrorCode.RESOURCE_NOT_FOUND;
+  public readonly uri: string;
 
-  registerResource(resource: Resource): void {
-    this.resources.set(resource.uri, resource);
-    this.logger.info('Resource registered', { uri: resource.uri });
+  constructor(uri: string) {
+    super(`Resource not found: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+    this.uri = uri;
   }
+}
+
+/**
+ * Raised when a pagination cursor was not issued by this server
+ */
+export class InvalidCursorError extends Error {
+  public readonly code = JsonRpcErrorCode.INVALID_PARAMS;
 
-  getResource(uri: string): Resource | undefined {
-    return this.resources.get(uri);
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = 'InvalidCursorError';
   }
+}
+
+/**
+ * Check whether content of this MIME type is returned as text rather than a base64 blob
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  const textTypes = [
+    'application/json',
+    'application/xml',
+    'application/javascript',
+    'application/typescript',
+    'application/x-yaml',
+    'application/yaml',
+    'application/x-sh',
+    'application/sql',
+    'image/svg+xml',
+  ];
+
+  return mimeType.startsWith('text/') ||
+         textTypes.includes(mimeType) ||
+         mimeType.endsWith('+json') ||
+         mimeType.endsWith('+xml');
+}
 
-  listResources(): Resource[] {
-    return Array.from(this.resources.values());
+export class ResourceRegistry extends EventEmitter {
+  private readonly resources = new Map<string, RegisteredResource>();
+  private readonly templates = new Map<string, ResourceTemplate>();
+  private readonly logger: Logger;
+  private readonly config: ResourcesConfig;
+  private readonly directories: ExposedDirectory[];
+  private readonly sandbox: WorkspaceSandbox;
+  private readonly watcher: ResourceWatcher;
+  private isInitialized = false;
+
+  constructor(logger: Logger, config: ResourcesConfig) {
+    super();
+    this.logger = logger;
+    this.config = config;
+    this.directories = config.directories.map(directory => this.describeDirectory(directory));
+    this.sandbox = new WorkspaceSandbox({
+      roots: this.directories.map(directory => directory.root),
+      userRoots: {},
+    });
+
+    this.watcher = new ResourceWatcher(logger, {
+      maxSubscriptionsPerSession: config.maxSubscriptionsPerSession,
+      debounceMs: config.watchDebounceMs,
+    });
+    this.watcher.on('updated', (uri: string, sessionIds: string[]) => this.emit('updated', uri, sessionIds));
+    this.watcher.on('listChanged', () => this.emit('listChanged'));
   }
 
-  async getAvailableResources(securityContext: any): Promise<Resource[]> {
-    // Simple implementation - in production this would check permissions
-    return this.listResources();
+  /**
+   * Initialize the resource registry
+   */
+  public async initialize(): Promise<void> {
+    const watchable: string[] = [];
+
+    for (const directory of this.directories) {
+      try {
+        const stats = await stat(directory.root);
+        if (stats.isDirectory()) {
+          watchable.push(directory.root);
+        } else {
+          this.logger.warn('Resource directory is not a directory', { path: directory.root });
+        }
+      } catch {
+        this.logger.warn('Resource directory does not exist', { path: directory.root });
+      }
+    }
+
+    this.watcher.watchListings(watchable);
+    this.isInitialized = true;
+
+    this.logger.info('Resource registry initialized', {
+      resources: this.resources.size,
+      directories: this.directories.length,
+    });
   }
 
-  async readResource(uri: string, securityContext: any, requestId?: string): Promise<any> {
-    const resource = this.getResource(uri);
-    if (!resource) {
-      throw new Error(`Resource ${uri} not found`);
+  /**
+   * Register a resource, optionally with a reader that produces its contents
+   */
+  public registerResource(resource: Resource, reader?: ResourceReader): void {
+    this.resources.set(resource.uri, { resource, reader });
+    this.logger.debug('Resource registered', { uri: resource.uri });
+    this.emitListChanged();
+  }
+
+  /**
+   * Unregister a resource
+   */
+  public unregisterResource(uri: string): boolean {
+    const removed = this.resources.delete(uri);
+    if (removed) {
+      this.logger.debug('Resource unregistered', { uri });
+      this.emitListChanged();
     }
-    // Simple implementation - in production this would check permissions
-    return resource;
+    return removed;
+  }
+
+  /**
+   * Subscribe a session to updates of a file resource
+   */
+  public async subscribe(sessionId: string, uri: string): Promise<void> {
+    const filePath = await this.resolveFileUri(uri);
+    this.watcher.subscribe(sessionId, uri, filePath);
+  }
+
+  /**
+   * Cancel a session's subscription to a resource
+   */
+  public unsubscribe(sessionId: string, uri: string): boolean {
+    return this.watcher.unsubscribe(sessionId, uri);
   }
 
-  unregisterResource(uri: string): void {
-    this.resources.delete(uri);
-    this.logger.info('Resource unregistered', { uri });
+  /**
+   * Drop every subscription of a session that has ended
+   */
+  public unsubscribeSession(sessionId: string): void {
+    this.watcher.unsubscribeSession(sessionId);
   }
 
-  getHealthStatus(): any {
+  /**
+   * Stop watching the filesystem
+   */
+  public close(): void {
+    this.watcher.close();
+  }
+
+  /**
+   * Register a resource template
+   */
+  public registerTemplate(template: ResourceTemplate): void {
+    this.templates.set(template.uriTemplate, template);
+    this.logger.debug('Resource template registered', { uriTemplate: template.uriTemplate });
+  }
+
+  /**
+   * Get a registered resource descriptor
+   */
+  public getResource(uri: string): Resource | undefined {
+    return this.resources.get(uri)?.resource;
+  }
+
+  /**
+   * List one page of resources: registered resources first, then directory
+   * files in a stable order. Only resources accepted by the filter count
+   * towards the page.
+   */
+  public async listResources(
+    securityContext: SecurityContext,
+    cursor?: string,
+    filter: ResourceFilter = async () => true
+  ): Promise<ResourceListResult> {
+    const offset = cursor ? this.decodeCursor(cursor) : 0;
+    const pageSize = this.config.pageSize;
+    const page: Resource[] = [];
+    let seen = 0;
+
+    for await (const resource of this.allResources()) {
+      if (!(await filter(resource, securityContext))) {
+        continue;
+      }
+
+      if (seen++ < offset) {
+        continue;
+      }
+
+      if (page.length === pageSize) {
+        return { resources: page, nextCursor: this.encodeCursor(offset + pageSize) };
+      }
+      page.push(resource);
+    }
+
+    return { resources: page };
+  }
+
+  /**
+   * List the templates clients can expand into resource URIs
+   */
+  public listTemplates(): ResourceTemplate[] {
+    const directoryTemplates = this.directories.map(directory => ({
+      uriTemplate: `${pathToFileURL(directory.root).href}/{+path}`,
+      name: directory.name,
+      description: directory.description || `Files under ${directory.root}`,
+    }));
+
+    return [...directoryTemplates, ...this.templates.values()];
+  }
+
+  /**
+   * Read the contents of a resource
+   */
+  public async readResource(
+    uri: string,
+    securityContext: SecurityContext,
+    requestId?: string
+  ): Promise<ResourceContent[]> {
+    const registered = this.resources.get(uri);
+    if (registered?.reader) {
+      return registered.reader(uri, securityContext);
+    }
+
+    this.logger.debug('Reading file resource', { uri, requestId });
+    return [await this.readFileResource(uri)];
+  }
+
+  /**
+   * Get resource registry health status
+   */
+  public getHealthStatus(): { status: string; resources: number; directories: number } {
     return {
       status: 'healthy',
-      resources: this.resources.size
+      resources: this.resources.size,
+      directories: this.directories.length,
+    };
+  }
+
+  /**
+   * Map a file:// URI to the real path of a visible file inside one of the exposed directories
+   */
+  private async resolveFileUri(uri: string): Promise<string> {
+    if (!uri.startsWith('file://')) {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    let requestedPath: string;
+    let filePath: string;
+    try {
+      requestedPath = fileURLToPath(uri);
+      filePath = await this.sandbox.resolvePath(requestedPath);
+    } catch {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    const relativePath = await this.sandbox.relativeToRoot(filePath);
+    const stats = await stat(filePath).catch(() => null);
+    if (!stats || !stats.isFile() || relativePath === null || this.isHiddenPath(relativePath)) {
+      throw new ResourceNotFoundError(uri);
+    }
+    if (!this.isListedPath(requestedPath) && !this.isListedPath(filePath)) {
+      throw new ResourceNotFoundError(uri);
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Read a file:// resource that lies inside one of the exposed directories
+   */
+  private async readFileResource(uri: string): Promise<ResourceContent> {
+    const filePath = await this.resolveFileUri(uri);
+    const stats = await stat(filePath);
+
+    if (stats.size > this.config.maxReadSize) {
+      throw new Error(`Resource too large: ${stats.size} bytes (max: ${this.config.maxReadSize})`);
+    }
+
+    const data = await readFile(filePath);
+    const mimeType = mime.lookup(filePath) || (this.looksLikeText(data) ? 'text/plain' : 'application/octet-stream');
+
+    return isTextMimeType(mimeType)
+      ? { uri, mimeType, text: data.toString('utf8') }
+      : { uri, mimeType, blob: data.toString('base64') };
+  }
+
+  /**
+   * Yield every listable resource in a stable order
+   */
+  private async *allResources(): AsyncGenerator<Resource> {
+    for (const { resource } of this.resources.values()) {
+      yield resource;
+    }
+
+    for (const directory of this.directories) {
+      yield* this.walkDirectory(directory, directory.root);
+    }
+  }
+
+  /**
+   * Yield the files of a directory, sorted by name, skipping hidden entries
+   * and symlinks that lead out of the exposed directories
+   */
+  private async *walkDirectory(directory: ExposedDirectory, dirPath: string): AsyncGenerator<Resource> {
+    let entries;
+    try {
+      entries = await readdir(dirPath, { withFileTypes: true });
+    } catch (error) {
+      this.logger.warn('Cannot list resource directory', { path: dirPath, error: (error as Error).message });
+      return;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+
+      const entryPath = join(dirPath, entry.name);
+      if (entry.isSymbolicLink() && !(await this.sandbox.contains(entryPath))) {
+        continue;
+      }
+
+      const stats = entry.isSymbolicLink() ? await stat(entryPath).catch(() => null) : entry;
+      if (!stats) {
+        continue;
+      }
+
+      if (stats.isDirectory()) {
+        if (directory.recursive && !entry.isSymbolicLink()) {
+          yield* this.walkDirectory(directory, entryPath);
+        }
+      } else if (stats.isFile()) {
+        const relativePath = entryPath.slice(directory.root.length + 1).split('\\').join('/');
+        yield {
+          uri: pathToFileURL(entryPath).href,
+          name: `${directory.name}/${relativePath}`,
+          mimeType: mime.lookup(entryPath) || 'application/octet-stream',
+        };
+      }
+    }
+  }
+
+  /**
+   * Announce changes to the resource list once the registry is running
+   */
+  private emitListChanged(): void {
+    if (this.isInitialized) {
+      this.emit('listChanged');
+    }
+  }
+
+  private describeDirectory(directory: ResourceDirectoryConfig): ExposedDirectory {
+    const root = resolve(directory.path);
+    return {
+      root,
+      name: directory.name || basename(root),
+      recursive: directory.recursive !== false,
+      ...(directory.description ? { description: directory.description } : {}),
     };
   }
 
-  async initialize(): Promise<void> {
-    // Initialize resource registry
-    this.logger.info('Resource registry initialized');
+  /**
+   * Check whether a path lies where a listing would show it: anywhere below a
+   * recursive directory, or directly inside one that is not recursive
+   */
+  private isListedPath(path: string): boolean {
+    return this.directories.some(directory => {
+      const relativePath = relative(directory.root, path);
+      if (relativePath === '' || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+        return false;
+      }
+      return directory.recursive || !relativePath.includes(sep);
+    });
+  }
+
+  /**
+   * Hidden files and directories are never listed, so they cannot be read either
+   */
+  private isHiddenPath(relativePath: string): boolean {
+    return relativePath.split('/').some(segment => segment.startsWith('.'));
+  }
+
+  /**
+   * Sniff files without a known MIME type: no NUL bytes in the first 8KB and valid UTF-8
+   */
+  private looksLikeText(data: Buffer): boolean {
+    const sample = data.subarray(0, 8192);
+    if (sample.includes(0)) {
+      return false;
+    }
+    return Buffer.from(sample.toString('utf8'), 'utf8').equals(sample);
+  }
+
+  private encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset }), 'utf8').toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): number {
+    try {
+      const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { offset?: unknown };
+      if (typeof offset === 'number' && Number.isInteger(offset) && offset >= 0) {
+        return offset;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new InvalidCursorError(cursor);
   }
 }
+
+/**
+ * Produces the contents of a registered resource
+ */
+type ResourceReader = (uri: string, securityContext: SecurityContext) => Promise<ResourceContent[]>;
+
+/**
+ * Decides whether a resource is visible to the caller
+ */
+type ResourceFilter = (resource: Resource, securityContext: SecurityContext) => Promise<boolean>;
+
+interface RegisteredResource {
+  resource: Resource;
+  reader: ResourceReader | undefined;
+}
+
+interface ExposedDirectory {
+  root: string;
+  name: string;
+  description?: string;
+  recursive: boolean;
+}
@@ -0,0 +1,237 @@
+/**
+ * Resource Watcher
+ *
+ * Watches the files behind subscribed resources and the exposed resource
+ * directories. Emits `updated` with the subscribed sessions when a watched
+ * file changes and `listChanged` when files are added or removed. Bursts of
+ * filesystem events are debounced into a single notification.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { EventEmitter } from 'events';
+import { watch, FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import { Logger, McpErrorCode } from '@/types/mcp';
+
+/**
+ * Raised when a session tries to watch more resources than allowed
+ */
+export class SubscriptionLimitError extends Error {
+  public readonly code = McpErrorCode.RATE_LIMITED;
+
+  constructor(limit: number) {
+    super(`Subscription limit reached: at most ${limit} resources per session`);
+    this.name = 'SubscriptionLimitError';
+  }
+}
+
+export interface ResourceWatcherOptions {
+  readonly maxSubscriptionsPerSession: number;
+  readonly debounceMs: number;
+}
+
+interface WatchedResource {
+  readonly path: string;
+  readonly sessions: Set<string>;
+}
+
+interface WatchedDirectory {
+  readonly watcher: FSWatcher;
+  readonly files: Map<string, Set<string>>;
+}
+
+export class ResourceWatcher extends EventEmitter {
+  private readonly logger: Logger;
+  private readonly options: ResourceWatcherOptions;
+  private readonly sessions = new Map<string, Set<string>>();
+  private readonly resources = new Map<string, WatchedResource>();
+  private readonly directories = new Map<string, WatchedDirectory>();
+  private readonly listWatchers: FSWatcher[] = [];
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(logger: Logger, options: ResourceWatcherOptions) {
+    super();
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Subscribe a session to changes of the file behind a resource URI
+   */
+  public subscribe(sessionId: string, uri: string, filePath: string): void {
+    const sessionUris = this.sessions.get(sessionId) || new Set<string>();
+    if (sessionUris.has(uri)) {
+      return;
+    }
+    if (sessionUris.size >= this.options.maxSubscriptionsPerSession) {
+      throw new SubscriptionLimitError(this.options.maxSubscriptionsPerSession);
+    }
+
+    let resource = this.resources.get(uri);
+    if (!resource) {
+      resource = { path: filePath, sessions: new Set() };
+      this.watchFile(uri, filePath);
+      this.resources.set(uri, resource);
+    }
+
+    resource.sessions.add(sessionId);
+    sessionUris.add(uri);
+    this.sessions.set(sessionId, sessionUris);
+
+    this.logger.debug('Resource subscribed', { sessionId, uri });
+  }
+
+  /**
+   * Remove one subscription of a session
+   */
+  public unsubscribe(sessionId: string, uri: string): boolean {
+    const sessionUris = this.sessions.get(sessionId);
+    if (!sessionUris?.delete(uri)) {
+      return false;
+    }
+    if (sessionUris.size === 0) {
+      this.sessions.delete(sessionId);
+    }
+
+    const resource = this.resources.get(uri);
+    if (resource) {
+      resource.sessions.delete(sessionId);
+      if (resource.sessions.size === 0) {
+        this.unwatchFile(uri, resource.path);
+        this.resources.delete(uri);
+      }
+    }
+
+    this.logger.debug('Resource unsubscribed', { sessionId, uri });
+    return true;
+  }
+
+  /**
+   * Remove every subscription of a session that has ended
+   */
+  public unsubscribeSession(sessionId: string): void {
+    for (const uri of Array.from(this.sessions.get(sessionId) || [])) {
+      this.unsubscribe(sessionId, uri);
+    }
+  }
+
+  /**
+   * Watch directory trees for files being added or removed
+   */
+  public watchListings(directories: readonly string[]): void {
+    for (const directory of directories) {
+      try {
+        const watcher = watch(directory, { recursive: true }, (eventType, filename) => {
+          if (eventType === 'rename' && !this.isHidden(filename)) {
+            this.debounce('list', () => this.emit('listChanged'));
+          }
+        });
+        watcher.on('error', error => this.logger.warn('Resource directory watch failed', {
+          path: directory,
+          error: error.message,
+        }));
+        this.listWatchers.push(watcher);
+      } catch (error) {
+        this.logger.warn('Cannot watch resource directory', { path: directory, error: (error as Error).message });
+      }
+    }
+  }
+
+  /**
+   * Get the number of subscriptions held by a session
+   */
+  public getSubscriptionCount(sessionId: string): number {
+    return this.sessions.get(sessionId)?.size || 0;
+  }
+
+  /**
+   * Stop all watchers and forget every subscription
+   */
+  public close(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.directories.forEach(directory => directory.watcher.close());
+    this.directories.clear();
+    this.listWatchers.forEach(watcher => watcher.close());
+    this.listWatchers.length = 0;
+    this.resources.clear();
+    this.sessions.clear();
+  }
+
+  /**
+   * Watch the parent directory rather than the file itself, so that files
+   * replaced by rename (as editors and atomic writes do) keep being tracked
+   */
+  private watchFile(uri: string, filePath: string): void {
+    const directoryPath = dirname(filePath);
+    const name = basename(filePath);
+    let directory = this.directories.get(directoryPath);
+
+    if (!directory) {
+      const files = new Map<string, Set<string>>();
+      const watcher = watch(directoryPath, (_eventType, filename) => {
+        const uris = filename ? files.get(filename.toString()) : undefined;
+        uris?.forEach(changedUri => this.debounce(changedUri, () => this.emitUpdated(changedUri)));
+      });
+      watcher.on('error', error => this.logger.warn('Resource watch failed', {
+        path: directoryPath,
+        error: error.message,
+      }));
+      directory = { watcher, files };
+      this.directories.set(directoryPath, directory);
+    }
+
+    const uris = directory.files.get(name) || new Set<string>();
+    uris.add(uri);
+    directory.files.set(name, uris);
+  }
+
+  private unwatchFile(uri: string, filePath: string): void {
+    const directoryPath = dirname(filePath);
+    const directory = this.directories.get(directoryPath);
+    if (!directory) {
+      return;
+    }
+
+    const uris = directory.files.get(basename(filePath));
+    uris?.delete(uri);
+    if (uris?.size === 0) {
+      directory.files.delete(basename(filePath));
+    }
+
+    if (directory.files.size === 0) {
+      directory.watcher.close();
+      this.directories.delete(directoryPath);
+    }
+  }
+
+  private emitUpdated(uri: string): void {
+    const resource = this.resources.get(uri);
+    if (resource && resource.sessions.size > 0) {
+      this.emit('updated', uri, Array.from(resource.sessions));
+    }
+  }
+
+  /**
+   * Run an action once events for the same key have been quiet for the debounce interval
+   */
+  private debounce(key: string, action: () => void): void {
+    const existing = this.timers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(key);
+      action();
+    }, this.options.debounceMs);
+    timer.unref();
+    this.timers.set(key, timer);
+  }
+
+  private isHidden(filename: string | Buffer | null): boolean {
+    return !!filename && filename.toString().split(/[\\/]/).some(segment => segment.startsWith('.'));
+  }
+}
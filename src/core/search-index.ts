@@ -0,0 +1,466 @@
+/**
+ * Search Index
+ *
+ * Keeps a trigram index of the text files under each workspace root so
+ * content searches can skip files that cannot contain the query. The index
+ * is saved between runs, reconciled against the file system on start and
+ * kept current by watching each root. It only ever narrows a search down:
+ * files it has not indexed, or that changed since, are always searched.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { watch, FSWatcher, Stats } from 'fs';
+import { lstat, mkdir, readFile, realpath } from 'fs/promises';
+import { basename, isAbsolute, join, relative, resolve, sep } from 'path';
+import { createHash } from 'crypto';
+import { Logger, SearchIndexConfig } from '@/types/mcp';
+import { WorkspaceSandbox, TRASH_DIRECTORY } from '@/core/workspace-sandbox';
+import { writeFileAtomic } from '@/tools/atomic-write';
+import { WalkOptions, isWalked, walkDirectory } from '@/tools/directory-walker';
+
+const FORMAT_VERSION = 1;
+// Content search skips larger files, so there is no point indexing them
+const MAX_INDEXED_SIZE = 1024 * 1024;
+const IGNORE_FILES = ['.gitignore', '.ignore'];
+
+/**
+ * Decide whether a file met during a search may contain the query
+ */
+export type IndexFilter = (path: string, stats: Stats) => boolean;
+
+export class SearchIndex {
+  private readonly logger: Logger;
+  private readonly config: SearchIndexConfig;
+  private readonly workspace: WorkspaceSandbox;
+  private readonly indexes = new Map<string, RootIndex>();
+
+  constructor(logger: Logger, config: SearchIndexConfig, workspace: WorkspaceSandbox) {
+    this.logger = logger;
+    this.config = config;
+    this.workspace = workspace;
+  }
+
+  /**
+   * Load the saved index of each workspace root, start watching the roots and
+   * bring the indexes up to date in the background
+   */
+  public async start(): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    await mkdir(this.config.directory, { recursive: true });
+    for (const configured of this.workspace.getRoots()) {
+      // Searches see the real paths of the roots
+      let root: string;
+      try {
+        root = await realpath(configured);
+      } catch (error) {
+        this.logger.warn('Cannot index workspace root', { root: configured, error: (error as Error).message });
+        continue;
+      }
+
+      const index = await this.load(root);
+      this.indexes.set(root, index);
+      this.watch(index);
+      void this.rebuild(index);
+    }
+  }
+
+  /**
+   * Stop watching and save the indexes
+   */
+  public async close(): Promise<void> {
+    const indexes = [...this.indexes.values()];
+    this.indexes.clear();
+
+    for (const index of indexes) {
+      index.closed = true;
+      index.watcher?.close();
+      clearTimeout(index.refreshTimer);
+      clearTimeout(index.saveTimer);
+      await index.queue;
+      if (index.ready) {
+        await this.save(index);
+      }
+    }
+  }
+
+  /**
+   * Get a filter for the files under a workspace root that may contain a literal
+   * query, ignoring case; undefined when the index cannot narrow the search, as
+   * for queries shorter than three characters or while a root is being indexed
+   */
+  public lookup(root: string, query: string): IndexFilter | undefined {
+    const index = this.indexes.get(root);
+    const grams = trigramsOf(query);
+    if (!index?.ready || grams.size === 0) {
+      return undefined;
+    }
+
+    // Intersect the posting lists, smallest first
+    const postings = [...grams].map(gram => index.postings.get(gram) ?? new Set<string>());
+    postings.sort((a, b) => a.size - b.size);
+    const hits = new Set([...postings[0]!].filter(path => postings.every(list => list.has(path))));
+
+    return (path, stats) => {
+      const rel = toRelative(root, path);
+      const file = rel === undefined ? undefined : index.files.get(rel);
+      // Unknown, unindexed or changed files have to be searched
+      if (!file || file.trigrams === undefined || file.mtimeMs !== stats.mtimeMs || file.size !== stats.size) {
+        return true;
+      }
+      return hits.has(rel!);
+    };
+  }
+
+  /**
+   * Read the saved index of a root; a missing or unreadable one starts empty
+   */
+  private async load(root: string): Promise<RootIndex> {
+    const index: RootIndex = {
+      root,
+      files: new Map(),
+      postings: new Map(),
+      pending: new Set(),
+      ready: false,
+      closed: false,
+      queue: Promise.resolve(),
+    };
+
+    try {
+      const saved = JSON.parse(await readFile(this.fileFor(root), 'utf8')) as SavedIndex;
+      if (saved.version === FORMAT_VERSION && saved.root === root) {
+        for (const [rel, file] of Object.entries(saved.files)) {
+          this.setFile(index, rel, {
+            mtimeMs: file.mtimeMs,
+            size: file.size,
+            trigrams: file.trigrams === null ? undefined : file.trigrams.match(/[^]{3}/g) ?? [],
+          });
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Discarding unreadable search index', { root, error: (error as Error).message });
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Save an index so the next start only has to index what changed
+   */
+  private async save(index: RootIndex): Promise<void> {
+    const files: SavedIndex['files'] = {};
+    for (const [rel, file] of index.files) {
+      files[rel] = {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        trigrams: file.trigrams === undefined ? null : file.trigrams.join(''),
+      };
+    }
+
+    try {
+      await writeFileAtomic(this.fileFor(index.root), JSON.stringify({ version: FORMAT_VERSION, root: index.root, files }));
+    } catch (error) {
+      this.logger.warn('Failed to save search index', { root: index.root, error: (error as Error).message });
+    }
+  }
+
+  private scheduleSave(index: RootIndex): void {
+    clearTimeout(index.saveTimer);
+    index.saveTimer = setTimeout(() => void this.save(index), this.config.debounceMs * 10);
+    index.saveTimer.unref();
+  }
+
+  /**
+   * Watch a root for changes; files that change are re-indexed once the events settle
+   */
+  private watch(index: RootIndex): void {
+    try {
+      index.watcher = watch(index.root, { recursive: true }, (_event, filename) => {
+        if (!filename || IGNORE_FILES.includes(basename(filename))) {
+          // Events were dropped or the ignore rules changed, so check everything
+          void this.rebuild(index);
+          return;
+        }
+
+        // Saving an index kept inside the root must not count as a change
+        if (toRelative(resolve(this.config.directory), join(index.root, filename)) !== undefined) {
+          return;
+        }
+
+        index.pending.add(filename.split(sep).join('/'));
+        clearTimeout(index.refreshTimer);
+        index.refreshTimer = setTimeout(() => void this.refreshPending(index), this.config.debounceMs);
+        index.refreshTimer.unref();
+      });
+      index.watcher.on('error', error => {
+        this.logger.warn('Search index watcher failed', { root: index.root, error: error.message });
+        index.watcher?.close();
+        delete index.watcher;
+      });
+    } catch (error) {
+      // Without a watcher, changed files are still caught by their modification time
+      this.logger.warn('Cannot watch workspace root for the search index', {
+        root: index.root,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Walk a root and index every file that is new or changed since it was indexed
+   */
+  private rebuild(index: RootIndex): Promise<void> {
+    return this.exclusive(index, async () => {
+      const startTime = Date.now();
+      const seen = new Set<string>();
+
+      try {
+        for await (const entry of walkDirectory(index.root, this.walkOptions(index.root))) {
+          if (index.closed) {
+            return;
+          }
+          if (entry.stats.isFile()) {
+            const rel = toRelative(index.root, entry.path)!;
+            seen.add(rel);
+            await this.indexFile(index, rel, entry.path, entry.stats);
+          }
+        }
+      } catch (error) {
+        this.logger.warn('Failed to index workspace root', { root: index.root, error: (error as Error).message });
+        return;
+      }
+
+      for (const rel of [...index.files.keys()]) {
+        if (!seen.has(rel)) {
+          this.removeFile(index, rel);
+        }
+      }
+
+      index.ready = true;
+      this.scheduleSave(index);
+      this.logger.info('Search index ready', {
+        root: index.root,
+        files: index.files.size,
+        duration: Date.now() - startTime,
+      });
+    });
+  }
+
+  /**
+   * Re-index the paths reported by the watcher
+   */
+  private refreshPending(index: RootIndex): Promise<void> {
+    return this.exclusive(index, async () => {
+      const paths = [...index.pending];
+      index.pending.clear();
+
+      for (const rel of paths) {
+        if (index.closed) {
+          return;
+        }
+        try {
+          await this.refresh(index, rel);
+        } catch (error) {
+          this.logger.debug('Failed to refresh search index entry', { path: rel, error: (error as Error).message });
+        }
+      }
+      this.scheduleSave(index);
+    });
+  }
+
+  private async refresh(index: RootIndex, rel: string): Promise<void> {
+    const path = join(index.root, rel);
+    const options = this.walkOptions(index.root);
+
+    let stats: Stats;
+    try {
+      stats = await lstat(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.removeTree(index, rel);
+        return;
+      }
+      throw error;
+    }
+
+    if (stats.isDirectory()) {
+      // A directory created or moved in arrives as a single event for the directory itself
+      this.removeTree(index, rel);
+      if (await isWalked(index.root, path, true, options)) {
+        for await (const entry of walkDirectory(path, options)) {
+          if (entry.stats.isFile()) {
+            await this.indexFile(index, toRelative(index.root, entry.path)!, entry.path, entry.stats);
+          }
+        }
+      }
+    } else if (stats.isFile() && await isWalked(index.root, path, false, options)) {
+      await this.indexFile(index, rel, path, stats);
+    } else {
+      this.removeFile(index, rel);
+    }
+  }
+
+  /**
+   * Index a file unless it is unchanged since it was last indexed
+   */
+  private async indexFile(index: RootIndex, rel: string, path: string, stats: Stats): Promise<void> {
+    const current = index.files.get(rel);
+    if (current && current.mtimeMs === stats.mtimeMs && current.size === stats.size) {
+      return;
+    }
+    if (stats.size >= MAX_INDEXED_SIZE) {
+      this.removeFile(index, rel);
+      return;
+    }
+
+    let data: Buffer;
+    try {
+      data = await readFile(path);
+    } catch {
+      // Files that can't be read are searched, and fail, as usual
+      this.removeFile(index, rel);
+      return;
+    }
+
+    this.setFile(index, rel, {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      // Binary content is not indexed; such files are always searched
+      trigrams: data.includes(0) ? undefined : [...trigramsOf(data.toString('utf8'))],
+    });
+  }
+
+  private setFile(index: RootIndex, rel: string, file: IndexedFile): void {
+    this.removeFile(index, rel);
+    index.files.set(rel, file);
+    for (const gram of file.trigrams ?? []) {
+      let paths = index.postings.get(gram);
+      if (!paths) {
+        paths = new Set();
+        index.postings.set(gram, paths);
+      }
+      paths.add(rel);
+    }
+  }
+
+  private removeFile(index: RootIndex, rel: string): void {
+    const file = index.files.get(rel);
+    if (!file) {
+      return;
+    }
+
+    index.files.delete(rel);
+    for (const gram of file.trigrams ?? []) {
+      const paths = index.postings.get(gram);
+      paths?.delete(rel);
+      if (paths?.size === 0) {
+        index.postings.delete(gram);
+      }
+    }
+  }
+
+  /**
+   * Remove a path and, when it was a directory, everything beneath it
+   */
+  private removeTree(index: RootIndex, rel: string): void {
+    this.removeFile(index, rel);
+    for (const path of [...index.files.keys()]) {
+      if (path.startsWith(`${rel}/`)) {
+        this.removeFile(index, path);
+      }
+    }
+  }
+
+  /**
+   * Walk as search_files does, except that symlinks are not followed: the
+   * watcher cannot see changes behind them, so their files are always searched
+   */
+  private walkOptions(root: string): WalkOptions {
+    return {
+      maxDepth: Infinity,
+      includeHidden: true,
+      includeIgnored: false,
+      exclude: this.workspace.getExcludes(),
+      reserved: [TRASH_DIRECTORY],
+      root,
+      canFollow: async () => false,
+    };
+  }
+
+  private fileFor(root: string): string {
+    return join(this.config.directory, `${createHash('sha256').update(root).digest('hex').slice(0, 32)}.json`);
+  }
+
+  /**
+   * Run index updates of a root one at a time
+   */
+  private exclusive(index: RootIndex, work: () => Promise<void>): Promise<void> {
+    const result = index.queue.then(work);
+    index.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Three-character sequences of a text, leaving out those that span lines.
+ * Letters are folded to upper case, as case-insensitive regular expressions
+ * compare them; lower case would tell final and medial sigma apart.
+ */
+function trigramsOf(text: string): Set<string> {
+  const folded = text.toUpperCase();
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= folded.length; i++) {
+    const gram = folded.slice(i, i + 3);
+    if (!gram.includes('\n')) {
+      grams.add(gram);
+    }
+  }
+  return grams;
+}
+
+/**
+ * Path below `root` with `/` separators, or undefined when it is not below it
+ */
+function toRelative(root: string, path: string): string | undefined {
+  const rel = relative(root, path);
+  if (rel === '' || rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    return undefined;
+  }
+  return rel.split(sep).join('/');
+}
+
+interface IndexedFile {
+  readonly mtimeMs: number;
+  readonly size: number;
+  /** Undefined for files that are not indexed, such as binary ones */
+  readonly trigrams: readonly string[] | undefined;
+}
+
+interface RootIndex {
+  readonly root: string;
+  /** Indexed files by path relative to the root */
+  readonly files: Map<string, IndexedFile>;
+  /** Relative paths of the files containing each trigram */
+  readonly postings: Map<string, Set<string>>;
+  /** Relative paths reported by the watcher and not yet re-indexed */
+  readonly pending: Set<string>;
+  /** Whether the root has been walked since the server started */
+  ready: boolean;
+  closed: boolean;
+  queue: Promise<void>;
+  watcher?: FSWatcher;
+  refreshTimer?: NodeJS.Timeout;
+  saveTimer?: NodeJS.Timeout;
+}
+
+interface SavedIndex {
+  version: number;
+  root: string;
+  files: Record<string, { mtimeMs: number; size: number; trigrams: string | null }>;
+}
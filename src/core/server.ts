@@ -19,6 +19,9 @@ import rateLimit from 'express-rate-limit';
 import {
   JsonRpcRequest,
   JsonRpcResponse,
+  JsonRpcMessage,
+  JsonRpcReply,
+  JsonRpcNotification,
   JsonRpcErrorCode,
   McpErrorCode,
   ServerInfo,
@@ -26,6 +29,7 @@ import {
   ServerConfig,
   SecurityContext,
   RequestMetrics,
+  NotificationSender,
   Logger,
 } from '@/types/mcp';
 
@@ -35,12 +39,25 @@ import { MetricsService } from '@/services/metrics.service';
 import { CacheService } from '@/services/cache.service';
 import { SecurityService } from '@/services/security.service';
 import { PluginManager } from '@/services/plugin-manager.service';
-import { ToolRegistry } from '@/core/tool-registry';
-import { ResourceRegistry } from '@/core/resource-registry';
+import { ToolRegistry, ToolArgumentError, UnknownToolError, ToolPermissionError } from '@/core/tool-registry';
+import { ResourceRegistry, ResourceNotFoundError, InvalidCursorError } from '@/core/resource-registry';
+import { PromptRegistry, PromptNotFoundError, PromptArgumentError } from '@/core/prompt-registry';
+import {
+  ClientSessionRegistry,
+  UnsupportedProtocolVersionError,
+  InitializeError,
+} from '@/core/client-session-registry';
+import { SubscriptionLimitError } from '@/core/resource-watcher';
+import { WorkspaceSandbox, WorkspaceAccessError } from '@/core/workspace-sandbox';
+import { BackupStore } from '@/core/backup-store';
+import { SearchIndex } from '@/core/search-index';
+import { createProgressReporter } from '@/core/progress-reporter';
 import { RequestValidator } from '@/middleware/request-validator';
 import { ErrorHandler } from '@/middleware/error-handler';
 import { RequestLogger } from '@/middleware/request-logger';
 import { SecurityMiddleware } from '@/middleware/security.middleware';
+import { StdioTransport, StdioTransportOptions } from '@/transports/stdio.transport';
+import { StreamableHttpTransport, HttpMessageContext } from '@/transports/streamable-http.transport';
 
 export class MCPEnterpriseServer extends EventEmitter {
   private readonly container: Container;
@@ -52,11 +69,19 @@ export class MCPEnterpriseServer extends EventEmitter {
   private readonly security: SecurityService;
   private readonly pluginManager: PluginManager;
   private readonly toolRegistry: ToolRegistry;
+  private readonly searchIndex: SearchIndex;
   private readonly resourceRegistry: ResourceRegistry;
+  private readonly promptRegistry: PromptRegistry;
+  private readonly clientSessions: ClientSessionRegistry;
+  private readonly httpTransport: StreamableHttpTransport;
   
-  private server?: import('http').Server;
+  private server: import('http').Server | undefined;
+  private stdioTransport: StdioTransport | undefined;
+  private stdioSessionId: string | undefined;
   private isInitialized = false;
   private readonly startTime = Date.now();
+  // Running tools/call requests by session and JSON-RPC id, for notifications/cancelled
+  private readonly inflightToolCalls = new Map<string, AbortController>();
 
   constructor(config?: Partial<ServerConfig>) {
     super();
@@ -75,8 +100,52 @@ export class MCPEnterpriseServer extends EventEmitter {
     this.pluginManager = this.container.get<PluginManager>('PluginManager');
     
     // Initialize registries
-    this.toolRegistry = new ToolRegistry(this.logger, this.metrics);
-    this.resourceRegistry = new ResourceRegistry(this.logger, this.metrics);
+    const workspace = new WorkspaceSandbox(this.config.workspace);
+    this.searchIndex = new SearchIndex(this.logger, this.config.searchIndex, workspace);
+    this.toolRegistry = new ToolRegistry(
+      this.logger,
+      this.metrics,
+      workspace,
+      new BackupStore(this.logger, this.config.backups),
+      this.searchIndex,
+      (securityContext, path) => this.security.canAccessPath(securityContext, path)
+    );
+    this.resourceRegistry = new ResourceRegistry(this.logger, this.config.resources);
+    this.clientSessions = new ClientSessionRegistry(this.logger);
+    this.promptRegistry = new PromptRegistry(
+      this.logger,
+      this.config.prompts,
+      new WorkspaceSandbox(this.config.workspace)
+    );
+    this.toolRegistry.on('listChanged', () => void this.handleToolListChanged());
+    this.resourceRegistry.on('listChanged', () => this.broadcastNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/list_changed',
+    }));
+    this.promptRegistry.on('listChanged', () => this.broadcastNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/prompts/list_changed',
+    }));
+    this.resourceRegistry.on('updated', (uri: string, sessionIds: string[]) => {
+      for (const sessionId of sessionIds) {
+        this.sendToSession(sessionId, {
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri },
+        });
+      }
+    });
+
+    // Streamable HTTP transport for the /mcp endpoint
+    this.httpTransport = new StreamableHttpTransport(
+      (request, context) => this.handleHttpMessage(request, context),
+      this.logger
+    );
+    this.httpTransport.on('sessionClosed', (sessionId: string) => {
+      this.resourceRegistry.unsubscribeSession(sessionId);
+      this.clientSessions.removeSession(sessionId);
+      this.cancelSessionToolCalls(sessionId);
+    });
     
     // Setup Express application
     this.app = express();
@@ -99,6 +168,7 @@ export class MCPEnterpriseServer extends EventEmitter {
     this.container.bind<MetricsService>('MetricsService').to(MetricsService).inSingletonScope();
     this.container.bind<CacheService>('CacheService').to(CacheService).inSingletonScope();
     this.container.bind<SecurityService>('SecurityService').to(SecurityService).inSingletonScope();
+    this.container.bind<SecurityMiddleware>('SecurityMiddleware').to(SecurityMiddleware).inSingletonScope();
     this.container.bind<PluginManager>('PluginManager').to(PluginManager).inSingletonScope();
   }
 
@@ -155,7 +225,6 @@ export class MCPEnterpriseServer extends EventEmitter {
 
     // Custom middleware
     this.app.use(RequestLogger.create(this.logger));
-    this.app.use(SecurityMiddleware.create(this.security));
     this.app.use(RequestValidator.create());
   }
 
@@ -171,11 +240,14 @@ export class MCPEnterpriseServer extends EventEmitter {
       this.app.get(this.config.monitoring.metrics.endpoint, this.handleMetrics.bind(this));
     }
 
+    // Health and metrics stay public; everything else requires a token when authentication is enabled
+    const authenticate = this.container.get<SecurityMiddleware>('SecurityMiddleware').authenticate();
+
     // Main MCP endpoint
-    this.app.post('/mcp', this.handleMcpRequest.bind(this));
+    this.app.use('/mcp', authenticate, this.httpTransport.router());
     
     // Plugin endpoints
-    this.app.use('/plugins', this.pluginManager.getRouter());
+    this.app.use('/plugins', authenticate, this.pluginManager.getRouter());
 
     // Catch-all for undefined routes
     this.app.all('*', (req: Request, res: Response) => {
@@ -191,7 +263,7 @@ export class MCPEnterpriseServer extends EventEmitter {
    * Setup error handling
    */
   private setupErrorHandling(): void {
-    this.app.use(ErrorHandler.create(this.logger, this.metrics));
+    this.app.use(ErrorHandler.create(this.logger));
   }
 
   /**
@@ -209,6 +281,7 @@ export class MCPEnterpriseServer extends EventEmitter {
           plugins: this.pluginManager.getHealthStatus(),
           tools: this.toolRegistry.getHealthStatus(),
           resources: this.resourceRegistry.getHealthStatus(),
+          prompts: this.promptRegistry.getHealthStatus(),
         },
         metrics: await this.metrics.getHealthMetrics(),
       };
@@ -241,57 +314,132 @@ export class MCPEnterpriseServer extends EventEmitter {
   }
 
   /**
-   * Handle MCP JSON-RPC requests
+   * Handle an MCP JSON-RPC message received over Streamable HTTP
+   */
+  private async handleHttpMessage(
+    message: JsonRpcMessage,
+    context: HttpMessageContext
+  ): Promise<JsonRpcReply | null> {
+    const requestId = context.req.headers['x-request-id'] as string || this.generateRequestId();
+    const securityContext = this.extractSecurityContext(context.req, context.sessionId);
+
+    if (Array.isArray(message)) {
+      return this.dispatchBatch(message, securityContext, requestId, context.sendNotification, context.signal);
+    }
+    return this.dispatchMessage(message as JsonRpcRequest, securityContext, requestId, context.sendNotification, context.signal);
+  }
+
+  /**
+   * Run the entries of a JSON-RPC batch concurrently, at most
+   * `server.batch.concurrency` at a time. Each entry is answered on its own,
+   * so one failing entry yields an error object without affecting the others.
+   * Resolves to null when the batch held only notifications.
+   */
+  private async dispatchBatch(
+    batch: readonly JsonRpcRequest[],
+    securityContext: SecurityContext,
+    requestId: string,
+    sendNotification: NotificationSender,
+    signal?: AbortSignal
+  ): Promise<JsonRpcReply | null> {
+    const { maxSize, concurrency } = this.config.server.batch;
+
+    // A batch that cannot be processed at all is answered with a single error, not an array
+    if (batch.length === 0) {
+      return this.createErrorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, 'Empty batch');
+    }
+    if (batch.length > maxSize) {
+      return this.createErrorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, `Batch exceeds ${maxSize} entries`);
+    }
+
+    const responses: Array<JsonRpcResponse | null> = new Array(batch.length).fill(null);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < batch.length) {
+        const index = next++;
+        const entry = batch[index]!;
+        const entryId = typeof entry === 'object' && entry !== null && 'id' in entry ? entry.id : null;
+
+        // initialize negotiates the session and cannot share a batch with other requests
+        if (entry?.method === 'initialize') {
+          responses[index] = this.createErrorResponse(
+            entryId,
+            JsonRpcErrorCode.INVALID_REQUEST,
+            'initialize must not be part of a batch'
+          );
+          continue;
+        }
+
+        try {
+          responses[index] = await this.dispatchMessage(entry, securityContext, `${requestId}-${index}`, sendNotification, signal);
+        } catch {
+          responses[index] = this.createErrorResponse(entryId, JsonRpcErrorCode.INTERNAL_ERROR, 'Request processing failed');
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, batch.length) }, () => worker()));
+
+    const replies = responses.filter((response): response is JsonRpcResponse => response !== null);
+    return replies.length > 0 ? replies : null;
+  }
+
+  /**
+   * Validate, process and record a single JSON-RPC message from any transport.
+   * Resolves to null for notifications, which never receive a response.
    */
-  private async handleMcpRequest(req: Request, res: Response): Promise<void> {
+  private async dispatchMessage(
+    request: JsonRpcRequest,
+    securityContext: SecurityContext,
+    requestId: string,
+    sendNotification: NotificationSender,
+    signal?: AbortSignal
+  ): Promise<JsonRpcResponse | null> {
     const startTime = Date.now();
-    const requestId = req.headers['x-request-id'] as string || this.generateRequestId();
-    
+    const isNotification = !!request && typeof request === 'object' && !('id' in request);
+
     try {
-      const request = req.body as JsonRpcRequest;
-      const securityContext = this.extractSecurityContext(req);
-      
       // Validate JSON-RPC format
       this.validateJsonRpcRequest(request);
-      
+    } catch (error) {
+      return this.createErrorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, (error as Error).message);
+    }
+
+    try {
       // Process request
-      const response = await this.processRequest(request, securityContext, requestId);
-      
+      const response = await this.processRequest(request, securityContext, requestId, sendNotification, signal);
+
       // Record metrics
-      const duration = Date.now() - startTime;
       this.recordRequestMetrics({
         requestId,
         timestamp: new Date(),
         method: request.method,
-        duration,
+        duration: Date.now() - startTime,
         success: !response.error,
-        errorCode: response.error?.code || undefined,
-        userId: securityContext.userId,
+        ...(response.error ? { errorCode: response.error.code } : {}),
+        ...(securityContext.userId ? { userId: securityContext.userId } : {}),
       });
 
-      res.json(response);
-      
+      // A cancelled request gets no response at all
+      if (isNotification || response.error?.code === McpErrorCode.REQUEST_CANCELLED) {
+        return null;
+      }
+      return response;
+
     } catch (error) {
       this.logger.error('MCP request processing failed', error as Error, { requestId });
-      
-      const errorResponse = this.createErrorResponse(
-        null,
-        JsonRpcErrorCode.INTERNAL_ERROR,
-        'Internal server error'
-      );
-      
-      const duration = Date.now() - startTime;
+
       this.recordRequestMetrics({
         requestId,
         timestamp: new Date(),
-        method: 'unknown',
-        duration,
+        method: request.method,
+        duration: Date.now() - startTime,
         success: false,
         errorCode: JsonRpcErrorCode.INTERNAL_ERROR,
-        userId: undefined,
       });
 
-      res.status(500).json(errorResponse);
+      throw error;
     }
   }
 
@@ -301,7 +449,9 @@ export class MCPEnterpriseServer extends EventEmitter {
   private async processRequest(
     request: JsonRpcRequest,
     securityContext: SecurityContext,
-    requestId: string
+    requestId: string,
+    sendNotification?: NotificationSender,
+    signal?: AbortSignal
   ): Promise<JsonRpcResponse> {
     const { method, params, id } = request;
     
@@ -313,12 +463,14 @@ export class MCPEnterpriseServer extends EventEmitter {
     });
 
     // Check cache first (for cacheable methods)
-    const cacheKey = this.generateCacheKey(method, params);
-    if (this.isCacheableMethod(method)) {
+    const cacheKey = this.isCacheableMethod(method)
+      ? this.generateCacheKey(method, params, securityContext)
+      : undefined;
+    if (cacheKey) {
       const cached = await this.cache.get(cacheKey);
       if (cached) {
         this.logger.debug('Returning cached response', { requestId, method });
-        return cached as JsonRpcResponse;
+        return { ...(cached as JsonRpcResponse), id };
       }
     }
 
@@ -327,7 +479,17 @@ export class MCPEnterpriseServer extends EventEmitter {
     try {
       switch (method) {
         case 'initialize':
-          response = await this.handleInitialize(params, id);
+          response = this.handleInitialize(params, id, securityContext);
+          break;
+        
+        case 'notifications/initialized':
+          this.clientSessions.markReady(securityContext.sessionId);
+          response = { jsonrpc: '2.0', id, result: {} };
+          break;
+        
+        case 'notifications/cancelled':
+          this.handleCancelled(params, securityContext);
+          response = { jsonrpc: '2.0', id, result: {} };
           break;
         
         case 'tools/list':
@@ -335,33 +497,50 @@ export class MCPEnterpriseServer extends EventEmitter {
           break;
         
         case 'tools/call':
-          response = await this.handleToolCall(params, id, securityContext, requestId);
+          response = await this.handleToolCall(params, id, securityContext, requestId, sendNotification, signal);
           break;
         
         case 'resources/list':
-          response = await this.handleResourcesList(id, securityContext);
+          response = await this.handleResourcesList(params, id, securityContext);
+          break;
+        
+        case 'resources/templates/list':
+          response = this.handleResourceTemplatesList(id);
+          break;
+        
+        case 'resources/subscribe':
+          response = await this.handleResourceSubscribe(params, id, securityContext);
+          break;
+        
+        case 'resources/unsubscribe':
+          response = this.handleResourceUnsubscribe(params, id, securityContext);
           break;
         
         case 'resources/read':
           response = await this.handleResourceRead(params, id, securityContext, requestId);
           break;
         
+        case 'prompts/list':
+          response = this.handlePromptsList(id);
+          break;
+        
+        case 'prompts/get':
+          response = await this.handlePromptGet(params, id, securityContext);
+          break;
+        
         case 'ping':
           response = this.handlePing(id);
           break;
         
         default:
           // Check if any plugins can handle this method
-          response = await this.pluginManager.handleMethod(method, params, id, securityContext);
-          if (!response) {
-            response = this.createErrorResponse(id, JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
-          }
+          response = await this.handlePluginMethod(method, params, id, securityContext);
           break;
       }
 
       // Cache successful responses
-      if (this.isCacheableMethod(method) && !response.error) {
-        await this.cache.set(cacheKey, response, { ttl: 300 }); // 5 minutes default TTL
+      if (cacheKey && !response.error) {
+        await this.cache.set(cacheKey, response, { ttl: 300, tags: [method] }); // 5 minutes default TTL
       }
 
       return response;
@@ -375,19 +554,36 @@ export class MCPEnterpriseServer extends EventEmitter {
   /**
    * Handle initialize request
    */
-  private async handleInitialize(_params: unknown, id: string | number | null): Promise<JsonRpcResponse> {
-    // TODO: Validate client capabilities and negotiate protocol version
-    
-    return {
-      jsonrpc: '2.0',
-      id,
-      result: {
-        protocolVersion: '2024-11-05',
-        capabilities: this.getServerCapabilities(),
-        serverInfo: this.getServerInfo(),
-        instructions: 'MCP FileBridge - Smart file and image bridge for LLMs. Use tools for accurate file reading and image analysis without hallucination.',
-      },
-    };
+  private handleInitialize(
+    params: unknown,
+    id: string | number | null,
+    securityContext: SecurityContext
+  ): JsonRpcResponse {
+    try {
+      const session = this.clientSessions.initialize(securityContext.sessionId, params);
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          protocolVersion: session.protocolVersion,
+          capabilities: this.getServerCapabilities(),
+          serverInfo: this.getServerInfo(),
+          instructions: 'MCP FileBridge - Smart file and image bridge for LLMs. Use tools for accurate file reading and image analysis without hallucination.',
+        },
+      };
+    } catch (error) {
+      if (error instanceof UnsupportedProtocolVersionError) {
+        return this.createErrorResponse(id, error.code, error.message, {
+          requested: error.requested,
+          supported: error.supported,
+        });
+      }
+      if (error instanceof InitializeError) {
+        return this.createErrorResponse(id, error.code, error.message);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -398,7 +594,11 @@ export class MCPEnterpriseServer extends EventEmitter {
     securityContext: SecurityContext
   ): Promise<JsonRpcResponse> {
     try {
-      const tools = await this.toolRegistry.getAvailableTools(securityContext);
+      const registered = await this.toolRegistry.getAvailableTools(securityContext);
+      const permitted = await Promise.all(
+        registered.map(tool => this.security.canExecuteTool(securityContext, tool.name))
+      );
+      const tools = registered.filter((_, index) => permitted[index]);
       
       return {
         jsonrpc: '2.0',
@@ -418,50 +618,174 @@ export class MCPEnterpriseServer extends EventEmitter {
     params: unknown,
     id: string | number | null,
     securityContext: SecurityContext,
-    requestId: string
+    requestId: string,
+    sendNotification?: NotificationSender,
+    signal?: AbortSignal
   ): Promise<JsonRpcResponse> {
     try {
-      const { name, arguments: args } = params as { name: string; arguments?: Record<string, unknown> };
+      const { name, arguments: args, _meta: meta } = (params ?? {}) as {
+        name?: unknown;
+        arguments?: Record<string, unknown>;
+        _meta?: { progressToken?: unknown };
+      };
+      if (typeof name !== 'string') {
+        return this.createErrorResponse(id, JsonRpcErrorCode.INVALID_PARAMS, 'tools/call requires params.name');
+      }
+
+      // Sessions must finish the initialize handshake; session-less HTTP requests stay stateless
+      if (this.isLiveSession(securityContext.sessionId) && !this.clientSessions.isReady(securityContext.sessionId)) {
+        return this.createErrorResponse(
+          id,
+          JsonRpcErrorCode.INVALID_REQUEST,
+          'Session is not initialized: send initialize and notifications/initialized first'
+        );
+      }
       
       // Security check
-      if (!this.security.canExecuteTool(securityContext, name)) {
+      if (!(await this.security.canExecuteTool(securityContext, name, args || {}))) {
         return this.createErrorResponse(id, McpErrorCode.PERMISSION_DENIED, `Access denied for tool: ${name}`);
       }
 
-      const result = await this.toolRegistry.executeTool(name, args || {}, securityContext, requestId);
+      // Progress is only reported to clients that asked for it with a token
+      const progressToken = meta?.progressToken;
+      const progress = sendNotification && (typeof progressToken === 'string' || typeof progressToken === 'number')
+        ? createProgressReporter(progressToken, sendNotification)
+        : undefined;
+
+      const controller = new AbortController();
+      const callKey = this.toolCallKey(securityContext.sessionId, id);
+      this.inflightToolCalls.set(callKey, controller);
+
+      // The transport aborts the request when its client goes away
+      const abortCall = () => controller.abort(typeof signal?.reason === 'string' ? signal.reason : undefined);
+      if (signal?.aborted) {
+        abortCall();
+      }
+      signal?.addEventListener('abort', abortCall, { once: true });
+
+      try {
+        const result = await this.toolRegistry.executeTool(
+          name,
+          args || {},
+          securityContext,
+          requestId,
+          {
+            ...(sendNotification ? { sendNotification } : {}),
+            ...(progress ? { progress } : {}),
+            signal: controller.signal,
+          }
+        );
+
+        if (controller.signal.aborted) {
+          return this.createErrorResponse(id, McpErrorCode.REQUEST_CANCELLED, `Tool call cancelled: ${name}`);
+        }
       
-      return {
-        jsonrpc: '2.0',
-        id,
-        result,
-      };
+        return {
+          jsonrpc: '2.0',
+          id,
+          result,
+        };
+      } finally {
+        signal?.removeEventListener('abort', abortCall);
+        if (this.inflightToolCalls.get(callKey) === controller) {
+          this.inflightToolCalls.delete(callKey);
+        }
+      }
     } catch (error) {
       this.logger.error('Tool execution failed', error as Error, { requestId });
+
+      if (error instanceof ToolArgumentError) {
+        return this.createErrorResponse(id, error.code, error.message, { violations: error.violations });
+      }
+
+      if (error instanceof UnknownToolError || error instanceof ToolPermissionError) {
+        return this.createErrorResponse(id, error.code, error.message);
+      }
+
       return this.createErrorResponse(id, McpErrorCode.PROCESSING_ERROR, 'Tool execution failed');
     }
   }
 
+  /**
+   * Handle a cancellation notification by aborting the matching running tool call
+   */
+  private handleCancelled(params: unknown, securityContext: SecurityContext): void {
+    const { requestId, reason } = (params || {}) as { requestId?: string | number; reason?: string };
+    if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+      return;
+    }
+
+    // Unknown or already finished requests are ignored, as the race is expected
+    const controller = this.inflightToolCalls.get(this.toolCallKey(securityContext.sessionId, requestId));
+    if (!controller) {
+      return;
+    }
+
+    this.logger.info('Cancelling tool call', { sessionId: securityContext.sessionId, requestId, reason });
+    controller.abort(typeof reason === 'string' ? reason : undefined);
+  }
+
+  /**
+   * Abort every running tool call of a closed session
+   */
+  private cancelSessionToolCalls(sessionId: string): void {
+    const prefix = `${sessionId}:`;
+    for (const [key, controller] of this.inflightToolCalls) {
+      if (key.startsWith(prefix)) {
+        controller.abort('Session closed');
+      }
+    }
+  }
+
+  /**
+   * Key of a running tool call; JSON-RPC ids are only unique within a session
+   */
+  private toolCallKey(sessionId: string, id: string | number | null): string {
+    return `${sessionId}:${JSON.stringify(id)}`;
+  }
+
   /**
    * Handle resources list request
    */
   private async handleResourcesList(
+    params: unknown,
     id: string | number | null,
     securityContext: SecurityContext
   ): Promise<JsonRpcResponse> {
     try {
-      const resources = await this.resourceRegistry.getAvailableResources(securityContext);
+      const { cursor } = (params || {}) as { cursor?: string };
+      const result = await this.resourceRegistry.listResources(
+        securityContext,
+        cursor,
+        resource => this.security.canAccessResource(securityContext, resource.uri)
+      );
       
       return {
         jsonrpc: '2.0',
         id,
-        result: { resources },
+        result,
       };
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return this.createErrorResponse(id, JsonRpcErrorCode.INVALID_PARAMS, error.message);
+      }
+
       this.logger.error('Resources list failed', error as Error);
       return this.createErrorResponse(id, McpErrorCode.PROCESSING_ERROR, 'Failed to list resources');
     }
   }
 
+  /**
+   * Handle resource templates list request
+   */
+  private handleResourceTemplatesList(id: string | number | null): JsonRpcResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: { resourceTemplates: this.resourceRegistry.listTemplates() },
+    };
+  }
+
   /**
    * Handle resource read request
    */
@@ -475,7 +799,7 @@ export class MCPEnterpriseServer extends EventEmitter {
       const { uri } = params as { uri: string };
       
       // Security check
-      if (!this.security.canAccessResource(securityContext, uri)) {
+      if (!(await this.security.canAccessResource(securityContext, uri))) {
         return this.createErrorResponse(id, McpErrorCode.PERMISSION_DENIED, `Access denied for resource: ${uri}`);
       }
 
@@ -487,11 +811,164 @@ export class MCPEnterpriseServer extends EventEmitter {
         result: { contents },
       };
     } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        return this.createErrorResponse(id, McpErrorCode.RESOURCE_NOT_FOUND, error.message, { uri: error.uri });
+      }
+
       this.logger.error('Resource read failed', error as Error, { requestId });
       return this.createErrorResponse(id, McpErrorCode.PROCESSING_ERROR, 'Resource read failed');
     }
   }
 
+  /**
+   * Handle resource subscribe request
+   */
+  private async handleResourceSubscribe(
+    params: unknown,
+    id: string | number | null,
+    securityContext: SecurityContext
+  ): Promise<JsonRpcResponse> {
+    try {
+      const { uri } = (params || {}) as { uri?: string };
+      if (typeof uri !== 'string') {
+        return this.createErrorResponse(id, JsonRpcErrorCode.INVALID_PARAMS, 'Missing resource uri');
+      }
+
+      // Notifications can only be delivered to sessions the transports know about
+      if (!this.isLiveSession(securityContext.sessionId)) {
+        return this.createErrorResponse(id, JsonRpcErrorCode.INVALID_REQUEST, 'Subscriptions require an MCP session');
+      }
+
+      if (!(await this.security.canAccessResource(securityContext, uri))) {
+        return this.createErrorResponse(id, McpErrorCode.PERMISSION_DENIED, `Access denied for resource: ${uri}`);
+      }
+
+      await this.resourceRegistry.subscribe(securityContext.sessionId, uri);
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {},
+      };
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        return this.createErrorResponse(id, McpErrorCode.RESOURCE_NOT_FOUND, error.message, { uri: error.uri });
+      }
+      if (error instanceof SubscriptionLimitError) {
+        return this.createErrorResponse(id, error.code, error.message);
+      }
+
+      this.logger.error('Resource subscribe failed', error as Error);
+      return this.createErrorResponse(id, McpErrorCode.PROCESSING_ERROR, 'Resource subscribe failed');
+    }
+  }
+
+  /**
+   * Handle resource unsubscribe request
+   */
+  private handleResourceUnsubscribe(
+    params: unknown,
+    id: string | number | null,
+    securityContext: SecurityContext
+  ): JsonRpcResponse {
+    const { uri } = (params || {}) as { uri?: string };
+    if (typeof uri !== 'string') {
+      return this.createErrorResponse(id, JsonRpcErrorCode.INVALID_PARAMS, 'Missing resource uri');
+    }
+
+    this.resourceRegistry.unsubscribe(securityContext.sessionId, uri);
+
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {},
+    };
+  }
+
+  /**
+   * Handle prompts list request
+   */
+  private handlePromptsList(id: string | number | null): JsonRpcResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: { prompts: this.promptRegistry.listPrompts() },
+    };
+  }
+
+  /**
+   * Handle prompt get request
+   */
+  private async handlePromptGet(
+    params: unknown,
+    id: string | number | null,
+    securityContext: SecurityContext
+  ): Promise<JsonRpcResponse> {
+    try {
+      const { name, arguments: args } = (params || {}) as { name?: string; arguments?: Record<string, unknown> };
+      if (typeof name !== 'string') {
+        return this.createErrorResponse(id, JsonRpcErrorCode.INVALID_PARAMS, 'Missing prompt name');
+      }
+
+      const result = await this.promptRegistry.getPrompt(
+        name,
+        args || {},
+        securityContext,
+        async (uri, filePath) => (await this.security.canAccessResource(securityContext, uri))
+          && this.security.canAccessPath(securityContext, filePath)
+      );
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result,
+      };
+    } catch (error) {
+      if (error instanceof PromptNotFoundError) {
+        return this.createErrorResponse(id, error.code, error.message);
+      }
+      if (error instanceof PromptArgumentError) {
+        return this.createErrorResponse(id, error.code, error.message, { problems: error.problems });
+      }
+      if (error instanceof WorkspaceAccessError) {
+        return this.createErrorResponse(id, McpErrorCode.WORKSPACE_VIOLATION, error.message, {
+          path: error.requestedPath,
+        });
+      }
+
+      this.logger.error('Prompt get failed', error as Error);
+      return this.createErrorResponse(id, McpErrorCode.PROCESSING_ERROR, 'Failed to get prompt');
+    }
+  }
+
+  /**
+   * Handle a JSON-RPC method provided by a plugin
+   */
+  private async handlePluginMethod(
+    method: string,
+    params: unknown,
+    id: string | number | null,
+    securityContext: SecurityContext
+  ): Promise<JsonRpcResponse> {
+    if (!this.pluginManager.hasMethod(method)) {
+      return this.createErrorResponse(id, JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+
+    try {
+      const result = await this.pluginManager.handleMethod(method, params, securityContext);
+      return { jsonrpc: '2.0', id, result: result ?? {} };
+    } catch (error) {
+      this.logger.error('Plugin method failed', error as Error, { method });
+
+      // Plugins report protocol errors by throwing errors that carry a numeric code
+      const { code } = error as { code?: unknown };
+      if (typeof code === 'number') {
+        return this.createErrorResponse(id, code, (error as Error).message);
+      }
+      return this.createErrorResponse(id, JsonRpcErrorCode.INTERNAL_ERROR, 'Plugin method failed');
+    }
+  }
+
   /**
    * Handle ping request
    */
@@ -508,6 +985,17 @@ export class MCPEnterpriseServer extends EventEmitter {
     };
   }
 
+  /**
+   * Drop cached tool listings and tell clients to refetch them
+   */
+  private async handleToolListChanged(): Promise<void> {
+    await this.cache.invalidateByTags(['tools/list']);
+    this.broadcastNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/tools/list_changed',
+    });
+  }
+
   /**
    * Get server information
    */
@@ -531,7 +1019,10 @@ export class MCPEnterpriseServer extends EventEmitter {
         listChanged: true,
       },
       resources: {
-        subscribe: false,
+        subscribe: true,
+        listChanged: true,
+      },
+      prompts: {
         listChanged: true,
       },
       logging: {
@@ -555,20 +1046,29 @@ export class MCPEnterpriseServer extends EventEmitter {
     if (!request.method || typeof request.method !== 'string') {
       throw new Error('Invalid or missing method');
     }
+
+    if ('id' in request && request.id !== null && typeof request.id !== 'string' && typeof request.id !== 'number') {
+      throw new Error('Invalid request id');
+    }
   }
 
   /**
    * Extract security context from request
    */
-  private extractSecurityContext(req: Request): SecurityContext {
-    // TODO: Implement proper authentication and authorization
+  private extractSecurityContext(req: Request, mcpSessionId?: string): SecurityContext {
+    // Set by the authentication middleware when the request carried a valid token
+    if (req.securityContext) {
+      return mcpSessionId ? { ...req.securityContext, sessionId: mcpSessionId } : req.securityContext;
+    }
+
+    // Without a verified token the caller is anonymous; a client-supplied user id
+    // would let it pick another user's workspace roots
     return {
-      userId: req.headers['x-user-id'] as string,
       roles: ['user'], // Default role
       permissions: ['read', 'write'], // Default permissions
-      sessionId: req.headers['x-session-id'] as string || this.generateSessionId(),
+      sessionId: mcpSessionId || req.headers['x-session-id'] as string || this.generateSessionId(),
       ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
-      userAgent: req.headers['user-agent'] || undefined,
+      ...(req.headers['user-agent'] ? { userAgent: req.headers['user-agent'] } : {}),
     };
   }
 
@@ -605,18 +1105,24 @@ export class MCPEnterpriseServer extends EventEmitter {
   }
 
   /**
-   * Generate cache key for request
+   * Generate cache key for request. Listings depend on the caller's roles and
+   * workspace roots, so the key is scoped to the user and role set.
    */
-  private generateCacheKey(method: string, params: unknown): string {
+  private generateCacheKey(method: string, params: unknown, securityContext: SecurityContext): string {
     const paramsHash = this.hashObject(params);
-    return `mcp:${method}:${paramsHash}`;
+    const callerHash = this.hashObject({
+      userId: securityContext.userId || null,
+      roles: [...securityContext.roles].sort(),
+    });
+    return `mcp:${method}:${callerHash}:${paramsHash}`;
   }
 
   /**
    * Check if method is cacheable
    */
   private isCacheableMethod(method: string): boolean {
-    const cacheableMethods = ['tools/list', 'resources/list'];
+    // Resource listings follow the filesystem, so only tool listings are cached
+    const cacheableMethods = ['tools/list'];
     return cacheableMethods.includes(method);
   }
 
@@ -638,7 +1144,8 @@ export class MCPEnterpriseServer extends EventEmitter {
    * Hash object for cache key generation
    */
   private hashObject(obj: unknown): string {
-    const str = JSON.stringify(obj, Object.keys(obj || {}).sort());
+    // Absent params stringify to undefined, so they hash like null
+    const str = JSON.stringify(obj ?? null, Object.keys(obj || {}).sort());
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
       const char = str.charCodeAt(i);
@@ -667,11 +1174,7 @@ export class MCPEnterpriseServer extends EventEmitter {
    */
   public async start(): Promise<void> {
     try {
-      // Initialize services
-      await this.cache.initialize();
-      await this.pluginManager.initialize();
-      await this.toolRegistry.initialize();
-      await this.resourceRegistry.initialize();
+      await this.initializeServices();
       
       // Start HTTP server
       this.server = this.app.listen(this.config.server.port, this.config.server.host, () => {
@@ -696,40 +1199,186 @@ export class MCPEnterpriseServer extends EventEmitter {
     }
   }
 
+  /**
+   * Start the server on stdin/stdout for clients that launch it as a subprocess.
+   * Serves the same tool and resource registries as the HTTP endpoint; other
+   * streams can be given to embed the server.
+   */
+  public async startStdio(options: StdioTransportOptions = {}): Promise<void> {
+    try {
+      await this.initializeServices();
+
+      const securityContext = await this.createStdioSecurityContext();
+      this.stdioSessionId = securityContext.sessionId;
+      this.stdioTransport = new StdioTransport(
+        request => this.handleStdioMessage(request, securityContext),
+        this.logger,
+        options
+      );
+
+      // The client closing stdin ends the session
+      this.stdioTransport.on('close', () => {
+        this.stop().catch(error => this.logger.error('Error stopping stdio session', error as Error));
+      });
+
+      await this.stdioTransport.start();
+      this.isInitialized = true;
+
+      this.logger.info('MCP Enterprise Server started', {
+        transport: 'stdio',
+        version: this.getServerInfo().version,
+        uptime: Date.now() - this.startTime,
+      });
+
+      this.emit('started');
+      this.setupGracefulShutdown();
+
+    } catch (error) {
+      this.logger.error('Failed to start server', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Initialize services shared by every transport
+   */
+  private async initializeServices(): Promise<void> {
+    await this.cache.initialize();
+    await this.toolRegistry.initialize();
+    await this.resourceRegistry.initialize();
+    await this.promptRegistry.initialize();
+    await this.searchIndex.start();
+
+    // Plugins extend the registries, so they start once the built-ins are in place
+    await this.pluginManager.initialize({
+      tools: this.toolRegistry,
+      resources: this.resourceRegistry,
+      prompts: this.promptRegistry,
+    });
+  }
+
+  /**
+   * Build the security context of the stdio session. The client has no headers
+   * to send, so a token may be passed in MCP_AUTH_TOKEN instead.
+   */
+  private async createStdioSecurityContext(): Promise<SecurityContext> {
+    const sessionId = this.generateSessionId();
+    const token = process.env['MCP_AUTH_TOKEN'];
+
+    if (!token) {
+      if (this.security.isAuthenticationRequired()) {
+        throw new Error('Authentication is enabled: set MCP_AUTH_TOKEN to a valid token for stdio sessions');
+      }
+      return {
+        roles: ['user'],
+        permissions: ['read', 'write'],
+        sessionId,
+        ipAddress: 'stdio',
+      };
+    }
+
+    const user = await this.security.authenticate(token);
+    if (!user) {
+      throw new Error('MCP_AUTH_TOKEN was rejected');
+    }
+
+    return {
+      userId: user.id,
+      roles: user.roles,
+      permissions: user.permissions,
+      sessionId,
+      ipAddress: 'stdio',
+    };
+  }
+
+  /**
+   * Handle a JSON-RPC message or batch received over stdio
+   */
+  private async handleStdioMessage(
+    message: JsonRpcMessage,
+    securityContext: SecurityContext
+  ): Promise<JsonRpcReply | null> {
+    const sendNotification: NotificationSender = notification => this.stdioTransport?.send(notification);
+
+    if (Array.isArray(message)) {
+      return this.dispatchBatch(message, securityContext, this.generateRequestId(), sendNotification);
+    }
+    return this.dispatchMessage(message as JsonRpcRequest, securityContext, this.generateRequestId(), sendNotification);
+  }
+
+  /**
+   * Check whether a session id belongs to an open HTTP session or the stdio session
+   */
+  private isLiveSession(sessionId: string): boolean {
+    return this.httpTransport.hasSession(sessionId) || (!!this.stdioTransport && this.stdioSessionId === sessionId);
+  }
+
+  /**
+   * Send a notification to a single session
+   */
+  private sendToSession(sessionId: string, notification: JsonRpcNotification): void {
+    if (this.stdioTransport && this.stdioSessionId === sessionId) {
+      this.stdioTransport.send(notification);
+      return;
+    }
+    this.httpTransport.notify(sessionId, notification);
+  }
+
+  /**
+   * Send a notification to every connected client
+   */
+  public broadcastNotification(notification: JsonRpcNotification): void {
+    this.httpTransport.broadcast(notification);
+    this.stdioTransport?.send(notification);
+  }
+
   /**
    * Stop the server gracefully
    */
   public async stop(): Promise<void> {
-    if (!this.server) {
+    if (!this.server && !this.stdioTransport) {
       return;
     }
 
     this.logger.info('Stopping MCP Enterprise Server...');
 
-    return new Promise((resolve, reject) => {
-      this.server!.close(async (error) => {
-        if (error) {
-          this.logger.error('Error stopping server', error);
-          reject(error);
-          return;
-        }
+    const stdioTransport = this.stdioTransport;
+    this.stdioTransport = undefined;
+    stdioTransport?.close();
+    this.httpTransport.close();
+    this.resourceRegistry.close();
+    this.promptRegistry.close();
+    await this.searchIndex.close();
 
-        try {
-          // Cleanup services
-          await this.pluginManager.shutdown();
-          await this.cache.shutdown();
-          await this.metrics.shutdown();
-          
-          this.isInitialized = false;
-          this.logger.info('MCP Enterprise Server stopped gracefully');
-          this.emit('stopped');
+    const server = this.server;
+    this.server = undefined;
+
+    if (server) {
+      await new Promise<void>((resolve, reject) => {
+        server.close(error => {
+          if (error) {
+            this.logger.error('Error stopping server', error);
+            reject(error);
+            return;
+          }
           resolve();
-        } catch (cleanupError) {
-          this.logger.error('Error during cleanup', cleanupError as Error);
-          reject(cleanupError);
-        }
+        });
       });
-    });
+    }
+
+    try {
+      // Cleanup services
+      await this.pluginManager.shutdown();
+      await this.cache.shutdown();
+      await this.metrics.shutdown();
+      
+      this.isInitialized = false;
+      this.logger.info('MCP Enterprise Server stopped gracefully');
+      this.emit('stopped');
+    } catch (cleanupError) {
+      this.logger.error('Error during cleanup', cleanupError as Error);
+      throw cleanupError;
+    }
   }
 
   /**
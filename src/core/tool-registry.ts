@@ -8,24 +8,88 @@
  * @version 1.0.0
  */
 
-import { Tool, SecurityContext, Logger, Content } from '@/types/mcp';
+import { EventEmitter } from 'events';
+import {
+  Tool,
+  SecurityContext,
+  Logger,
+  Content,
+  ContentType,
+  NotificationSender,
+  ProgressReporter,
+  JsonRpcErrorCode,
+  McpErrorCode,
+  PathAuthorizer,
+} from '@/types/mcp';
 import { MetricsService } from '@/services/metrics.service';
 import { FileOperationTools } from '@/tools/file-tools';
 import { ImageAnalysisTools } from '@/tools/image-tools';
+import { WorkspaceSandbox } from '@/core/workspace-sandbox';
+import { BackupStore } from '@/core/backup-store';
+import { SearchIndex } from '@/core/search-index';
+import { jsonSchemaToJoi, validateWithSchema, SchemaViolation } from '@/core/json-schema';
+import { ToolError, ToolTimeoutError, ToolCancelledError } from '@/tools/tool-errors';
 import Joi from 'joi';
 
-export class ToolRegistry {
+/**
+ * Raised when tools/call names a tool that is not registered
+ */
+export class UnknownToolError extends Error {
+  public readonly code = McpErrorCode.TOOL_NOT_FOUND;
+
+  constructor(name: string) {
+    super(`Tool not found: ${name}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+/**
+ * Raised when the caller lacks a permission the tool was registered with
+ */
+export class ToolPermissionError extends Error {
+  public readonly code = McpErrorCode.PERMISSION_DENIED;
+
+  constructor(name: string) {
+    super(`Access denied for tool: ${name}`);
+    this.name = 'ToolPermissionError';
+  }
+}
+
+/**
+ * Raised when tool arguments do not satisfy the tool's input schema
+ */
+export class ToolArgumentError extends Error {
+  public readonly code = JsonRpcErrorCode.INVALID_PARAMS;
+  public readonly violations: readonly SchemaViolation[];
+
+  constructor(toolName: string, violations: readonly SchemaViolation[]) {
+    super(`Invalid arguments for tool ${toolName}: ${violations.map(violation => violation.message).join('; ')}`);
+    this.name = 'ToolArgumentError';
+    this.violations = violations;
+  }
+}
+
+export class ToolRegistry extends EventEmitter {
   private readonly tools = new Map<string, RegisteredTool>();
   private readonly logger: Logger;
   private readonly metrics: MetricsService;
   private readonly fileTools: FileOperationTools;
   private readonly imageTools: ImageAnalysisTools;
-
-  constructor(logger: Logger, metrics: MetricsService) {
+  private isInitialized = false;
+
+  constructor(
+    logger: Logger,
+    metrics: MetricsService,
+    workspace: WorkspaceSandbox,
+    backups?: BackupStore,
+    searchIndex?: SearchIndex,
+    authorizePath?: PathAuthorizer
+  ) {
+    super();
     this.logger = logger;
     this.metrics = metrics;
-    this.fileTools = new FileOperationTools(logger);
-    this.imageTools = new ImageAnalysisTools(logger);
+    this.fileTools = new FileOperationTools(logger, workspace, backups, searchIndex, authorizePath);
+    this.imageTools = new ImageAnalysisTools(logger, workspace);
   }
 
   /**
@@ -38,17 +102,22 @@ export class ToolRegistry {
       // Register built-in file tools
       const fileTools = this.fileTools.getTools();
       for (const tool of fileTools) {
-        this.registerTool(tool, this.createFileToolHandler(tool.name));
+        this.registerTool(tool, this.createFileToolHandler(tool.name), {
+          requiredPermissions: [this.getRequiredPermission(tool.name)],
+        });
       }
 
       // Register built-in image tools
       const imageTools = this.imageTools.getTools();
       for (const tool of imageTools) {
-        this.registerTool(tool, this.createImageToolHandler(tool.name));
+        this.registerTool(tool, this.createImageToolHandler(tool.name), {
+          requiredPermissions: [this.getRequiredPermission(tool.name)],
+        });
       }
 
       // Register system tools
       this.registerSystemTools();
+      this.isInitialized = true;
 
       this.logger.info('Tool registry initialized', { 
         totalTools: this.tools.size,
@@ -79,6 +148,7 @@ export class ToolRegistry {
 
     const registeredTool: RegisteredTool = {
       tool,
+      argumentSchema: jsonSchemaToJoi(tool.inputSchema),
       handler,
       options: {
         requiresAuth: options.requiresAuth || false,
@@ -95,6 +165,7 @@ export class ToolRegistry {
 
     this.tools.set(tool.name, registeredTool);
     this.logger.debug('Tool registered', { name: tool.name });
+    this.emitListChanged();
   }
 
   /**
@@ -104,10 +175,20 @@ export class ToolRegistry {
     const removed = this.tools.delete(name);
     if (removed) {
       this.logger.debug('Tool unregistered', { name });
+      this.emitListChanged();
     }
     return removed;
   }
 
+  /**
+   * Announce changes to the tool list once the built-in tools are in place
+   */
+  private emitListChanged(): void {
+    if (this.isInitialized) {
+      this.emit('listChanged');
+    }
+  }
+
   /**
    * Get available tools for a security context
    */
@@ -124,29 +205,32 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute a tool
+   * Execute a tool. Failures of the tool itself come back as a result with
+   * `isError: true`; unknown tools, missing permissions and invalid arguments
+   * are thrown as protocol errors.
    */
   public async executeTool(
     name: string,
     args: Record<string, unknown>,
     securityContext: SecurityContext,
-    requestId: string
-  ): Promise<{ content: Content[] }> {
+    requestId: string,
+    context: ToolExecutionContext = {}
+  ): Promise<ToolResult> {
     const startTime = Date.now();
     
     try {
       const registeredTool = this.tools.get(name);
       if (!registeredTool) {
-        throw new Error(`Tool not found: ${name}`);
+        throw new UnknownToolError(name);
       }
 
       // Security checks
       if (!this.canExecuteTool(securityContext, registeredTool)) {
-        throw new Error(`Access denied for tool: ${name}`);
+        throw new ToolPermissionError(name);
       }
 
-      // Validate arguments
-      this.validateToolArguments(registeredTool.tool, args);
+      // Validate arguments and fill in schema defaults
+      const validatedArgs = this.validateToolArguments(registeredTool, args);
 
       // Update execution stats
       registeredTool.executionCount++;
@@ -156,15 +240,16 @@ export class ToolRegistry {
         name, 
         requestId,
         userId: securityContext.userId,
-        args: this.sanitizeArgs(args)
+        args: this.sanitizeArgs(validatedArgs)
       });
 
       // Execute with timeout and retries
       const result = await this.executeWithTimeout(
         registeredTool,
-        args,
+        validatedArgs,
         securityContext,
-        requestId
+        requestId,
+        context
       );
 
       const duration = Date.now() - startTime;
@@ -198,6 +283,21 @@ export class ToolRegistry {
         -1
       );
 
+      if (error instanceof ToolError) {
+        this.logger.warn('Tool reported an error', {
+          name,
+          requestId,
+          kind: error.kind,
+          error: error.message,
+          duration: `${duration}ms`,
+        });
+
+        return {
+          content: [{ type: ContentType.TEXT, text: error.message }],
+          isError: true,
+        };
+      }
+
       this.logger.error('Tool execution failed', error as Error, { 
         name, 
         requestId,
@@ -358,18 +458,37 @@ export class ToolRegistry {
    * Create file tool handler
    */
   private createFileToolHandler(toolName: string): ToolHandler {
-    return async (args: Record<string, unknown>) => {
+    return async (
+      args: Record<string, unknown>,
+      securityContext?: SecurityContext,
+      _requestId?: string,
+      context?: ToolExecutionContext
+    ) => {
       switch (toolName) {
         case 'read_file':
-          return this.fileTools.executeReadFile(args as any);
+          return this.fileTools.executeReadFile(args as any, securityContext, context?.signal);
         case 'write_file':
-          return this.fileTools.executeWriteFile(args as any);
+          return this.fileTools.executeWriteFile(args as any, securityContext);
+        case 'edit_file':
+          return this.fileTools.executeEditFile(args as any, securityContext);
+        case 'list_file_versions':
+          return this.fileTools.executeListFileVersions(args as any, securityContext);
+        case 'restore_file_version':
+          return this.fileTools.executeRestoreFileVersion(args as any, securityContext);
+        case 'move_file':
+          return this.fileTools.executeMoveFile(args as any, securityContext);
+        case 'copy_file':
+          return this.fileTools.executeCopyFile(args as any, securityContext);
+        case 'delete_file':
+          return this.fileTools.executeDeleteFile(args as any, securityContext);
+        case 'create_directory':
+          return this.fileTools.executeCreateDirectory(args as any, securityContext);
         case 'list_directory':
-          return this.fileTools.executeListDirectory(args as any);
+          return this.fileTools.executeListDirectory(args as any, securityContext, context?.signal, context?.progress);
         case 'get_file_info':
-          return this.fileTools.executeGetFileInfo(args as any);
+          return this.fileTools.executeGetFileInfo(args as any, securityContext);
         case 'search_files':
-          return this.fileTools.executeSearchFiles(args as any);
+          return this.fileTools.executeSearchFiles(args as any, securityContext, context?.signal, context?.progress);
         default:
           throw new Error(`Unknown file tool: ${toolName}`);
       }
@@ -380,14 +499,19 @@ export class ToolRegistry {
    * Create image tool handler
    */
   private createImageToolHandler(toolName: string): ToolHandler {
-    return async (args: Record<string, unknown>) => {
+    return async (
+      args: Record<string, unknown>,
+      securityContext?: SecurityContext,
+      _requestId?: string,
+      context?: ToolExecutionContext
+    ) => {
       switch (toolName) {
         case 'analyze_image':
-          return this.imageTools.executeAnalyzeImage(args as any);
+          return this.imageTools.executeAnalyzeImage(args as any, securityContext, context?.signal);
         case 'download_image':
-          return this.imageTools.executeDownloadImage(args as any);
+          return this.imageTools.executeDownloadImage(args as any, securityContext, context?.signal, context?.progress);
         case 'extract_image_text':
-          return this.imageTools.executeExtractImageText(args as any);
+          return this.imageTools.executeExtractImageText(args as any, securityContext, context?.signal, context?.progress);
         default:
           throw new Error(`Unknown image tool: ${toolName}`);
       }
@@ -428,30 +552,62 @@ export class ToolRegistry {
     registeredTool: RegisteredTool,
     args: Record<string, unknown>,
     securityContext: SecurityContext,
-    requestId: string
-  ): Promise<{ content: Content[] }> {
+    requestId: string,
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
     const { handler, options } = registeredTool;
+    const toolName = registeredTool.tool.name;
     const timeout = options.timeout || 30000;
     const retries = options.retries || 0;
 
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
+      let timer: NodeJS.Timeout | undefined;
+      // Aborted on timeout or client cancellation so the handler stops its I/O
+      const controller = new AbortController();
+      const cancel = () => controller.abort(
+        new ToolCancelledError(`Tool ${toolName}`, cancellationReason(context.signal))
+      );
+
       try {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('Tool execution timeout')), timeout);
+        if (context.signal?.aborted) {
+          cancel();
+        } else {
+          context.signal?.addEventListener('abort', cancel, { once: true });
+        }
+
+        timer = setTimeout(() => controller.abort(new ToolTimeoutError(`Tool ${toolName}`, timeout)), timeout);
+
+        const abortPromise = new Promise<never>((_, reject) => {
+          const rejectWithReason = () => reject(controller.signal.reason);
+          if (controller.signal.aborted) {
+            rejectWithReason();
+          } else {
+            controller.signal.addEventListener('abort', rejectWithReason, { once: true });
+          }
         });
 
-        const executionPromise = handler(args, securityContext, requestId);
+        const executionPromise = handler(args, securityContext, requestId, {
+          ...context,
+          signal: controller.signal,
+        });
         
-        return await Promise.race([executionPromise, timeoutPromise]);
+        return await Promise.race([executionPromise, abortPromise]);
         
       } catch (error) {
-        lastError = error as Error;
+        // A handler stopped by the signal fails with its own abort error; report why it was stopped
+        const failure = controller.signal.aborted ? controller.signal.reason : error;
+
+        // Failures such as a missing file or a cancelled call will not go away by retrying
+        if (failure instanceof ToolError && !(failure instanceof ToolTimeoutError)) {
+          throw failure;
+        }
+        lastError = failure as Error;
         
         if (attempt < retries) {
           this.logger.warn('Tool execution failed, retrying', {
-            tool: registeredTool.tool.name,
+            tool: toolName,
             attempt: attempt + 1,
             error: lastError.message
           });
@@ -459,6 +615,9 @@ export class ToolRegistry {
           // Wait before retry (exponential backoff)
           await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
         }
+      } finally {
+        clearTimeout(timer);
+        context.signal?.removeEventListener('abort', cancel);
       }
     }
 
@@ -482,33 +641,24 @@ export class ToolRegistry {
   }
 
   /**
-   * Validate tool arguments against schema
+   * Validate tool arguments against the tool's input schema, reporting every
+   * failing field, and return them with schema defaults applied
    */
-  private validateToolArguments(tool: Tool, args: Record<string, unknown>): void {
-    try {
-      // Convert JSON Schema to Joi schema (simplified)
-      const joiSchema = this.jsonSchemaToJoi(tool.inputSchema);
-      const { error } = joiSchema.validate(args);
-      
-      if (error) {
-        throw new Error(`Invalid arguments for tool ${tool.name}: ${error.message}`);
-      }
-    } catch (error) {
-      this.logger.warn('Argument validation failed', { 
-        tool: tool.name, 
-        error: (error as Error).message 
+  private validateToolArguments(
+    registeredTool: RegisteredTool,
+    args: Record<string, unknown>
+  ): Record<string, unknown> {
+    const { value, violations } = validateWithSchema(registeredTool.argumentSchema, args);
+
+    if (violations.length > 0) {
+      this.logger.warn('Argument validation failed', {
+        tool: registeredTool.tool.name,
+        violations,
       });
-      // Don't throw - allow execution with warning
+      throw new ToolArgumentError(registeredTool.tool.name, violations);
     }
-  }
 
-  /**
-   * Convert JSON Schema to Joi schema (simplified implementation)
-   */
-  private jsonSchemaToJoi(schema: any): Joi.ObjectSchema {
-    // This is a simplified implementation
-    // In production, you might want to use a proper JSON Schema to Joi converter
-    return Joi.object().unknown(true);
+    return value;
   }
 
   /**
@@ -527,6 +677,23 @@ export class ToolRegistry {
     return 'other';
   }
 
+  /**
+   * Get the permission a built-in tool requires: 'write' for tools that modify the workspace
+   */
+  private getRequiredPermission(toolName: string): string {
+    const writeTools = [
+      'write_file',
+      'edit_file',
+      'restore_file_version',
+      'move_file',
+      'copy_file',
+      'delete_file',
+      'create_directory',
+      'download_image'
+    ];
+    return writeTools.includes(toolName) ? 'write' : 'read';
+  }
+
   /**
    * Sanitize arguments for logging (remove sensitive data)
    */
@@ -557,6 +724,7 @@ export class ToolRegistry {
 // Types for tool registration
 interface RegisteredTool {
   tool: Tool;
+  argumentSchema: Joi.Schema;
   handler: ToolHandler;
   options: ToolRegistrationOptions;
   registeredAt: Date;
@@ -575,8 +743,35 @@ interface ToolRegistrationOptions {
   retries?: number;
 }
 
+/**
+ * Per-call facilities handed to tool handlers by the transport that carried the request
+ */
+interface ToolExecutionContext {
+  sendNotification?: NotificationSender;
+  /** Aborted when the call is cancelled or times out */
+  signal?: AbortSignal;
+  /** Present when the client asked for progress with `_meta.progressToken` */
+  progress?: ProgressReporter;
+}
+
 type ToolHandler = (
   args: Record<string, unknown>,
   securityContext?: SecurityContext,
-  requestId?: string
-) => Promise<{ content: Content[] }>;
+  requestId?: string,
+  context?: ToolExecutionContext
+) => Promise<ToolResult>;
+
+/**
+ * Result of a tools/call; `isError` marks a failure reported by the tool itself
+ */
+interface ToolResult {
+  content: Content[];
+  isError?: boolean;
+}
+
+/**
+ * The reason a client gave when cancelling, if the signal was aborted with one
+ */
+function cancellationReason(signal: AbortSignal | undefined): string | undefined {
+  return typeof signal?.reason === 'string' ? signal.reason : undefined;
+}
@@ -0,0 +1,207 @@
+/**
+ * Workspace Sandbox
+ *
+ * Confines file and image tools to the configured workspace roots.
+ * Every path is checked against its real location on disk, so neither
+ * `..` segments nor symlinks can be used to reach outside an allowed root.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { realpath, lstat, readlink } from 'fs/promises';
+import { resolve, relative, isAbsolute, dirname, basename, join, sep } from 'path';
+import { WorkspaceConfig, SecurityContext, McpErrorCode, TrashConfig } from '@/types/mcp';
+import { ToolError } from '@/tools/tool-errors';
+
+/** Symlinks followed before a path is treated as a loop, matching Linux's limit */
+const MAX_SYMLINK_HOPS = 40;
+
+/** Directory in each root that delete_file moves entries to; walks never enter it */
+export const TRASH_DIRECTORY = '.trash';
+
+const DEFAULT_TRASH: TrashConfig = { maxAgeDays: 30, maxTotalSizeMb: 512 };
+
+/**
+ * Raised when a tool is asked to touch a path outside the caller's workspace.
+ * Tools report it to the client as an `isError` result like other tool errors.
+ */
+export class WorkspaceAccessError extends ToolError {
+  public readonly requestedPath: string;
+
+  constructor(requestedPath: string, reason: string) {
+    super(
+      `Access outside workspace denied: ${requestedPath} (${reason})`,
+      'permission_denied',
+      McpErrorCode.WORKSPACE_VIOLATION
+    );
+    this.name = 'WorkspaceAccessError';
+    this.requestedPath = requestedPath;
+  }
+}
+
+export class WorkspaceSandbox {
+  private readonly config: WorkspaceConfig;
+
+  constructor(config: WorkspaceConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get the workspace roots that apply to a security context.
+   * Per-user roots replace the server roots when configured for that user.
+   */
+  public getRoots(securityContext?: SecurityContext): string[] {
+    const userId = securityContext?.userId;
+    const userRoots = userId ? this.config.userRoots[userId] : undefined;
+    const roots = userRoots && userRoots.length > 0 ? userRoots : this.config.roots;
+
+    return roots.map(root => resolve(root));
+  }
+
+  /**
+   * Get the ignore-file style patterns that directory walks skip
+   */
+  public getExcludes(): readonly string[] {
+    return this.config.exclude ?? [];
+  }
+
+  /**
+   * Get how long and how much the trash of each root keeps
+   */
+  public getTrashConfig(): TrashConfig {
+    return this.config.trash ?? DEFAULT_TRASH;
+  }
+
+  /**
+   * Resolve a tool-supplied path and ensure it stays inside the workspace.
+   * Relative paths are resolved against the first workspace root. Returns the
+   * real path so callers operate on exactly what was checked.
+   */
+  public async resolvePath(path: string, securityContext?: SecurityContext): Promise<string> {
+    const roots = this.getRoots(securityContext);
+    const primaryRoot = roots[0];
+
+    if (!primaryRoot) {
+      throw new WorkspaceAccessError(path, 'no workspace roots configured');
+    }
+
+    if (path.includes('\0')) {
+      throw new WorkspaceAccessError(path, 'path contains a null byte');
+    }
+
+    const candidate = isAbsolute(path) ? resolve(path) : resolve(primaryRoot, path);
+    const realCandidate = await this.realpathOfExistingPrefix(candidate);
+
+    if (!(await this.isInsideRoots(realCandidate, roots))) {
+      throw new WorkspaceAccessError(path, 'path resolves outside the allowed roots');
+    }
+
+    return realCandidate;
+  }
+
+  /**
+   * Check whether an already-resolved path (e.g. a directory entry found while
+   * walking) still points inside the workspace once symlinks are followed.
+   */
+  public async contains(path: string, securityContext?: SecurityContext): Promise<boolean> {
+    try {
+      const realPath = await this.realpathOfExistingPrefix(resolve(path));
+      return await this.isInsideRoots(realPath, this.getRoots(securityContext));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get a resolved path relative to the workspace root that contains it,
+   * using forward slashes, or null when no root contains it
+   */
+  public async relativeToRoot(resolvedPath: string, securityContext?: SecurityContext): Promise<string | null> {
+    const root = await this.rootOf(resolvedPath, securityContext);
+    return root === null ? null : relative(root, resolvedPath).split(sep).join('/');
+  }
+
+  /**
+   * Get the real path of the workspace root that contains a resolved path,
+   * or null when no root contains it
+   */
+  public async rootOf(resolvedPath: string, securityContext?: SecurityContext): Promise<string | null> {
+    for (const root of this.getRoots(securityContext)) {
+      const realRoot = await this.realpathOfExistingPrefix(root);
+      if (this.isWithin(realRoot, resolvedPath)) {
+        return realRoot;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check a real path against the real location of every root
+   */
+  private async isInsideRoots(realPath: string, roots: string[]): Promise<boolean> {
+    for (const root of roots) {
+      const realRoot = await this.realpathOfExistingPrefix(root);
+      if (this.isWithin(realRoot, realPath)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Resolve symlinks for the longest existing prefix of a path and re-append
+   * the missing segments, so paths that are about to be created can be checked.
+   * A dangling symlink is followed to its target, since writing through it
+   * would create the target.
+   */
+  private async realpathOfExistingPrefix(path: string): Promise<string> {
+    const missing: string[] = [];
+    let current = path;
+    let linksFollowed = 0;
+
+    for (;;) {
+      try {
+        const real = await realpath(current);
+        return missing.length > 0 ? join(real, ...missing.reverse()) : real;
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        const parent = dirname(current);
+        if ((code !== 'ENOENT' && code !== 'ENOTDIR') || parent === current) {
+          throw error;
+        }
+
+        const target = await this.readDanglingLink(current);
+        if (target !== null) {
+          if (++linksFollowed > MAX_SYMLINK_HOPS) {
+            throw Object.assign(new Error(`Too many symbolic links: ${path}`), { code: 'ELOOP' });
+          }
+          current = resolve(parent, target);
+          continue;
+        }
+
+        missing.push(basename(current));
+        current = parent;
+      }
+    }
+  }
+
+  /**
+   * Read the target of a path if it is a symlink, or null when it is not
+   */
+  private async readDanglingLink(path: string): Promise<string | null> {
+    try {
+      return (await lstat(path)).isSymbolicLink() ? await readlink(path) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check whether target is the root itself or lies beneath it
+   */
+  private isWithin(root: string, target: string): boolean {
+    const rel = relative(root, target);
+    return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+  }
+}
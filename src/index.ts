@@ -12,12 +12,20 @@
 
 import 'reflect-metadata';
 import { MCPEnterpriseServer } from '@/core/server';
+import { StdioTransport } from '@/transports/stdio.transport';
 import { ServerConfig } from '@/types/mcp';
 
 /**
  * Main application entry point
  */
 async function main(): Promise<void> {
+  // Select transport: `--stdio` flag or MCP_TRANSPORT=stdio, HTTP otherwise
+  const useStdio = process.argv.includes('--stdio') || process.env['MCP_TRANSPORT'] === 'stdio';
+  if (useStdio) {
+    process.env['MCP_TRANSPORT'] = 'stdio';
+    StdioTransport.redirectConsoleToStderr();
+  }
+
   console.log('🌉 Starting MCP FileBridge...\n');
 
   try {
@@ -41,6 +49,10 @@ async function main(): Promise<void> {
           maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
           message: 'Too many requests from this IP, please try again later.',
         },
+        batch: {
+          maxSize: parseInt(process.env['BATCH_MAX_SIZE'] || '50', 10),
+          concurrency: parseInt(process.env['BATCH_CONCURRENCY'] || '4', 10),
+        },
         security: {
           helmet: process.env.HELMET_ENABLED !== 'false',
           authentication: {
@@ -87,7 +99,11 @@ async function main(): Promise<void> {
 
     // Create and start server
     const server = new MCPEnterpriseServer(config);
-    await server.start();
+    if (useStdio) {
+      await server.startStdio();
+    } else {
+      await server.start();
+    }
 
     // Handle graceful shutdown
     const shutdown = async (signal: string) => {
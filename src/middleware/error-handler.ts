@@ -2,6 +2,7 @@ import { injectable, inject } from 'inversify';
 import { Request, Response, NextFunction } from 'express';
 import { ConfigService } from '../services/config.service';
 import { LoggerService } from '../services/logger.service';
+import type { Logger } from '../types/mcp';
 
 @injectable()
 export class ErrorHandler {
@@ -10,6 +11,27 @@ export class ErrorHandler {
     @inject('LoggerService') private logger: LoggerService
   ) {}
 
+  /**
+   * Build the error handling middleware around a module logger
+   */
+  static create(logger: Logger) {
+    return (error: Error, req: Request, res: Response, _next: NextFunction) => {
+      logger.error('Unhandled error', error, { path: req.path, method: req.method });
+
+      const environment = process.env['NODE_ENV'];
+      const statusCode = (error as { statusCode?: number }).statusCode || 500;
+      res.status(statusCode).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32603,
+          message: environment === 'production' ? 'Internal server error' : error.message,
+          data: environment === 'development' ? error.stack : undefined
+        },
+        id: null
+      });
+    };
+  }
+
   handle() {
     return (error: Error, req: Request, res: Response, next: NextFunction) => {
       this.logger.error('Unhandled error', {
@@ -2,6 +2,7 @@ import { injectable, inject } from 'inversify';
 import { Request, Response, NextFunction } from 'express';
 import { ConfigService } from '../services/config.service';
 import { LoggerService } from '../services/logger.service';
+import type { Logger } from '../types/mcp';
 
 @injectable()
 export class RequestLogger {
@@ -11,12 +12,19 @@ export class RequestLogger {
   ) {}
 
   log() {
+    return RequestLogger.create(this.logger.getLogger('RequestLogger'));
+  }
+
+  /**
+   * Build the request logging middleware around a module logger
+   */
+  static create(logger: Logger) {
     return (req: Request, res: Response, next: NextFunction) => {
       const start = Date.now();
 
       res.on('finish', () => {
         const duration = Date.now() - start;
-        this.logger.info('Request completed', {
+        logger.info('Request completed', {
           method: req.method,
           path: req.path,
           status: res.statusCode,
@@ -11,6 +11,23 @@ export class RequestValidator {
     @inject('LoggerService') private logger: LoggerService
   ) {}
 
+  /**
+   * Build the middleware that rejects JSON bodies that cannot be JSON-RPC messages
+   */
+  static create() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (req.is('application/json') && (req.body === null || typeof req.body !== 'object')) {
+        res.status(400).json({
+          jsonrpc: '2.0',
+          error: { code: -32600, message: 'Invalid Request: expected a JSON-RPC message or batch' },
+          id: null
+        });
+        return;
+      }
+      next();
+    };
+  }
+
   validateRequest(schema: Joi.ObjectSchema) {
     return (req: Request, res: Response, next: NextFunction) => {
       const { error } = schema.validate(req.body);
@@ -1,9 +1,8 @@
 import { injectable, inject } from 'inversify';
 import { Request, Response, NextFunction } from 'express';
-import { ConfigService } from '../services/config.service';
 import { LoggerService } from '../services/logger.service';
 import { SecurityService } from '../services/security.service';
-import { SecurityContext } from '../types/mcp';
+import { SecurityContext, Logger, McpErrorCode } from '../types/mcp';
 
 declare global {
   namespace Express {
@@ -15,11 +14,14 @@ declare global {
 
 @injectable()
 export class SecurityMiddleware {
+  private readonly logger: Logger;
+
   constructor(
-    @inject('ConfigService') private config: ConfigService,
-    @inject('LoggerService') private logger: LoggerService,
+    @inject('LoggerService') loggerService: LoggerService,
     @inject('SecurityService') private securityService: SecurityService
-  ) {}
+  ) {
+    this.logger = loggerService.getLogger('SecurityMiddleware');
+  }
 
   authenticate() {
     return async (req: Request, res: Response, next: NextFunction) => {
@@ -27,30 +29,26 @@ export class SecurityMiddleware {
         const authHeader = req.headers.authorization;
 
         if (!authHeader) {
-          // Allow anonymous access for now
+          if (this.securityService.isAuthenticationRequired()) {
+            return this.rejectUnauthenticated(res, 'Authentication required');
+          }
           return next();
         }
 
-        if (!this.securityService.validateToken(authHeader)) {
-          return res.status(401).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32001,
-              message: 'Invalid authentication token'
-            },
-            id: null
-          });
+        const token = this.securityService.extractBearerToken(authHeader);
+        if (!token) {
+          return this.rejectUnauthenticated(res, 'Invalid authentication token');
         }
 
-        // Mock user authentication
-        const user = await this.securityService.authenticate(authHeader);
-        if (user) {
-          req.securityContext = this.securityService.createSecurityContext(user, req);
+        const user = await this.securityService.authenticate(token);
+        if (!user) {
+          return this.rejectUnauthenticated(res, 'Invalid authentication token');
         }
 
+        req.securityContext = this.securityService.createSecurityContext(user, req);
         next();
       } catch (error) {
-        this.logger.error('Authentication error', { error });
+        this.logger.error('Authentication error', error as Error);
         res.status(500).json({
           jsonrpc: '2.0',
           error: {
@@ -66,12 +64,17 @@ export class SecurityMiddleware {
   authorize(requiredPermissions: string[]) {
     return async (req: Request, res: Response, next: NextFunction) => {
       if (!req.securityContext) {
-        // Allow anonymous access for now
+        // Anonymous requests only get this far when authentication is disabled
         return next();
       }
 
       const authorized = await this.securityService.authorize(
-        { id: req.securityContext.userId, username: '', roles: req.securityContext.roles, permissions: req.securityContext.permissions },
+        {
+          id: req.securityContext.userId || '',
+          username: '',
+          roles: [...req.securityContext.roles],
+          permissions: [...req.securityContext.permissions]
+        },
         requiredPermissions
       );
 
@@ -79,7 +82,7 @@ export class SecurityMiddleware {
         return res.status(403).json({
           jsonrpc: '2.0',
           error: {
-            code: -32003,
+            code: McpErrorCode.PERMISSION_DENIED,
             message: 'Insufficient permissions'
           },
           id: null
@@ -89,4 +92,16 @@ export class SecurityMiddleware {
       next();
     };
   }
+
+  private rejectUnauthenticated(res: Response, message: string): void {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({
+      jsonrpc: '2.0',
+      error: {
+        code: McpErrorCode.UNAUTHENTICATED,
+        message
+      },
+      id: null
+    });
+  }
 }
@@ -11,8 +11,9 @@
 import { injectable } from 'inversify';
 import { readFileSync, existsSync, watchFile } from 'fs';
 import { join } from 'path';
+import { homedir } from 'os';
 import Joi from 'joi';
-import { ServerConfig, LogLevel } from '@/types/mcp';
+import { ServerConfig, LogLevel, JwtAlgorithm } from '@/types/mcp';
 
 @injectable()
 export class ConfigService {
@@ -121,6 +122,10 @@ export class ConfigService {
           maxRequests: 100,
           message: 'Too many requests from this IP',
         },
+        batch: {
+          maxSize: 50,
+          concurrency: 4,
+        },
         security: {
           helmet: true,
           authentication: {
@@ -159,6 +164,15 @@ export class ConfigService {
         enabled: true,
         directory: './plugins',
         autoload: true,
+        isolation: {
+          mode: 'none',
+          memoryLimitMb: 256,
+          callTimeoutMs: 30000,
+          cancelGraceMs: 5000,
+          maxRestarts: 5,
+          restartDelayMs: 1000,
+          maxRestartDelayMs: 60000,
+        },
         plugins: {},
       },
       monitoring: {
@@ -176,47 +190,118 @@ export class ConfigService {
           serviceName: 'mcp-enterprise-server',
         },
       },
+      workspace: {
+        roots: [process.cwd()],
+        userRoots: {},
+        exclude: ['.git', 'node_modules'],
+        trash: {
+          maxAgeDays: 30,
+          maxTotalSizeMb: 512,
+        },
+      },
+      resources: {
+        directories: [],
+        pageSize: 100,
+        maxReadSize: 10 * 1024 * 1024, // 10MB
+        maxSubscriptionsPerSession: 100,
+        watchDebounceMs: 200,
+      },
+      prompts: {
+        directory: './prompts',
+        maxEmbedSize: 1024 * 1024, // 1MB
+      },
+      backups: {
+        directory: join(homedir(), '.mcp-filebridge', 'backups'),
+        maxVersionsPerFile: 20,
+        maxAgeDays: 30,
+        maxTotalSizeMb: 512,
+      },
+      searchIndex: {
+        enabled: false,
+        directory: join(homedir(), '.mcp-filebridge', 'index'),
+        debounceMs: 500,
+      },
     };
   }
 
   /**
    * Get configuration from environment variables
    */
-  private getEnvironmentConfig(): Partial<ServerConfig> {
+  private getEnvironmentConfig(): ConfigOverrides {
     const env = process.env;
     
     return {
       server: {
-        host: env.HOST || undefined,
-        port: env.PORT ? parseInt(env.PORT, 10) : undefined,
+        ...(env['HOST'] ? { host: env['HOST'] } : {}),
+        ...(env['PORT'] ? { port: parseInt(env['PORT'], 10) } : {}),
         security: {
           authentication: {
+            ...(env['AUTH_ENABLED'] ? { enabled: env['AUTH_ENABLED'] === 'true' } : {}),
             jwt: {
-              secret: env.JWT_SECRET || undefined,
-              expiresIn: env.JWT_EXPIRES_IN || undefined,
+              ...(env['JWT_SECRET'] ? { secret: env['JWT_SECRET'] } : {}),
+              ...(env['JWT_EXPIRES_IN'] ? { expiresIn: env['JWT_EXPIRES_IN'] } : {}),
+              ...(env['JWT_ALGORITHMS'] ? {
+                algorithms: env['JWT_ALGORITHMS'].split(',').map(algorithm => algorithm.trim()) as JwtAlgorithm[],
+              } : {}),
+              ...(env['JWT_PUBLIC_KEY_FILE'] ? { publicKeyFile: env['JWT_PUBLIC_KEY_FILE'] } : {}),
+              ...(env['JWT_JWKS_FILE'] ? { jwksFile: env['JWT_JWKS_FILE'] } : {}),
+              ...(env['JWT_ISSUER'] ? { issuer: env['JWT_ISSUER'] } : {}),
+              ...(env['JWT_AUDIENCE'] ? { audience: env['JWT_AUDIENCE'] } : {}),
             },
           },
+          authorization: {
+            ...(env['AUTHZ_ENABLED'] ? { enabled: env['AUTHZ_ENABLED'] === 'true' } : {}),
+            ...(env['AUTHZ_POLICY_FILE'] ? { policyFile: env['AUTHZ_POLICY_FILE'] } : {}),
+          },
         },
       },
       logging: {
-        level: env.LOG_LEVEL as LogLevel || undefined,
+        ...(env['LOG_LEVEL'] ? { level: env['LOG_LEVEL'] as LogLevel } : {}),
       },
       cache: {
-        enabled: env.CACHE_ENABLED ? env.CACHE_ENABLED === 'true' : undefined,
-        type: env.CACHE_TYPE as 'memory' | 'redis' || undefined,
-        ttl: env.CACHE_TTL ? parseInt(env.CACHE_TTL, 10) : undefined,
-        redis: env.REDIS_HOST ? {
-          host: env.REDIS_HOST,
-          port: env.REDIS_PORT ? parseInt(env.REDIS_PORT, 10) : 6379,
-          password: env.REDIS_PASSWORD || undefined,
-          db: env.REDIS_DB ? parseInt(env.REDIS_DB, 10) : 0,
-        } : undefined,
+        ...(env['CACHE_ENABLED'] ? { enabled: env['CACHE_ENABLED'] === 'true' } : {}),
+        ...(env['CACHE_TYPE'] ? { type: env['CACHE_TYPE'] as 'memory' | 'redis' } : {}),
+        ...(env['CACHE_TTL'] ? { ttl: parseInt(env['CACHE_TTL'], 10) } : {}),
+        ...(env['REDIS_HOST'] ? {
+          redis: {
+            host: env['REDIS_HOST'],
+            port: env['REDIS_PORT'] ? parseInt(env['REDIS_PORT'], 10) : 6379,
+            ...(env['REDIS_PASSWORD'] ? { password: env['REDIS_PASSWORD'] } : {}),
+            db: env['REDIS_DB'] ? parseInt(env['REDIS_DB'], 10) : 0,
+          },
+        } : {}),
       },
-      database: env.DATABASE_URL ? {
-        type: env.DATABASE_TYPE as 'mongodb' | 'postgresql' | 'mysql' || 'mongodb',
-        url: env.DATABASE_URL,
-        options: {},
-      } : undefined,
+      ...(env['DATABASE_URL'] ? {
+        database: {
+          type: env['DATABASE_TYPE'] as 'mongodb' | 'postgresql' | 'mysql' || 'mongodb',
+          url: env['DATABASE_URL'],
+          options: {},
+        },
+      } : {}),
+      ...(env['WORKSPACE_ROOTS'] || env['WORKSPACE_EXCLUDE'] ? {
+        workspace: {
+          ...(env['WORKSPACE_ROOTS'] ? {
+            roots: env['WORKSPACE_ROOTS'].split(',').map(root => root.trim()).filter(Boolean),
+            userRoots: {},
+          } : {}),
+          ...(env['WORKSPACE_EXCLUDE'] ? {
+            exclude: env['WORKSPACE_EXCLUDE'].split(',').map(pattern => pattern.trim()).filter(Boolean),
+          } : {}),
+        },
+      } : {}),
+      ...(env['PROMPTS_DIR'] ? { prompts: { directory: env['PROMPTS_DIR'] } } : {}),
+      ...(env['BACKUP_DIR'] ? { backups: { directory: env['BACKUP_DIR'] } } : {}),
+      ...(env['SEARCH_INDEX_ENABLED'] || env['SEARCH_INDEX_DIR'] ? {
+        searchIndex: {
+          ...(env['SEARCH_INDEX_ENABLED'] ? { enabled: env['SEARCH_INDEX_ENABLED'] === 'true' } : {}),
+          ...(env['SEARCH_INDEX_DIR'] ? { directory: env['SEARCH_INDEX_DIR'] } : {}),
+        },
+      } : {}),
+      ...(env['RESOURCE_DIRECTORIES'] ? {
+        resources: {
+          directories: env['RESOURCE_DIRECTORIES'].split(',').map(path => path.trim()).filter(Boolean).map(path => ({ path })),
+        },
+      } : {}),
     };
   }
 
@@ -254,6 +339,10 @@ export class ConfigService {
           maxRequests: Joi.number().positive().required(),
           message: Joi.string().required(),
         }).required(),
+        batch: Joi.object({
+          maxSize: Joi.number().integer().min(1).required(),
+          concurrency: Joi.number().integer().min(1).required(),
+        }).required(),
         security: Joi.object({
           helmet: Joi.boolean().required(),
           authentication: Joi.object({
@@ -261,11 +350,20 @@ export class ConfigService {
             jwt: Joi.object({
               secret: Joi.string().min(32).required(),
               expiresIn: Joi.string().required(),
+              algorithms: Joi.array().items(Joi.string().valid('HS256', 'RS256')).min(1).optional(),
+              publicKeyFile: Joi.string().optional(),
+              jwksFile: Joi.string().optional(),
+              issuer: Joi.string().optional(),
+              audience: Joi.string().optional(),
+              clockToleranceSec: Joi.number().min(0).optional(),
+              rolesClaim: Joi.string().optional(),
+              permissionsClaim: Joi.string().optional(),
             }).required(),
           }).required(),
           authorization: Joi.object({
             enabled: Joi.boolean().required(),
             roles: Joi.array().items(Joi.string()).required(),
+            policyFile: Joi.string().optional(),
           }).required(),
         }).required(),
       }).required(),
@@ -300,11 +398,21 @@ export class ConfigService {
         enabled: Joi.boolean().required(),
         directory: Joi.string().required(),
         autoload: Joi.boolean().required(),
+        isolation: Joi.object({
+          mode: Joi.string().valid('none', 'worker', 'process').required(),
+          memoryLimitMb: Joi.number().integer().min(16).required(),
+          callTimeoutMs: Joi.number().integer().min(100).required(),
+          cancelGraceMs: Joi.number().integer().min(0).required(),
+          maxRestarts: Joi.number().integer().min(0).required(),
+          restartDelayMs: Joi.number().integer().min(0).required(),
+          maxRestartDelayMs: Joi.number().integer().min(0).required(),
+        }).required(),
         plugins: Joi.object().pattern(
           Joi.string(),
           Joi.object({
             enabled: Joi.boolean().required(),
             config: Joi.object().required(),
+            isolation: Joi.string().valid('none', 'worker', 'process').optional(),
           })
         ).required(),
       }).required(),
@@ -323,14 +431,55 @@ export class ConfigService {
           serviceName: Joi.string().required(),
         }).required(),
       }).required(),
+      workspace: Joi.object({
+        roots: Joi.array().items(Joi.string()).min(1).required(),
+        userRoots: Joi.object().pattern(
+          Joi.string(),
+          Joi.array().items(Joi.string()).min(1)
+        ).required(),
+        exclude: Joi.array().items(Joi.string()).optional(),
+        trash: Joi.object({
+          maxAgeDays: Joi.number().min(0).required(),
+          maxTotalSizeMb: Joi.number().positive().required(),
+        }).optional(),
+      }).required(),
+      resources: Joi.object({
+        directories: Joi.array().items(
+          Joi.object({
+            path: Joi.string().required(),
+            name: Joi.string().optional(),
+            description: Joi.string().optional(),
+            recursive: Joi.boolean().optional(),
+          })
+        ).required(),
+        pageSize: Joi.number().integer().min(1).max(1000).required(),
+        maxReadSize: Joi.number().positive().required(),
+        maxSubscriptionsPerSession: Joi.number().integer().min(1).required(),
+        watchDebounceMs: Joi.number().min(0).required(),
+      }).required(),
+      prompts: Joi.object({
+        directory: Joi.string().required(),
+        maxEmbedSize: Joi.number().positive().required(),
+      }).required(),
+      backups: Joi.object({
+        directory: Joi.string().required(),
+        maxVersionsPerFile: Joi.number().integer().min(1).required(),
+        maxAgeDays: Joi.number().min(0).required(),
+        maxTotalSizeMb: Joi.number().positive().required(),
+      }).required(),
+      searchIndex: Joi.object({
+        enabled: Joi.boolean().required(),
+        directory: Joi.string().required(),
+        debounceMs: Joi.number().min(0).required(),
+      }).required(),
     });
   }
 
   /**
    * Merge multiple configuration objects
    */
-  private mergeConfig(...configs: Array<Partial<ServerConfig>>): ServerConfig {
-    return configs.reduce((merged, config) => {
+  private mergeConfig(...configs: ConfigOverrides[]): ServerConfig {
+    return configs.reduce<ServerConfig>((merged, config) => {
       return this.deepMerge(merged, config);
     }, {} as ServerConfig);
   }
@@ -387,3 +536,16 @@ export class ConfigService {
     }
   }
 }
+
+/**
+ * Configuration in which any setting, at any depth, may be left out
+ */
+type ConfigOverrides = {
+  readonly [K in keyof ServerConfig]?: DeepPartial<ServerConfig[K]>;
+};
+
+type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { readonly [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
@@ -0,0 +1,480 @@
+/**
+ * Isolated Plugin
+ *
+ * Runs a plugin in a worker thread or child process and stands in for it in
+ * the server. Registrations the plugin makes, services included, are turned
+ * into proxies that forward calls over the plugin bridge, and the plugin's
+ * calls into server services are answered over it. Calls are bounded by a
+ * timeout, the runner by a heap limit. A call that times out or is aborted
+ * fails at once and is cancelled in the runner; a runner that exits, runs out
+ * of memory or does not finish a cancelled call within a grace period is
+ * terminated and reported with a `crash` event.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { EventEmitter, once } from 'events';
+import { fork } from 'child_process';
+import { Worker } from 'worker_threads';
+import { dirname, extname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { ToolCancelledError, ToolError, ToolErrorKind, ToolTimeoutError } from '../tools/tool-errors';
+import {
+  PLUGIN_RUNNER_FLAG,
+  HostMessage,
+  RunnerMessage,
+  SerializedError,
+  invokeService,
+  serializeError,
+} from './plugin-bridge';
+import type {
+  Logger,
+  McpErrorCode,
+  Plugin,
+  PluginContext,
+  PluginIsolationMode,
+  PluginManifest,
+  ProgressReporter,
+} from '../types/mcp';
+
+/**
+ * Connection to a running plugin runner
+ */
+export interface PluginChannel {
+  /** Send a message; onError hears of failures found after send has returned */
+  send(message: HostMessage, onError?: (error: Error) => void): void;
+  onMessage(listener: (message: RunnerMessage) => void): void;
+  /** Listen for the runner ending or the channel to it failing */
+  onExit(listener: (error: Error) => void): void;
+  terminate(): Promise<void>;
+}
+
+export type PluginChannelFactory = (mode: Exclude<PluginIsolationMode, 'none'>, memoryLimitMb: number) => PluginChannel;
+
+export interface IsolatedPluginOptions {
+  readonly mode: Exclude<PluginIsolationMode, 'none'>;
+  readonly memoryLimitMb: number;
+  readonly callTimeoutMs: number;
+  readonly cancelGraceMs: number;
+}
+
+export class IsolatedPlugin extends EventEmitter implements Plugin {
+  private readonly pending = new Map<number, PendingCall>();
+  private readonly cancelled = new Map<number, NodeJS.Timeout>();
+  private channel: PluginChannel | undefined;
+  private context: PluginContext | undefined;
+  private registrationError: Error | undefined;
+  private nextId = 1;
+  private running = false;
+  private stopped = false;
+
+  constructor(
+    private readonly manifest: PluginManifest,
+    private readonly entry: string,
+    private readonly options: IsolatedPluginOptions,
+    private readonly logger: Logger,
+    private readonly createChannel: PluginChannelFactory = spawnPluginChannel
+  ) {
+    super();
+  }
+
+  /**
+   * Start the runner and wait until the plugin has initialized
+   */
+  async initialize(context: PluginContext): Promise<void> {
+    this.context = context;
+    this.channel = this.createChannel(this.options.mode, this.options.memoryLimitMb);
+    this.channel.onMessage(message => this.handleMessage(message));
+    this.channel.onExit(error => this.fail(error));
+
+    try {
+      await this.call({ type: 'initialize', manifest: this.manifest, entry: this.entry, config: context.config });
+      if (this.registrationError) {
+        throw this.registrationError;
+      }
+    } catch (error) {
+      await this.stop();
+      throw error;
+    }
+
+    this.running = true;
+    this.logger.info('Isolated plugin started', { name: this.manifest.name, mode: this.options.mode });
+  }
+
+  /**
+   * Run the plugin's shutdown hook, then end the runner
+   */
+  async shutdown(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    try {
+      await this.call({ type: 'shutdown' });
+    } catch (error) {
+      this.logger.warn('Isolated plugin shutdown failed', { name: this.manifest.name, error: (error as Error).message });
+    }
+    await this.stop();
+  }
+
+  /**
+   * Deliver an event emitted elsewhere on the plugin event bus
+   */
+  deliverEvent(event: string, args: unknown[]): void {
+    if (!this.running || this.stopped) {
+      return;
+    }
+
+    const warn = (error: Error) => this.logger.warn('Event not delivered to isolated plugin', {
+      name: this.manifest.name,
+      event,
+      error: error.message,
+    });
+    try {
+      this.channel?.send({ type: 'event', event, args }, warn);
+    } catch (error) {
+      warn(error as Error);
+    }
+  }
+
+  /**
+   * Send a call to the runner and wait for its result
+   */
+  private call(
+    message: DistributiveOmit<Extract<HostMessage, { id: number }>, 'id'>,
+    signal?: AbortSignal,
+    progress?: ProgressReporter
+  ): Promise<unknown> {
+    const channel = this.channel;
+    if (!channel || this.stopped) {
+      return Promise.reject(new ToolError(`Plugin ${this.manifest.name} is not running`));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      // The caller stops waiting at once; the runner is only replaced if it does not stop too
+      const abandon = (error: Error, reason?: string) => {
+        this.pending.get(id)?.settle();
+        reject(error);
+        this.cancel(id, reason);
+      };
+
+      const timer = setTimeout(() => {
+        const error = new ToolTimeoutError(`Plugin ${this.manifest.name}`, this.options.callTimeoutMs);
+        abandon(error, error.message);
+      }, this.options.callTimeoutMs);
+
+      const cancel = () => {
+        const reason = typeof signal?.reason === 'string' ? signal.reason : undefined;
+        abandon(new ToolCancelledError(`Plugin ${this.manifest.name}`, reason), reason);
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+
+      this.pending.set(id, {
+        resolve,
+        reject,
+        progress,
+        settle: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', cancel);
+          this.pending.delete(id);
+        },
+      });
+
+      const failSend = (error: Error) => {
+        this.pending.get(id)?.settle();
+        reject(error);
+      };
+      try {
+        channel.send({ ...message, id } as HostMessage, failSend);
+      } catch (error) {
+        failSend(error as Error);
+      }
+    });
+  }
+
+  /**
+   * Handle a message from the runner
+   */
+  private handleMessage(message: RunnerMessage): void {
+    const context = this.context!;
+
+    switch (message.type) {
+      case 'result':
+      case 'error': {
+        clearTimeout(this.cancelled.get(message.id));
+        this.cancelled.delete(message.id);
+        const call = this.pending.get(message.id);
+        call?.settle();
+        if (message.type === 'result') {
+          call?.resolve(message.value);
+        } else {
+          call?.reject(deserializeError(message.error));
+        }
+        break;
+      }
+
+      case 'progress':
+        this.pending.get(message.id)?.progress?.(message.progress, message.total, message.message);
+        break;
+
+      case 'log':
+        if (message.level === 'error') {
+          context.logger.error(message.message, undefined, message.meta);
+        } else {
+          context.logger[message.level](message.message, message.meta);
+        }
+        break;
+
+      case 'event':
+        context.events.emit(message.event, ...message.args);
+        break;
+
+      case 'callService':
+        void this.answerServiceCall(context, message);
+        break;
+
+      case 'unregisterService':
+        context.services.unregister(message.name);
+        break;
+
+      default:
+        this.register(context, message);
+        break;
+    }
+  }
+
+  /**
+   * Register a proxy for something the plugin registered in the runner
+   */
+  private register(
+    context: PluginContext,
+    message: Extract<RunnerMessage, { type: `register${string}` }>
+  ): void {
+    try {
+      switch (message.type) {
+        case 'registerTool': {
+          const { name } = message.tool;
+          context.registerTool(message.tool, (args, call) => this.call(
+            {
+              type: 'callTool',
+              name,
+              args,
+              ...(call.securityContext ? { securityContext: call.securityContext } : {}),
+            },
+            call.signal,
+            call.progress
+          ) as ReturnType<Parameters<PluginContext['registerTool']>[1]>);
+          break;
+        }
+
+        case 'registerResource':
+          context.registerResource(message.resource, (uri, securityContext) =>
+            this.call({ type: 'readResource', uri, securityContext }) as ReturnType<Parameters<PluginContext['registerResource']>[1]>
+          );
+          break;
+
+        case 'registerPrompt':
+          context.registerPrompt(message.definition);
+          break;
+
+        case 'registerMethod':
+          context.registerMethod(message.method, (params, securityContext) =>
+            this.call({ type: 'callMethod', method: message.method, params, securityContext })
+          );
+          break;
+
+        case 'registerService': {
+          const { name } = message;
+          context.services.register(name, Object.fromEntries(message.methods.map(method => [
+            method,
+            (...args: unknown[]) => this.call({ type: 'callService', name, method, args }),
+          ])));
+          break;
+        }
+      }
+    } catch (error) {
+      // Reported when initialize() completes, as registration happens on the runner's schedule
+      this.registrationError ??= error as Error;
+    }
+  }
+
+  /**
+   * Cancel a call in the runner, ending the runner if the call is still
+   * running once the grace period is over
+   */
+  private cancel(id: number, reason?: string): void {
+    this.cancelled.set(id, setTimeout(() => {
+      this.cancelled.delete(id);
+      this.fail(new Error(`Cancelled call did not finish within ${this.options.cancelGraceMs}ms`));
+    }, this.options.cancelGraceMs));
+
+    const warn = (error: Error) => this.logger.warn('Cancellation not delivered to isolated plugin', {
+      name: this.manifest.name,
+      error: error.message,
+    });
+    try {
+      this.channel?.send({ type: 'cancel', id, ...(reason ? { reason } : {}) }, warn);
+    } catch (error) {
+      warn(error as Error);
+    }
+  }
+
+  /**
+   * Run a plugin's call into a server service and send back its result
+   */
+  private async answerServiceCall(
+    context: PluginContext,
+    message: Extract<RunnerMessage, { type: 'callService' }>
+  ): Promise<void> {
+    const { id, name, method } = message;
+    let reply: HostMessage;
+    try {
+      reply = { type: 'result', id, value: await invokeService(context.services.get(name), name, method, message.args) };
+    } catch (error) {
+      reply = { type: 'error', id, error: serializeError(error) };
+    }
+
+    if (this.stopped) {
+      return;
+    }
+    try {
+      this.channel?.send(reply);
+    } catch (error) {
+      this.channel?.send({
+        type: 'error',
+        id,
+        error: { name: 'Error', message: `Result of ${name}.${method} cannot be sent to the plugin: ${(error as Error).message}` },
+      });
+    }
+  }
+
+  /**
+   * Fail every pending call and end the runner; a running plugin reports a crash
+   */
+  private fail(error: Error): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const wasRunning = this.running;
+    for (const call of [...this.pending.values()]) {
+      call.settle();
+      call.reject(new ToolError(`Plugin ${this.manifest.name} is unavailable: ${error.message}`));
+    }
+    void this.stop();
+
+    if (wasRunning) {
+      this.emit('crash', error);
+    }
+  }
+
+  private async stop(): Promise<void> {
+    this.stopped = true;
+    this.running = false;
+    for (const timer of this.cancelled.values()) {
+      clearTimeout(timer);
+    }
+    this.cancelled.clear();
+    try {
+      await this.channel?.terminate();
+    } catch (error) {
+      this.logger.warn('Failed to end plugin runner', { name: this.manifest.name, error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Start a plugin runner in a worker thread or child process, with its heap capped
+ */
+export function spawnPluginChannel(
+  mode: Exclude<PluginIsolationMode, 'none'>,
+  memoryLimitMb: number
+): PluginChannel {
+  const current = fileURLToPath(import.meta.url);
+  const runner = join(dirname(current), `plugin-runner${extname(current)}`);
+
+  if (mode === 'worker') {
+    const worker = new Worker(runner, {
+      workerData: { [PLUGIN_RUNNER_FLAG]: true },
+      resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb },
+      // Never let plugin output reach stdout, which carries the stdio transport
+      stdout: true,
+      stderr: true,
+    });
+    worker.stdout.pipe(process.stderr);
+    worker.stderr.pipe(process.stderr);
+
+    let failure: Error | undefined;
+    worker.on('error', error => {
+      failure = error;
+    });
+
+    return {
+      send: message => worker.postMessage(message),
+      onMessage: listener => worker.on('message', listener),
+      onExit: listener => worker.on('exit', code => listener(failure ?? new Error(`Worker exited with code ${code}`))),
+      terminate: async () => {
+        await worker.terminate();
+      },
+    };
+  }
+
+  const child = fork(runner, [], {
+    execArgv: [...process.execArgv, `--max-old-space-size=${memoryLimitMb}`],
+    env: { ...process.env, [PLUGIN_RUNNER_FLAG]: '1' },
+    serialization: 'advanced',
+    stdio: ['ignore', 'pipe', 'pipe', 'ipc'],
+  });
+  child.stdout?.pipe(process.stderr);
+  child.stderr?.pipe(process.stderr);
+
+  return {
+    // Without a callback a failed send is emitted as an error event instead
+    send: (message, onError) => {
+      child.send(message, error => {
+        if (error) {
+          onError?.(error);
+        }
+      });
+    },
+    onMessage: listener => child.on('message', message => listener(message as RunnerMessage)),
+    onExit: listener => {
+      child.on('error', listener);
+      child.on('disconnect', () => listener(new Error('Process closed its IPC channel')));
+      child.on('exit', (code, signal) =>
+        listener(new Error(`Process exited with ${signal ? `signal ${signal}` : `code ${code}`}`))
+      );
+    },
+    terminate: async () => {
+      if (child.exitCode === null && child.signalCode === null) {
+        const exited = once(child, 'exit');
+        child.kill();
+        await exited;
+      }
+    },
+  };
+}
+
+/**
+ * Rebuild an error from the runner; tool errors stay tool errors so they reach the client as results
+ */
+function deserializeError(error: SerializedError): Error {
+  if (error.kind) {
+    return new ToolError(error.message, error.kind as ToolErrorKind, error.code as McpErrorCode | undefined);
+  }
+
+  const rebuilt = new Error(error.message);
+  rebuilt.name = error.name;
+  return error.code !== undefined ? Object.assign(rebuilt, { code: error.code }) : rebuilt;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  progress: ProgressReporter | undefined;
+  settle: () => void;
+}
@@ -185,6 +185,10 @@ export class LoggerService {
           options: {
             colorize: isDevelopment,
             timestamp: true,
+            // stdout carries the protocol stream when serving over stdio
+            ...(process.env['MCP_TRANSPORT'] === 'stdio' ? {
+              stderrLevels: ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'],
+            } : {}),
           },
         },
         ...(process.env.LOG_FILE ? [{
@@ -0,0 +1,111 @@
+/**
+ * Plugin Bridge
+ *
+ * Messages exchanged between the server and a plugin running in a worker
+ * thread or child process. Calls carry an id that their result, error or
+ * progress messages refer back to. Both ends make calls: the server into the
+ * plugin's handlers, the plugin into services registered in the server.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import type {
+  PluginManifest,
+  Tool,
+  Resource,
+  SecurityContext,
+} from '../types/mcp';
+
+/**
+ * Marks a worker or child process as a plugin runner (workerData key and environment variable)
+ */
+export const PLUGIN_RUNNER_FLAG = 'MCP_PLUGIN_RUNNER';
+
+/**
+ * Either end of the bridge: a worker MessagePort or an adapter over process IPC
+ */
+export interface PluginPort {
+  postMessage(message: unknown): void;
+  on(event: 'message', listener: (message: unknown) => void): void;
+}
+
+/**
+ * An error as it crosses the bridge; `kind` marks tool errors
+ */
+export interface SerializedError {
+  readonly name: string;
+  readonly message: string;
+  readonly code?: number;
+  readonly kind?: string;
+}
+
+export type HostMessage =
+  | { type: 'initialize'; id: number; manifest: PluginManifest; entry: string; config: Record<string, unknown> }
+  | { type: 'callTool'; id: number; name: string; args: Record<string, unknown>; securityContext?: SecurityContext }
+  | { type: 'readResource'; id: number; uri: string; securityContext: SecurityContext }
+  | { type: 'callMethod'; id: number; method: string; params: unknown; securityContext: SecurityContext }
+  | { type: 'callService'; id: number; name: string; method: string; args: unknown[] }
+  | { type: 'cancel'; id: number; reason?: string }
+  | { type: 'event'; event: string; args: unknown[] }
+  | { type: 'shutdown'; id: number }
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; error: SerializedError };
+
+export type RunnerMessage =
+  | { type: 'registerTool'; tool: Tool }
+  | { type: 'registerResource'; resource: Resource }
+  | { type: 'registerPrompt'; definition: unknown }
+  | { type: 'registerMethod'; method: string }
+  | { type: 'registerService'; name: string; methods: string[] }
+  | { type: 'unregisterService'; name: string }
+  | { type: 'callService'; id: number; name: string; method: string; args: unknown[] }
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; error: SerializedError }
+  | { type: 'progress'; id: number; progress: number; total?: number; message?: string }
+  | { type: 'log'; level: 'debug' | 'info' | 'warn' | 'error'; message: string; meta?: Record<string, unknown> }
+  | { type: 'event'; event: string; args: unknown[] };
+
+/**
+ * Reduce an error to what crosses the bridge, keeping tool error kinds and codes
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const { code, kind } = error as { code?: unknown; kind?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(typeof code === 'number' ? { code } : {}),
+    ...(typeof kind === 'string' ? { kind } : {}),
+  };
+}
+
+/**
+ * Names of the methods a service offers, including those of its class
+ */
+export function serviceMethods(service: unknown): string[] {
+  const methods = new Set<string>();
+  let current: unknown = service;
+  for (; typeof current === 'object' && current !== null && current !== Object.prototype; current = Object.getPrototypeOf(current)) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      if (name !== 'constructor' && typeof (service as Record<string, unknown>)[name] === 'function') {
+        methods.add(name);
+      }
+    }
+  }
+  return [...methods];
+}
+
+/**
+ * Call a method of a service on behalf of the other end of the bridge
+ */
+export async function invokeService(service: unknown, name: string, method: string, args: unknown[]): Promise<unknown> {
+  const member = (service as Record<string, unknown> | undefined)?.[method];
+  if (typeof member !== 'function') {
+    throw new Error(`Service ${name} has no method ${method}`);
+  }
+  return member.apply(service, args);
+}
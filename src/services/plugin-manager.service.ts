@@ -1,53 +1,614 @@
+/**
+ * Plugin Manager
+ *
+ * Discovers plugins in the configured plugin directory, validates their
+ * manifests and configuration, and runs their lifecycle. Each plugin lives in
+ * its own subdirectory with a `plugin.json` manifest whose `main` module
+ * exports the plugin. Through its context a plugin registers tools,
+ * resources, prompts and custom JSON-RPC methods, limited to the capabilities
+ * its manifest declares; everything it registered is removed when it stops.
+ * Plugins can run isolated in a worker thread or child process, where a crash
+ * marks them unhealthy and they are restarted with exponential backoff.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
 import { injectable, inject } from 'inversify';
+import { EventEmitter } from 'events';
+import { readdir, readFile } from 'fs/promises';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
 import { ConfigService } from './config.service';
 import { LoggerService } from './logger.service';
-import { PluginConfig } from '../types/mcp';
+import { IsolatedPlugin } from './isolated-plugin';
+import { jsonSchemaToJoi, validateWithSchema } from '../core/json-schema';
+import type { ToolRegistry } from '../core/tool-registry';
+import type { ResourceRegistry } from '../core/resource-registry';
+import type { PromptRegistry } from '../core/prompt-registry';
+import {
+  EventEmitter as PluginEventBus,
+  Logger,
+  Plugin,
+  PluginContext,
+  PluginIsolationMode,
+  PluginManifest,
+  PluginMethodHandler,
+  SecurityContext,
+  ServiceRegistry,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '../types/mcp';
+
+const MANIFEST_FILE = 'plugin.json';
+
+const PLUGIN_CAPABILITIES = ['tools', 'resources', 'prompts', 'methods'] as const;
+
+const manifestSchema = Joi.object({
+  name: Joi.string().pattern(/^[a-z0-9][a-z0-9._-]*$/).max(64).required(),
+  version: Joi.string().pattern(/^\d+\.\d+\.\d+(?:[-+][\w.-]+)?$/).required(),
+  description: Joi.string().required(),
+  author: Joi.string().required(),
+  main: Joi.string().required(),
+  dependencies: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+  mcpVersion: Joi.string().required(),
+  capabilities: Joi.array().items(Joi.string().valid(...PLUGIN_CAPABILITIES)).unique().required(),
+  configuration: Joi.object().optional(),
+}).unknown(true);
+
+/**
+ * Raised when a plugin cannot be loaded: bad manifest, configuration or module
+ */
+export class PluginLoadError extends Error {
+  public readonly plugin: string;
+
+  constructor(plugin: string, message: string) {
+    super(`Plugin ${plugin}: ${message}`);
+    this.name = 'PluginLoadError';
+    this.plugin = plugin;
+  }
+}
+
+/**
+ * Registries plugins extend, handed over by the server once they are initialized
+ */
+export interface PluginRegistries {
+  readonly tools: ToolRegistry;
+  readonly resources: ResourceRegistry;
+  readonly prompts: PromptRegistry;
+}
 
 @injectable()
 export class PluginManager {
-  private plugins: Map<string, any> = new Map();
+  private readonly plugins = new Map<string, LoadedPlugin>();
+  private readonly methods = new Map<string, { plugin: string; handler: PluginMethodHandler }>();
+  private readonly services = new Map<string, unknown>();
+  private readonly events = new EventEmitter();
+  private readonly logger: Logger;
+  private registries: PluginRegistries | undefined;
 
   constructor(
     @inject('ConfigService') private config: ConfigService,
-    @inject('LoggerService') private logger: LoggerService
-  ) {}
+    @inject('LoggerService') private loggerService: LoggerService
+  ) {
+    this.logger = loggerService.getLogger('PluginManager');
+  }
+
+  /**
+   * Load and start the configured plugins
+   */
+  async initialize(registries: PluginRegistries): Promise<void> {
+    this.registries = registries;
+
+    if (!this.config.get('plugins').enabled) {
+      this.logger.info('Plugins disabled');
+      return;
+    }
+
+    await this.loadPlugins();
+    this.logger.info('Plugin manager initialized', {
+      loaded: this.getLoadedPlugins(),
+      failed: [...this.plugins.values()].filter(plugin => plugin.status === 'failed').map(plugin => plugin.name),
+    });
+  }
 
+  /**
+   * Discover plugins in the plugin directory and start every enabled one
+   */
   async loadPlugins(): Promise<void> {
-    // Plugin loading logic would go here
-    this.logger.info('Plugin manager initialized');
+    const { directory } = this.config.get('plugins');
+    const root = resolve(directory);
+
+    let entries;
+    try {
+      entries = await readdir(root, { withFileTypes: true });
+    } catch {
+      this.logger.debug('Plugin directory not found', { path: root });
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await this.loadPlugin(join(root, entry.name));
+      }
+    }
   }
 
-  async executePlugin(pluginName: string, args: any): Promise<any> {
-    const plugin = this.plugins.get(pluginName);
+  /**
+   * Load one plugin directory. Failures are recorded against the plugin and
+   * never stop the server or other plugins.
+   */
+  async loadPlugin(pluginDir: string): Promise<void> {
+    let manifest: PluginManifest;
+    try {
+      manifest = await this.readManifest(pluginDir);
+    } catch (error) {
+      this.logger.warn('Skipping plugin with an invalid manifest', {
+        path: pluginDir,
+        error: (error as Error).message,
+      });
+      return;
+    }
+
+    const { name } = manifest;
+    if (this.plugins.has(name)) {
+      this.logger.warn('Skipping duplicate plugin', { name, path: pluginDir });
+      return;
+    }
+
+    const { autoload, plugins: instances } = this.config.get('plugins');
+    const instance = instances[name];
+    if (instance ? !instance.enabled : !autoload) {
+      this.logger.debug('Plugin not enabled', { name });
+      return;
+    }
+
+    const plugin: LoadedPlugin = {
+      name,
+      manifest,
+      directory: pluginDir,
+      isolation: instance?.isolation ?? this.config.get('plugins').isolation.mode,
+      config: {},
+      instance: undefined,
+      status: 'loading',
+      error: undefined,
+      startedAt: 0,
+      restarts: 0,
+      restartTimer: undefined,
+      registrations: { tools: [], resources: [], prompts: [], methods: [], services: [] },
+    };
+    this.plugins.set(name, plugin);
+
+    try {
+      plugin.config = this.validateConfiguration(manifest, instance?.config || {});
+      await this.startPlugin(plugin);
+      this.logger.info('Plugin loaded', { name, version: manifest.version, isolation: plugin.isolation });
+    } catch (error) {
+      plugin.status = 'failed';
+      plugin.error = (error as Error).message;
+      this.logger.error('Failed to load plugin', error as Error, { name });
+    }
+  }
+
+  /**
+   * Create the plugin instance, in process or isolated, and run its initialize hook
+   */
+  private async startPlugin(plugin: LoadedPlugin): Promise<void> {
+    const entry = this.resolveEntry(plugin.manifest, plugin.directory);
+    plugin.status = 'loading';
+
+    if (plugin.isolation === 'none') {
+      plugin.instance = await this.importPlugin(plugin.manifest, entry);
+    } else {
+      const { memoryLimitMb, callTimeoutMs, cancelGraceMs } = this.config.get('plugins').isolation;
+      const isolated = new IsolatedPlugin(
+        plugin.manifest,
+        entry,
+        { mode: plugin.isolation, memoryLimitMb, callTimeoutMs, cancelGraceMs },
+        this.logger
+      );
+      isolated.on('crash', (error: Error) => this.handleCrash(plugin, isolated, error));
+      plugin.instance = isolated;
+    }
+
+    try {
+      await plugin.instance.initialize(this.createContext(plugin));
+    } catch (error) {
+      this.removeRegistrations(plugin);
+      throw error;
+    }
+
+    plugin.status = 'active';
+    plugin.error = undefined;
+    plugin.startedAt = Date.now();
+  }
+
+  /**
+   * Mark a crashed isolated plugin unhealthy and schedule its restart
+   */
+  private handleCrash(plugin: LoadedPlugin, instance: IsolatedPlugin, error: Error): void {
+    if (plugin.instance !== instance || this.plugins.get(plugin.name) !== plugin) {
+      return;
+    }
+
+    this.logger.error('Isolated plugin crashed', error, { name: plugin.name });
+    this.removeRegistrations(plugin);
+    plugin.instance = undefined;
+    plugin.error = error.message;
+    this.scheduleRestart(plugin);
+  }
+
+  /**
+   * Restart after an exponentially growing delay, giving up after too many attempts
+   */
+  private scheduleRestart(plugin: LoadedPlugin): void {
+    const { maxRestarts, restartDelayMs, maxRestartDelayMs } = this.config.get('plugins').isolation;
+
+    // A plugin that ran stably for a while starts over with short delays
+    if (plugin.startedAt > 0 && Date.now() - plugin.startedAt > maxRestartDelayMs) {
+      plugin.restarts = 0;
+    }
+
+    if (plugin.restarts >= maxRestarts) {
+      plugin.status = 'failed';
+      this.logger.error('Plugin keeps crashing, giving up', undefined, { name: plugin.name, restarts: plugin.restarts });
+      return;
+    }
+
+    const delay = Math.min(restartDelayMs * 2 ** plugin.restarts, maxRestartDelayMs);
+    plugin.restarts++;
+    plugin.status = 'crashed';
+    plugin.restartTimer = setTimeout(() => void this.restartPlugin(plugin), delay);
+    plugin.restartTimer.unref();
+
+    this.logger.info('Plugin restart scheduled', { name: plugin.name, attempt: plugin.restarts, delayMs: delay });
+  }
+
+  private async restartPlugin(plugin: LoadedPlugin): Promise<void> {
+    plugin.restartTimer = undefined;
+    if (this.plugins.get(plugin.name) !== plugin || plugin.status !== 'crashed') {
+      return;
+    }
+
+    try {
+      plugin.startedAt = 0;
+      await this.startPlugin(plugin);
+      this.logger.info('Plugin restarted', { name: plugin.name, attempt: plugin.restarts });
+    } catch (error) {
+      this.logger.error('Plugin restart failed', error as Error, { name: plugin.name });
+      plugin.instance = undefined;
+      plugin.error = (error as Error).message;
+      this.scheduleRestart(plugin);
+    }
+  }
+
+  /**
+   * Stop a plugin and remove everything it registered
+   */
+  async unloadPlugin(name: string): Promise<boolean> {
+    const plugin = this.plugins.get(name);
     if (!plugin) {
-      throw new Error(`Plugin ${pluginName} not found`);
+      return false;
     }
-    return plugin.execute(args);
+
+    clearTimeout(plugin.restartTimer);
+    if (plugin.status === 'active') {
+      try {
+        await plugin.instance?.shutdown?.();
+      } catch (error) {
+        this.logger.error('Plugin shutdown failed', error as Error, { name });
+      }
+    }
+
+    this.removeRegistrations(plugin);
+    this.plugins.delete(name);
+    this.logger.info('Plugin unloaded', { name });
+    return true;
   }
 
+  /**
+   * Names of the plugins that are running
+   */
   getLoadedPlugins(): string[] {
-    return Array.from(this.plugins.keys());
+    return [...this.plugins.values()].filter(plugin => plugin.status === 'active').map(plugin => plugin.name);
   }
 
-  async handleMethod(method: string, params: any, id: string, securityContext: any): Promise<any> {
-    // Simple implementation - in production this would route to appropriate plugin
-    throw new Error(`Method ${method} not implemented`);
+  /**
+   * Whether a plugin registered a handler for a JSON-RPC method
+   */
+  hasMethod(method: string): boolean {
+    return this.methods.has(method);
   }
 
-  getHealthStatus(): any {
-    return {
-      status: 'healthy',
-      plugins: this.plugins.size
-    };
+  /**
+   * Run a plugin's JSON-RPC method handler
+   */
+  async handleMethod(method: string, params: unknown, securityContext: SecurityContext): Promise<unknown> {
+    const registered = this.methods.get(method);
+    if (!registered) {
+      throw new Error(`Method ${method} is not provided by any plugin`);
+    }
+
+    this.logger.debug('Calling plugin method', { method, plugin: registered.plugin });
+    return registered.handler(params, securityContext);
+  }
+
+  /**
+   * Routes for inspecting plugins over HTTP
+   */
+  getRouter(): Router {
+    const router = Router();
+    router.get('/', (_req: Request, res: Response) => {
+      res.json({ plugins: this.describePlugins() });
+    });
+    return router;
   }
 
-  async initialize(): Promise<void> {
-    // Initialize plugin manager
-    this.logger.info('Plugin manager initialized');
+  getHealthStatus(): { status: string; plugins: number; failed: string[]; restarting: string[] } {
+    const withStatus = (status: LoadedPlugin['status']) =>
+      [...this.plugins.values()].filter(plugin => plugin.status === status).map(plugin => plugin.name);
+
+    const failed = withStatus('failed');
+    const restarting = withStatus('crashed');
+    return {
+      status: failed.length > 0 || restarting.length > 0 ? 'degraded' : 'healthy',
+      plugins: this.getLoadedPlugins().length,
+      failed,
+      restarting,
+    };
   }
 
+  /**
+   * Stop every plugin
+   */
   async shutdown(): Promise<void> {
-    // Shutdown plugin manager
+    for (const name of [...this.plugins.keys()]) {
+      await this.unloadPlugin(name);
+    }
+    this.events.removeAllListeners();
     this.logger.info('Plugin manager shutdown');
   }
+
+  /**
+   * Read and validate a plugin manifest
+   */
+  private async readManifest(pluginDir: string): Promise<PluginManifest> {
+    const raw = await readFile(join(pluginDir, MANIFEST_FILE), 'utf8');
+    const { error, value } = manifestSchema.validate(JSON.parse(raw));
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const manifest = value as PluginManifest;
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(manifest.mcpVersion)) {
+      throw new PluginLoadError(
+        manifest.name,
+        `targets MCP ${manifest.mcpVersion}, supported versions are ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+      );
+    }
+
+    return manifest;
+  }
+
+  /**
+   * Check the configured options against the manifest's configuration schema
+   */
+  private validateConfiguration(
+    manifest: PluginManifest,
+    config: Record<string, unknown>
+  ): Record<string, unknown> {
+    if (!manifest.configuration) {
+      return config;
+    }
+
+    const { value, violations } = validateWithSchema(jsonSchemaToJoi(manifest.configuration), config);
+    if (violations.length > 0) {
+      throw new PluginLoadError(
+        manifest.name,
+        `invalid configuration: ${violations.map(violation => violation.message).join('; ')}`
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Resolve the plugin's main module, which must stay inside its directory
+   */
+  private resolveEntry(manifest: PluginManifest, pluginDir: string): string {
+    const entry = resolve(pluginDir, manifest.main);
+    const fromDir = relative(pluginDir, entry);
+    if (fromDir.startsWith('..') || isAbsolute(fromDir)) {
+      throw new PluginLoadError(manifest.name, `main must stay inside the plugin directory: ${manifest.main}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Import the plugin's main module; it may export an instance or a class
+   */
+  private async importPlugin(manifest: PluginManifest, entry: string): Promise<Plugin> {
+    const module = await import(pathToFileURL(entry).href);
+    const exported = module.default ?? module;
+    const plugin = typeof exported === 'function' ? new exported() : exported;
+
+    if (!plugin || typeof plugin.initialize !== 'function') {
+      throw new PluginLoadError(manifest.name, 'main module does not export a plugin with initialize()');
+    }
+    return plugin as Plugin;
+  }
+
+  /**
+   * Build the context a plugin uses to extend the server
+   */
+  private createContext(plugin: LoadedPlugin): PluginContext {
+    const { manifest, registrations, config } = plugin;
+    const registries = this.getRegistries();
+
+    const requireCapability = (capability: PluginCapability) => {
+      if (!manifest.capabilities.includes(capability)) {
+        throw new Error(`Plugin ${manifest.name} does not declare the "${capability}" capability`);
+      }
+      if (plugin.status !== 'loading' && plugin.status !== 'active') {
+        throw new Error(`Plugin ${manifest.name} is not running`);
+      }
+    };
+
+    return {
+      manifest,
+      logger: this.loggerService.getLogger(`Plugin:${manifest.name}`),
+      config,
+      services: this.createServiceRegistry(registrations.services),
+      events: this.createEventBus(plugin),
+
+      registerTool: (tool, handler) => {
+        requireCapability('tools');
+        registries.tools.registerTool(tool, (args, securityContext, _requestId, context) =>
+          handler(args, {
+            ...(securityContext ? { securityContext } : {}),
+            ...(context?.signal ? { signal: context.signal } : {}),
+            ...(context?.progress ? { progress: context.progress } : {}),
+          })
+        );
+        registrations.tools.push(tool.name);
+      },
+
+      registerResource: (resource, reader) => {
+        requireCapability('resources');
+        if (registries.resources.getResource(resource.uri)) {
+          throw new Error(`Resource ${resource.uri} is already registered`);
+        }
+        registries.resources.registerResource(resource, reader);
+        registrations.resources.push(resource.uri);
+      },
+
+      registerPrompt: definition => {
+        requireCapability('prompts');
+        registries.prompts.registerPrompt(definition);
+        registrations.prompts.push((definition as { name: string }).name);
+      },
+
+      registerMethod: (method, handler) => {
+        requireCapability('methods');
+        // Namespacing keeps plugin methods clear of MCP methods and of each other
+        if (!method.startsWith(`${manifest.name}/`)) {
+          throw new Error(`Plugin method ${method} must be named ${manifest.name}/<method>`);
+        }
+        if (this.methods.has(method)) {
+          throw new Error(`Method ${method} is already registered`);
+        }
+        this.methods.set(method, { plugin: manifest.name, handler });
+        registrations.methods.push(method);
+      },
+    };
+  }
+
+  /**
+   * Services shared between plugins; each plugin's own services leave with it
+   */
+  private createServiceRegistry(owned: string[]): ServiceRegistry {
+    return {
+      get: <T>(name: string): T => {
+        if (!this.services.has(name)) {
+          throw new Error(`Service not registered: ${name}`);
+        }
+        return this.services.get(name) as T;
+      },
+      register: <T>(name: string, service: T): void => {
+        if (this.services.has(name)) {
+          throw new Error(`Service ${name} is already registered`);
+        }
+        this.services.set(name, service);
+        owned.push(name);
+      },
+      unregister: (name: string): void => {
+        if (owned.includes(name)) {
+          this.services.delete(name);
+          owned.splice(owned.indexOf(name), 1);
+        }
+      },
+    };
+  }
+
+  /**
+   * The shared event bus as one plugin sees it; events also reach isolated
+   * plugins, except the one that emitted them
+   */
+  private createEventBus(origin: LoadedPlugin): PluginEventBus {
+    return {
+      on: (event, listener) => this.events.on(event, listener),
+      off: (event, listener) => this.events.off(event, listener),
+      emit: (event, ...args) => {
+        this.events.emit(event, ...args);
+        for (const plugin of this.plugins.values()) {
+          if (plugin !== origin && plugin.instance instanceof IsolatedPlugin) {
+            plugin.instance.deliverEvent(event, args);
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Remove everything a plugin registered
+   */
+  private removeRegistrations(plugin: LoadedPlugin): void {
+    const { registrations } = plugin;
+    const registries = this.getRegistries();
+
+    registrations.tools.forEach(name => registries.tools.unregisterTool(name));
+    registrations.resources.forEach(uri => registries.resources.unregisterResource(uri));
+    registrations.prompts.forEach(name => registries.prompts.unregisterPrompt(name));
+    registrations.methods.forEach(method => this.methods.delete(method));
+    registrations.services.forEach(name => this.services.delete(name));
+
+    plugin.registrations = { tools: [], resources: [], prompts: [], methods: [], services: [] };
+  }
+
+  private getRegistries(): PluginRegistries {
+    if (!this.registries) {
+      throw new Error('Plugin manager is not initialized');
+    }
+    return this.registries;
+  }
+
+  private describePlugins(): Array<Record<string, unknown>> {
+    return [...this.plugins.values()].map(plugin => ({
+      name: plugin.name,
+      version: plugin.manifest.version,
+      description: plugin.manifest.description,
+      status: plugin.status,
+      isolation: plugin.isolation,
+      restarts: plugin.restarts,
+      capabilities: plugin.manifest.capabilities,
+      tools: plugin.registrations.tools,
+      resources: plugin.registrations.resources,
+      prompts: plugin.registrations.prompts,
+      methods: plugin.registrations.methods,
+      ...(plugin.error ? { error: plugin.error } : {}),
+    }));
+  }
+}
+
+type PluginCapability = typeof PLUGIN_CAPABILITIES[number];
+
+interface LoadedPlugin {
+  name: string;
+  manifest: PluginManifest;
+  directory: string;
+  isolation: PluginIsolationMode;
+  config: Record<string, unknown>;
+  instance: Plugin | undefined;
+  status: 'loading' | 'active' | 'crashed' | 'failed';
+  error: string | undefined;
+  startedAt: number;
+  restarts: number;
+  restartTimer: NodeJS.Timeout | undefined;
+  registrations: {
+    tools: string[];
+    resources: string[];
+    prompts: string[];
+    methods: string[];
+    services: string[];
+  };
 }
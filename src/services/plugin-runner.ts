@@ -0,0 +1,255 @@
+/**
+ * Plugin Runner
+ *
+ * Entry point of an isolated plugin's worker thread or child process. Loads
+ * the plugin module and hands it a PluginContext whose registrations, log
+ * messages and events travel to the server over the plugin bridge; calls
+ * from the server are dispatched to the registered handlers. Services of
+ * other plugins are reached through proxies whose methods call across the
+ * bridge, so their arguments and results must survive structured cloning.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { EventEmitter } from 'events';
+import { parentPort, workerData } from 'worker_threads';
+import { pathToFileURL } from 'url';
+import {
+  PLUGIN_RUNNER_FLAG,
+  HostMessage,
+  PluginPort,
+  RunnerMessage,
+  invokeService,
+  serializeError,
+  serviceMethods,
+} from './plugin-bridge';
+import type {
+  Logger,
+  Plugin,
+  PluginContext,
+  PluginMethodHandler,
+  PluginResourceReader,
+  PluginToolHandler,
+} from '../types/mcp';
+
+/**
+ * Serve one plugin over a bridge port
+ */
+export function runPlugin(port: PluginPort): void {
+  const tools = new Map<string, PluginToolHandler>();
+  const resources = new Map<string, PluginResourceReader>();
+  const methods = new Map<string, PluginMethodHandler>();
+  const services = new Map<string, unknown>();
+  const calls = new Map<number, AbortController>();
+  const requests = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  const events = new EventEmitter();
+  let plugin: Plugin | undefined;
+  let nextId = 1;
+
+  const send = (message: RunnerMessage): void => port.postMessage(message);
+
+  const respond = async (id: number, work: () => Promise<unknown>): Promise<void> => {
+    try {
+      send({ type: 'result', id, value: await work() });
+    } catch (error) {
+      send({ type: 'error', id, error: serializeError(error) });
+    } finally {
+      calls.delete(id);
+    }
+  };
+
+  // Calls into a service registered in the server; answered with a result or error message
+  const callService = (name: string, method: string, args: unknown[]): Promise<unknown> => {
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      requests.set(id, { resolve, reject });
+      try {
+        send({ type: 'callService', id, name, method, args });
+      } catch (error) {
+        requests.delete(id);
+        reject(new Error(`Arguments of ${name}.${method} cannot be sent to the server: ${(error as Error).message}`));
+      }
+    });
+  };
+
+  // Stands in for a server service; every method call crosses the bridge
+  const remoteService = (name: string): unknown => new Proxy({}, {
+    get: (_target, method) =>
+      // Not a thenable, so awaiting the proxy itself does not call the server
+      typeof method === 'string' && method !== 'then'
+        ? (...args: unknown[]) => callService(name, method, args)
+        : undefined,
+  });
+
+  const log = (level: 'debug' | 'info' | 'warn' | 'error', message: string, meta?: Record<string, unknown>) => {
+    try {
+      send({ type: 'log', level, message, ...(meta ? { meta } : {}) });
+    } catch {
+      // Metadata that cannot be cloned is dropped rather than losing the message
+      send({ type: 'log', level, message });
+    }
+  };
+
+  const logger: Logger = {
+    debug: (message, meta) => log('debug', message, meta),
+    info: (message, meta) => log('info', message, meta),
+    warn: (message, meta) => log('warn', message, meta),
+    error: (message, error, meta) => log('error', message, { ...meta, ...(error ? { error: error.message } : {}) }),
+  };
+
+  const initialize = async (message: Extract<HostMessage, { type: 'initialize' }>): Promise<void> => {
+    const module = await import(pathToFileURL(message.entry).href);
+    const exported = module.default ?? module;
+    const instance = typeof exported === 'function' ? new exported() : exported;
+    if (!instance || typeof instance.initialize !== 'function') {
+      throw new Error('main module does not export a plugin with initialize()');
+    }
+
+    const context: PluginContext = {
+      manifest: message.manifest,
+      logger,
+      config: message.config,
+      services: {
+        get: <T>(name: string): T => (services.has(name) ? services.get(name) : remoteService(name)) as T,
+        register: (name, service) => {
+          const methods = serviceMethods(service);
+          if (methods.length === 0) {
+            throw new Error(`Service ${name} cannot be shared by an isolated plugin: only objects with methods are proxied`);
+          }
+          services.set(name, service);
+          send({ type: 'registerService', name, methods });
+        },
+        unregister: name => {
+          if (services.delete(name)) {
+            send({ type: 'unregisterService', name });
+          }
+        },
+      },
+      events: {
+        on: (event, listener) => events.on(event, listener),
+        off: (event, listener) => events.off(event, listener),
+        emit: (event, ...args) => {
+          events.emit(event, ...args);
+          send({ type: 'event', event, args });
+        },
+      },
+      registerTool: (tool, handler) => {
+        tools.set(tool.name, handler);
+        send({ type: 'registerTool', tool });
+      },
+      registerResource: (resource, reader) => {
+        resources.set(resource.uri, reader);
+        send({ type: 'registerResource', resource });
+      },
+      registerPrompt: definition => {
+        send({ type: 'registerPrompt', definition });
+      },
+      registerMethod: (method, handler) => {
+        methods.set(method, handler);
+        send({ type: 'registerMethod', method });
+      },
+    };
+
+    plugin = instance as Plugin;
+    await plugin.initialize(context);
+  };
+
+  port.on('message', raw => {
+    const message = raw as HostMessage;
+
+    switch (message.type) {
+      case 'initialize':
+        void respond(message.id, () => initialize(message));
+        break;
+
+      case 'callTool': {
+        const controller = new AbortController();
+        calls.set(message.id, controller);
+        void respond(message.id, async () => {
+          const handler = tools.get(message.name);
+          if (!handler) {
+            throw new Error(`Unknown plugin tool: ${message.name}`);
+          }
+          return handler(message.args, {
+            ...(message.securityContext ? { securityContext: message.securityContext } : {}),
+            signal: controller.signal,
+            progress: (progress, total, text) => send({
+              type: 'progress',
+              id: message.id,
+              progress,
+              ...(total !== undefined ? { total } : {}),
+              ...(text ? { message: text } : {}),
+            }),
+          });
+        });
+        break;
+      }
+
+      case 'readResource':
+        void respond(message.id, async () => {
+          const reader = resources.get(message.uri);
+          if (!reader) {
+            throw new Error(`Unknown plugin resource: ${message.uri}`);
+          }
+          return reader(message.uri, message.securityContext);
+        });
+        break;
+
+      case 'callMethod':
+        void respond(message.id, async () => {
+          const handler = methods.get(message.method);
+          if (!handler) {
+            throw new Error(`Unknown plugin method: ${message.method}`);
+          }
+          return handler(message.params, message.securityContext);
+        });
+        break;
+
+      case 'callService':
+        void respond(message.id, () =>
+          invokeService(services.get(message.name), message.name, message.method, message.args)
+        );
+        break;
+
+      case 'result':
+      case 'error': {
+        const request = requests.get(message.id);
+        requests.delete(message.id);
+        if (message.type === 'result') {
+          request?.resolve(message.value);
+        } else {
+          request?.reject(Object.assign(new Error(message.error.message), { name: message.error.name }));
+        }
+        break;
+      }
+
+      case 'cancel':
+        calls.get(message.id)?.abort(message.reason);
+        break;
+
+      case 'event':
+        // Delivered locally only; the server already routed it to everyone else
+        events.emit(message.event, ...message.args);
+        break;
+
+      case 'shutdown':
+        void respond(message.id, async () => {
+          await plugin?.shutdown?.();
+        });
+        break;
+    }
+  });
+}
+
+// Started as a worker thread or forked child process by the plugin manager
+if (parentPort && (workerData as Record<string, unknown> | undefined)?.[PLUGIN_RUNNER_FLAG]) {
+  runPlugin(parentPort);
+} else if (process.send && process.env[PLUGIN_RUNNER_FLAG]) {
+  runPlugin({
+    postMessage: message => process.send?.(message),
+    on: (event, listener) => process.on(event, listener),
+  });
+  // The server is gone, and with it every reason to keep running
+  process.on('disconnect', () => process.exit(0));
+}
@@ -1,31 +1,111 @@
+/**
+ * Security Service
+ *
+ * Verifies JWT bearer tokens (HS256 with the shared secret, RS256 with a PEM
+ * public key or a local JWKS file) and maps their claims onto users and
+ * security contexts. Tool and resource access is decided by the role policy.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
 import { injectable, inject } from 'inversify';
+import { randomUUID, createPublicKey, KeyObject, JsonWebKey } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import jwt, { JwtPayload } from 'jsonwebtoken';
 import { ConfigService } from './config.service';
 import { LoggerService } from './logger.service';
-import { SecurityConfig, SecurityContext, User, Role, Permission } from '../types/mcp';
+import { AccessPolicy } from '../core/access-policy';
+import { WorkspaceSandbox } from '../core/workspace-sandbox';
+import { SecurityContext, User, JwtConfig, JwtAlgorithm, Logger, McpErrorCode } from '../types/mcp';
+
+/**
+ * Tool arguments that name workspace paths and are subject to path rules
+ */
+const PATH_ARGUMENTS = ['path', 'save_path', 'directory', 'source', 'destination'];
+
+export class AuthenticationError extends Error {
+  public readonly code = McpErrorCode.UNAUTHENTICATED;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
 
 @injectable()
 export class SecurityService {
+  private readonly logger: Logger;
+  private jwks: { path: string; keys: Map<string, KeyObject> } | undefined;
+  private publicKey: { path: string; key: KeyObject } | undefined;
+  private policy: { path: string | undefined; mtimeMs: number | undefined; policy: AccessPolicy } | undefined;
+
   constructor(
     @inject('ConfigService') private config: ConfigService,
-    @inject('LoggerService') private logger: LoggerService
-  ) {}
+    @inject('LoggerService') loggerService: LoggerService
+  ) {
+    this.logger = loggerService.getLogger('SecurityService');
+  }
+
+  /**
+   * Whether anonymous requests must be rejected
+   */
+  isAuthenticationRequired(): boolean {
+    return this.config.get('server').security.authentication.enabled;
+  }
 
+  /**
+   * Verify a token and map it to a user, or return null if it is not acceptable
+   */
   async authenticate(token: string): Promise<User | null> {
-    // Simplified authentication - in production this would validate JWT
     try {
-      // Mock user for development
-      return {
-        id: 'user-1',
-        username: 'user',
-        roles: ['user'],
-        permissions: ['read', 'write']
-      };
+      return this.verifyToken(token);
     } catch (error) {
-      this.logger.error('Authentication failed', { error });
+      this.logger.warn('Authentication failed', { reason: (error as Error).message });
       return null;
     }
   }
 
+  /**
+   * Verify signature, algorithm, expiry and not-before, then map the claims to a user
+   */
+  verifyToken(token: string): User {
+    const jwtConfig = this.config.get('server').security.authentication.jwt;
+    const allowed: readonly JwtAlgorithm[] = jwtConfig.algorithms || ['HS256'];
+
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new AuthenticationError('Malformed token');
+    }
+
+    const algorithm = decoded.header.alg as JwtAlgorithm;
+    if (!allowed.includes(algorithm)) {
+      throw new AuthenticationError(`Token algorithm ${decoded.header.alg} is not accepted`);
+    }
+
+    const key = algorithm === 'HS256'
+      ? jwtConfig.secret
+      : this.getVerificationKey(jwtConfig, decoded.header.kid);
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms: [algorithm],
+        clockTolerance: jwtConfig.clockToleranceSec || 0,
+        ...(jwtConfig.issuer ? { issuer: jwtConfig.issuer } : {}),
+        ...(jwtConfig.audience ? { audience: jwtConfig.audience } : {}),
+      }) as JwtPayload;
+    } catch (error) {
+      throw new AuthenticationError((error as Error).message);
+    }
+
+    if (typeof payload.exp !== 'number') {
+      throw new AuthenticationError('Token has no expiry');
+    }
+
+    return this.mapClaimsToUser(payload, jwtConfig);
+  }
+
   async authorize(user: User, requiredPermissions: string[]): Promise<boolean> {
     // Check if user has required permissions
     return requiredPermissions.every(permission =>
@@ -38,24 +118,206 @@ export class SecurityService {
       userId: user.id,
       roles: user.roles,
       permissions: user.permissions,
-      sessionId: 'session-1',
+      sessionId: request.get?.('X-Session-ID') || randomUUID(),
       ipAddress: request.ip || '127.0.0.1',
       userAgent: request.get?.('User-Agent') || undefined
     };
   }
 
-  validateToken(token: string): boolean {
-    // Simplified token validation
-    return token.startsWith('Bearer ');
+  /**
+   * Check that an Authorization header carries a bearer token
+   */
+  validateToken(authorization: string): boolean {
+    return this.extractBearerToken(authorization) !== null;
   }
 
-  async canExecuteTool(securityContext: any, toolName: string): Promise<boolean> {
-    // Simple implementation - in production this would check permissions
-    return true;
+  /**
+   * Get the token from an `Authorization: Bearer <token>` header value
+   */
+  extractBearerToken(authorization: string): string | null {
+    const match = /^Bearer\s+(\S+)$/i.exec(authorization.trim());
+    return match ? match[1]! : null;
   }
 
-  async canAccessResource(securityContext: any, resourceUri: string): Promise<boolean> {
-    // Simple implementation - in production this would check permissions
+  /**
+   * Check the role policy for a tool and, when arguments are given, every path they name
+   */
+  async canExecuteTool(
+    securityContext: SecurityContext,
+    toolName: string,
+    args?: Record<string, unknown>
+  ): Promise<boolean> {
+    if (!this.isAuthorizationEnabled()) {
+      return true;
+    }
+
+    const policy = this.getPolicy();
+    if (!policy.canUseTool(securityContext.roles, toolName)) {
+      return false;
+    }
+
+    for (const name of PATH_ARGUMENTS) {
+      const value = args?.[name];
+      if (typeof value === 'string' && !(await this.isPathAllowed(policy, securityContext, value))) {
+        return false;
+      }
+    }
+
     return true;
   }
+
+  /**
+   * Check the role policy for a workspace path, such as an entry met while
+   * walking a directory or a file embedded into a prompt
+   */
+  async canAccessPath(securityContext: SecurityContext, path: string): Promise<boolean> {
+    if (!this.isAuthorizationEnabled()) {
+      return true;
+    }
+
+    return this.isPathAllowed(this.getPolicy(), securityContext, path);
+  }
+
+  /**
+   * Check the role policy for a resource URI
+   */
+  async canAccessResource(securityContext: SecurityContext, resourceUri: string): Promise<boolean> {
+    if (!this.isAuthorizationEnabled()) {
+      return true;
+    }
+
+    return this.getPolicy().canAccessResource(securityContext.roles, resourceUri);
+  }
+
+  private async isPathAllowed(policy: AccessPolicy, securityContext: SecurityContext, path: string): Promise<boolean> {
+    const sandbox = new WorkspaceSandbox(this.config.get('workspace'));
+
+    let absolute: string;
+    try {
+      absolute = await sandbox.resolvePath(path, securityContext);
+    } catch {
+      // Deny explicitly rather than rely on the tool to run the sandbox check again
+      return false;
+    }
+
+    const relative = await sandbox.relativeToRoot(absolute, securityContext);
+    return policy.canAccessPath(securityContext.roles, { absolute, relative });
+  }
+
+  private isAuthorizationEnabled(): boolean {
+    return this.config.get('server').security.authorization.enabled;
+  }
+
+  /**
+   * Get the role policy, reloading it when another policy file is configured
+   * or the file is modified
+   */
+  private getPolicy(): AccessPolicy {
+    const { roles, policyFile } = this.config.get('server').security.authorization;
+    const mtimeMs = policyFile ? statSync(policyFile).mtimeMs : undefined;
+
+    if (!this.policy || this.policy.path !== policyFile || this.policy.mtimeMs !== mtimeMs) {
+      const policy = policyFile
+        ? AccessPolicy.fromFile(policyFile, roles)
+        : new AccessPolicy(AccessPolicy.DEFAULT_DOCUMENT, roles);
+      this.policy = { path: policyFile, mtimeMs, policy };
+      this.logger.info('Access policy loaded', { path: policyFile || 'default' });
+    }
+
+    return this.policy.policy;
+  }
+
+  /**
+   * Pick the RS256 public key, by `kid` from the JWKS file or the configured PEM key
+   */
+  private getVerificationKey(jwtConfig: JwtConfig, kid?: string): KeyObject {
+    if (jwtConfig.jwksFile) {
+      const keys = this.loadJwks(jwtConfig.jwksFile);
+      const key = kid ? keys.get(kid) : keys.size === 1 ? keys.values().next().value : undefined;
+      if (key) {
+        return key;
+      }
+      if (!jwtConfig.publicKeyFile) {
+        throw new AuthenticationError(kid ? `Unknown signing key ${kid}` : 'Token does not name a signing key');
+      }
+    }
+
+    if (jwtConfig.publicKeyFile) {
+      if (this.publicKey?.path !== jwtConfig.publicKeyFile) {
+        this.publicKey = {
+          path: jwtConfig.publicKeyFile,
+          key: createPublicKey(readFileSync(jwtConfig.publicKeyFile, 'utf-8')),
+        };
+      }
+      return this.publicKey.key;
+    }
+
+    throw new AuthenticationError('No public key configured for RS256 tokens');
+  }
+
+  /**
+   * Load the RSA signing keys of a JWKS file, indexed by key id
+   */
+  private loadJwks(path: string): Map<string, KeyObject> {
+    if (this.jwks?.path === path) {
+      return this.jwks.keys;
+    }
+
+    const document = JSON.parse(readFileSync(path, 'utf-8')) as { keys?: Array<JsonWebKey & { kid?: string; use?: string }> };
+    const keys = new Map<string, KeyObject>();
+
+    (document.keys || [])
+      .filter(jwk => jwk.kty === 'RSA' && jwk.use !== 'enc')
+      .forEach((jwk, index) => {
+        keys.set(jwk.kid || `key-${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+      });
+
+    this.logger.info('JWKS loaded', { path, keys: keys.size });
+    this.jwks = { path, keys };
+    return keys;
+  }
+
+  /**
+   * Map verified token claims onto a user
+   */
+  private mapClaimsToUser(payload: JwtPayload, jwtConfig: JwtConfig): User {
+    if (!payload.sub) {
+      throw new AuthenticationError('Token has no subject');
+    }
+
+    const username = [payload['preferred_username'], payload['username'], payload['name']]
+      .find((value): value is string => typeof value === 'string') || payload.sub;
+
+    const roles = this.readListClaim(payload, jwtConfig.rolesClaim || 'roles');
+    const permissions = [
+      ...this.readListClaim(payload, jwtConfig.permissionsClaim || 'permissions'),
+      ...this.readListClaim(payload, 'scope'),
+      ...this.getPolicy().grantedPermissions(roles),
+    ];
+
+    return {
+      id: payload.sub,
+      username,
+      roles: Array.from(new Set(roles)),
+      permissions: Array.from(new Set(permissions)),
+    };
+  }
+
+  /**
+   * Read a claim holding an array or a space separated string; dotted names address nested claims
+   */
+  private readListClaim(payload: JwtPayload, claim: string): string[] {
+    const value = claim.split('.').reduce<unknown>(
+      (current, part) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined),
+      payload
+    );
+
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string');
+    }
+    if (typeof value === 'string') {
+      return value.split(/\s+/).filter(Boolean);
+    }
+    return [];
+  }
 }
@@ -0,0 +1,44 @@
+/**
+ * Atomic Write
+ *
+ * Replaces a file by writing a temporary file next to it and renaming it into
+ * place, so readers see either the old or the new content and an interrupted
+ * write leaves the original untouched.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { open, rename, rm, stat } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Write a file atomically, keeping the permissions of the file it replaces
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string | Buffer,
+  encoding: BufferEncoding = 'utf8'
+): Promise<void> {
+  const mode = await stat(filePath).then(stats => stats.mode & 0o7777, () => undefined);
+  const tempPath = join(dirname(filePath), `.${basename(filePath)}.${randomUUID().slice(0, 8)}.tmp`);
+
+  try {
+    const handle = await open(tempPath, 'wx', mode ?? 0o666);
+    try {
+      await handle.writeFile(data, typeof data === 'string' ? encoding : undefined);
+      if (mode !== undefined) {
+        // The umask applies when creating the file, so restore the exact mode
+        await handle.chmod(mode);
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
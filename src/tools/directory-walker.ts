@@ -0,0 +1,202 @@
+/**
+ * Directory Walker
+ *
+ * Walks a directory tree for the listing and search tools. Entries matched by
+ * `.gitignore` and `.ignore` files or by the configured exclude patterns are
+ * skipped along with everything beneath them, as are reserved paths such as
+ * the workspace trash whatever the options. The depth can be limited, and
+ * symlinked directories are followed only when they do not lead back into a
+ * directory that is already being walked.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import type { Stats } from 'fs';
+import { isAbsolute, join, relative, sep } from 'path';
+import { IgnoreRule, isIgnored, parseIgnoreRules } from '@/tools/ignore-rules';
+
+const IGNORE_FILES = ['.gitignore', '.ignore'];
+
+export interface WalkOptions {
+  /** Directory levels to walk; 1 yields only the entries of the start directory */
+  readonly maxDepth: number;
+  readonly includeHidden: boolean;
+  /** Walk paths that ignore files and exclude patterns would skip */
+  readonly includeIgnored: boolean;
+  /** Ignore-file style patterns, relative to `root` */
+  readonly exclude: readonly string[];
+  /** Paths relative to `root` that are never walked, even with hidden and ignored entries included */
+  readonly reserved?: readonly string[];
+  /**
+   * Directory that relative paths and exclude patterns are based on; ignore files
+   * between it and the start directory apply too. Defaults to the start directory.
+   */
+  readonly root?: string;
+  /** Decide whether a symlink may be followed */
+  readonly canFollow: (path: string) => Promise<boolean>;
+  /**
+   * Decide whether an entry may be yielded; directories are walked either way,
+   * as entries below a refused one may still be allowed
+   */
+  readonly canAccess?: (path: string) => Promise<boolean>;
+  readonly signal?: AbortSignal;
+}
+
+export interface WalkEntry {
+  readonly name: string;
+  readonly path: string;
+  readonly stats: Stats;
+  /** 1 for entries of the start directory */
+  readonly depth: number;
+}
+
+/**
+ * Yield the entries below a directory, each directory before its contents
+ */
+export async function* walkDirectory(start: string, options: WalkOptions): AsyncGenerator<WalkEntry> {
+  const root = options.root !== undefined && toRelative(options.root, start) !== undefined ? options.root : start;
+
+  let rules: IgnoreRule[] = [];
+  if (!options.includeIgnored) {
+    rules = parseIgnoreRules(options.exclude.join('\n'));
+    // Ignore files above the start directory apply to it as well
+    const segments = toRelative(root, start)!.split('/').filter(Boolean);
+    for (let depth = 0; depth < segments.length; depth++) {
+      const base = segments.slice(0, depth).join('/');
+      rules.push(...await readIgnoreFiles(join(root, ...segments.slice(0, depth)), base));
+    }
+  }
+
+  const startStats = await stat(start);
+  yield* walk(start, 1, rules, [identity(startStats)], root, options);
+}
+
+/**
+ * Check whether a walk from `root` would reach a path: neither it nor a directory
+ * above it is hidden (unless hidden entries are included) or ignored
+ */
+export async function isWalked(
+  root: string,
+  path: string,
+  isDirectory: boolean,
+  options: Pick<WalkOptions, 'includeHidden' | 'includeIgnored' | 'exclude' | 'reserved'>
+): Promise<boolean> {
+  const segments = toRelative(root, path)?.split('/').filter(Boolean);
+  if (!segments || segments.length === 0) {
+    return false;
+  }
+  if (segments.some((_segment, depth) => isReserved(segments.slice(0, depth + 1).join('/'), options))) {
+    return false;
+  }
+
+  const rules = options.includeIgnored ? [] : parseIgnoreRules(options.exclude.join('\n'));
+  for (let depth = 0; depth < segments.length; depth++) {
+    if (!options.includeHidden && segments[depth]!.startsWith('.')) {
+      return false;
+    }
+    if (options.includeIgnored) {
+      continue;
+    }
+
+    rules.push(...await readIgnoreFiles(join(root, ...segments.slice(0, depth)), segments.slice(0, depth).join('/')));
+    const last = depth === segments.length - 1;
+    if (isIgnored(rules, segments.slice(0, depth + 1).join('/'), last ? isDirectory : true)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function* walk(
+  directory: string,
+  depth: number,
+  inherited: readonly IgnoreRule[],
+  ancestors: readonly string[],
+  root: string,
+  options: WalkOptions
+): AsyncGenerator<WalkEntry> {
+  options.signal?.throwIfAborted();
+
+  const rules = options.includeIgnored
+    ? inherited
+    : [...inherited, ...await readIgnoreFiles(directory, toRelative(root, directory)!)];
+  const entries = await readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries) {
+    // Stop walking once the call is cancelled or timed out
+    options.signal?.throwIfAborted();
+
+    if (!options.includeHidden && entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const path = join(directory, entry.name);
+    if (isReserved(toRelative(root, path)!, options)) {
+      continue;
+    }
+    if (entry.isSymbolicLink() && !(await options.canFollow(path))) {
+      continue;
+    }
+
+    let stats: Stats;
+    try {
+      stats = await stat(path);
+    } catch (error) {
+      // Broken symlinks and entries removed during the walk are skipped
+      if (['ENOENT', 'ELOOP'].includes((error as NodeJS.ErrnoException).code ?? '')) {
+        continue;
+      }
+      throw error;
+    }
+
+    const isDirectory = stats.isDirectory();
+    if (!options.includeIgnored && isIgnored(rules, toRelative(root, path)!, isDirectory)) {
+      continue;
+    }
+
+    if (!options.canAccess || await options.canAccess(path)) {
+      yield { name: entry.name, path, stats, depth };
+    }
+
+    if (isDirectory && depth < options.maxDepth) {
+      // A symlink back to a directory being walked would otherwise recurse forever
+      const id = identity(stats);
+      if (!ancestors.includes(id)) {
+        yield* walk(path, depth + 1, rules, [...ancestors, id], root, options);
+      }
+    }
+  }
+}
+
+async function readIgnoreFiles(directory: string, base: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  for (const name of IGNORE_FILES) {
+    try {
+      rules.push(...parseIgnoreRules(await readFile(join(directory, name), 'utf8'), base));
+    } catch {
+      // Most directories have no ignore file
+    }
+  }
+  return rules;
+}
+
+function isReserved(rel: string, options: Pick<WalkOptions, 'reserved'>): boolean {
+  return options.reserved?.includes(rel) ?? false;
+}
+
+/**
+ * Path below `root` with `/` separators, or undefined when it is not below it
+ */
+function toRelative(root: string, path: string): string | undefined {
+  const rel = relative(root, path);
+  if (rel === '..' || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    return undefined;
+  }
+  return rel.split(sep).join('/');
+}
+
+function identity(stats: Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
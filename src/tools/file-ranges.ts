@@ -0,0 +1,284 @@
+/**
+ * File Ranges
+ *
+ * Reads part of a file without loading all of it: a run of lines, a run of
+ * bytes or the end of the file. Every range stops at a byte budget and tells
+ * where the next one starts, which read_file hands out as a continuation
+ * cursor.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { open } from 'fs/promises';
+import { ToolValidationError } from '@/tools/tool-errors';
+
+const BLOCK_SIZE = 64 * 1024;
+const NEWLINE = 0x0a;
+
+export type ReadUnit = 'lines' | 'bytes';
+
+/**
+ * Where a range starts: a byte position and, when known, the index of the line it falls in
+ */
+export interface ReadPosition {
+  readonly position: number;
+  readonly line: number | undefined;
+}
+
+/**
+ * A range read from a file and where the next range starts
+ */
+export interface FileRange {
+  readonly data: Buffer;
+  readonly start: ReadPosition;
+  readonly next: ReadPosition;
+  /** Complete or partial lines in the range (line reads only) */
+  readonly lines: number;
+  /** The range ends in the middle of a line that is longer than the byte budget */
+  readonly partialLine: boolean;
+  readonly eof: boolean;
+}
+
+/**
+ * State carried from one chunked read to the next
+ */
+export interface ReadCursor {
+  readonly unit: ReadUnit;
+  readonly position: number;
+  readonly line: number | undefined;
+  readonly limit: number | undefined;
+  readonly encoding: string;
+  /** Modification time and SHA-256 of the file when the cursor was issued */
+  readonly mtimeMs: number;
+  readonly hash: string;
+}
+
+/**
+ * Read up to `limit` lines after skipping `skip` lines, within a byte budget
+ */
+export async function readLineRange(
+  filePath: string,
+  from: ReadPosition,
+  skip: number,
+  limit: number | undefined,
+  maxBytes: number,
+  signal?: AbortSignal
+): Promise<FileRange> {
+  const handle = await open(filePath, 'r');
+  const block = Buffer.alloc(BLOCK_SIZE);
+  const chunks: Buffer[] = [];
+  let position = from.position;
+  let line = from.line;
+  let remainingSkip = skip;
+  let collected = 0;
+  let lines = 0;
+  let atLineStart = true;
+  let start: ReadPosition | undefined = skip === 0 ? from : undefined;
+
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      const { bytesRead } = await handle.read(block, 0, BLOCK_SIZE, position);
+      if (bytesRead === 0) {
+        // A last line without a trailing newline still counts
+        if (!atLineStart) {
+          lines++;
+        }
+        return finish(true, false);
+      }
+
+      let index = 0;
+      while (index < bytesRead) {
+        const newline = block.indexOf(NEWLINE, index);
+        const found = newline !== -1 && newline < bytesRead;
+        const end = found ? newline + 1 : bytesRead;
+
+        if (remainingSkip > 0) {
+          if (found) {
+            remainingSkip--;
+            line = line === undefined ? undefined : line + 1;
+          }
+          position += end - index;
+          index = end;
+          if (remainingSkip === 0) {
+            start = { position, line };
+          }
+          continue;
+        }
+
+        if (limit !== undefined && lines >= limit) {
+          return finish(false, false);
+        }
+
+        const length = end - index;
+        if (collected + length > maxBytes) {
+          // Stop between lines when possible; only a line that alone exceeds the budget is split
+          if (collected > 0 && atLineStart) {
+            return finish(false, false);
+          }
+          const take = utf8Boundary(block, index, maxBytes - collected);
+          chunks.push(Buffer.from(block.subarray(index, index + take)));
+          collected += take;
+          position += take;
+          lines++;
+          return finish(false, true);
+        }
+
+        chunks.push(Buffer.from(block.subarray(index, end)));
+        collected += length;
+        position += length;
+        index = end;
+        atLineStart = found;
+        if (found) {
+          lines++;
+          line = line === undefined ? undefined : line + 1;
+        }
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+
+  function finish(eof: boolean, partialLine: boolean): FileRange {
+    return {
+      data: Buffer.concat(chunks),
+      start: start ?? { position, line },
+      next: { position, line },
+      lines,
+      partialLine,
+      eof,
+    };
+  }
+}
+
+/**
+ * Read up to `length` bytes starting at a byte position
+ */
+export async function readByteRange(
+  filePath: string,
+  position: number,
+  length: number,
+  fileSize: number,
+  keepCharacters: boolean,
+  signal?: AbortSignal
+): Promise<FileRange> {
+  const start = Math.min(position, fileSize);
+  const wanted = Math.max(0, Math.min(length, fileSize - start));
+  const data = Buffer.alloc(wanted);
+
+  const handle = await open(filePath, 'r');
+  try {
+    let read = 0;
+    while (read < wanted) {
+      signal?.throwIfAborted();
+      const { bytesRead } = await handle.read(data, read, Math.min(BLOCK_SIZE, wanted - read), start + read);
+      if (bytesRead === 0) {
+        break;
+      }
+      read += bytesRead;
+    }
+
+    // Text is cut before a partially read character, which then starts the next range
+    const end = keepCharacters && start + read < fileSize ? utf8Boundary(data, 0, read) : read;
+    return {
+      data: data.subarray(0, end),
+      start: { position: start, line: undefined },
+      next: { position: start + end, line: undefined },
+      lines: 0,
+      partialLine: false,
+      eof: start + end >= fileSize,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Find where the last `count` lines of a file start, reading backwards from the end
+ */
+export async function findTailStart(
+  filePath: string,
+  count: number,
+  fileSize: number,
+  signal?: AbortSignal
+): Promise<number> {
+  const handle = await open(filePath, 'r');
+  const block = Buffer.alloc(BLOCK_SIZE);
+  let end = fileSize;
+  let remaining = count;
+  let last = true;
+
+  try {
+    while (end > 0) {
+      signal?.throwIfAborted();
+      const begin = Math.max(0, end - BLOCK_SIZE);
+      const { bytesRead } = await handle.read(block, 0, end - begin, begin);
+
+      for (let index = bytesRead - 1; index >= 0; index--) {
+        // The newline that ends the file does not start another line
+        if (block[index] === NEWLINE && !(last && begin + index === fileSize - 1)) {
+          if (--remaining === 0) {
+            return begin + index + 1;
+          }
+        }
+      }
+      last = false;
+      end = begin;
+    }
+    return 0;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Encode a cursor for the client to send back
+ */
+export function encodeReadCursor(cursor: ReadCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the client, rejecting anything read_file did not issue
+ */
+export function decodeReadCursor(value: string): ReadCursor {
+  let cursor: Partial<ReadCursor>;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new ToolValidationError('Invalid cursor');
+  }
+
+  const isCount = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0;
+  if (
+    (cursor.unit !== 'lines' && cursor.unit !== 'bytes') ||
+    !isCount(cursor.position) ||
+    (cursor.line !== undefined && !isCount(cursor.line)) ||
+    (cursor.limit !== undefined && !isCount(cursor.limit)) ||
+    typeof cursor.encoding !== 'string' ||
+    typeof cursor.mtimeMs !== 'number' ||
+    typeof cursor.hash !== 'string'
+  ) {
+    throw new ToolValidationError('Invalid cursor');
+  }
+  return cursor as ReadCursor;
+}
+
+/**
+ * Largest length up to `length` that does not end inside a UTF-8 character
+ */
+function utf8Boundary(buffer: Buffer, offset: number, length: number): number {
+  // Find where the last character starts, at most three continuation bytes back
+  let lead = length - 1;
+  while (lead > 0 && length - lead < 4 && ((buffer[offset + lead] ?? 0) & 0xc0) === 0x80) {
+    lead--;
+  }
+  if (lead < 0) {
+    return length;
+  }
+
+  const byte = buffer[offset + lead] ?? 0;
+  const size = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+  return lead + size > length ? lead : length;
+}
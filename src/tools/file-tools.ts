@@ -8,13 +8,55 @@
  * @version 1.0.0
  */
 
-import { readFile, writeFile, readdir, stat, access, constants, mkdir } from 'fs/promises';
-import { join, extname, basename, dirname, resolve } from 'path';
+import { readFile, readdir, stat, lstat, access, constants, mkdir, rename, rm, cp } from 'fs/promises';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { createHash, randomUUID } from 'crypto';
+import { join, extname, basename, dirname, relative, isAbsolute, sep } from 'path';
 import mime from 'mime-types';
-import { Tool, Content, ContentType, Logger } from '@/types/mcp';
+import { Tool, Content, ContentType, Logger, SecurityContext, ProgressReporter, PathAuthorizer } from '@/types/mcp';
+import { WorkspaceSandbox, TRASH_DIRECTORY } from '@/core/workspace-sandbox';
+import { createGlobMatcher } from '@/core/glob';
+import { BackupStore } from '@/core/backup-store';
+import { IndexFilter, SearchIndex } from '@/core/search-index';
+import {
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  SizeLimitError,
+  ToolError,
+  ToolValidationError,
+  toToolError,
+} from '@/tools/tool-errors';
+import {
+  FileRange,
+  ReadUnit,
+  decodeReadCursor,
+  encodeReadCursor,
+  findTailStart,
+  readByteRange,
+  readLineRange,
+} from '@/tools/file-ranges';
+import {
+  SearchReplaceEdit,
+  applySearchReplace,
+  applyUnifiedDiff,
+  countDiffLines,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+} from '@/tools/text-patch';
+import { writeFileAtomic } from '@/tools/atomic-write';
+import { ExcerptOptions, TextMatches, compileQuery, matchText } from '@/tools/text-search';
+import { WalkOptions, walkDirectory } from '@/tools/directory-walker';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class FileOperationTools {
   private readonly logger: Logger;
+  private readonly workspace: WorkspaceSandbox;
+  private readonly backups: BackupStore | undefined;
+  private readonly searchIndex: SearchIndex | undefined;
+  private readonly authorizePath: PathAuthorizer | undefined;
   private readonly maxFileSize = 50 * 1024 * 1024; // 50MB
   private readonly allowedExtensions = [
     // Text files
@@ -32,8 +74,18 @@ export class FileOperationTools {
     '.geojson', '.gpx', '.kml', '.rss', '.atom', '.opml', '.vcf', '.ics'
   ];
 
-  constructor(logger: Logger) {
+  constructor(
+    logger: Logger,
+    workspace?: WorkspaceSandbox,
+    backups?: BackupStore,
+    searchIndex?: SearchIndex,
+    authorizePath?: PathAuthorizer
+  ) {
     this.logger = logger;
+    this.workspace = workspace || new WorkspaceSandbox({ roots: [process.cwd()], userRoots: {} });
+    this.backups = backups;
+    this.searchIndex = searchIndex;
+    this.authorizePath = authorizePath;
   }
 
   /**
@@ -43,7 +95,7 @@ export class FileOperationTools {
     return [
       {
         name: 'read_file',
-        description: 'Read a text or binary file from the filesystem with smart encoding detection',
+        description: 'Read a text or binary file, or a range of its lines or bytes, with smart encoding detection',
         inputSchema: {
           type: 'object',
           properties: {
@@ -62,7 +114,31 @@ export class FileOperationTools {
               default: 1048576, // 1MB
               minimum: 1024,
               maximum: 52428800, // 50MB
-              description: 'Maximum file size to read in bytes'
+              description: 'Maximum bytes to return; the rest of a larger file is read with the returned cursor'
+            },
+            unit: {
+              type: 'string',
+              enum: ['lines', 'bytes'],
+              description: 'Whether offset, limit and tail count lines or bytes (lines by default, bytes for base64)'
+            },
+            offset: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Number of lines or bytes to skip from the start of the file'
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Maximum number of lines or bytes to return'
+            },
+            tail: {
+              type: 'integer',
+              minimum: 1,
+              description: 'Read the last N lines or bytes of the file instead'
+            },
+            cursor: {
+              type: 'string',
+              description: 'Continuation cursor from a previous read_file call; continues where that call stopped'
             }
           },
           required: ['path']
@@ -70,7 +146,7 @@ export class FileOperationTools {
       },
       {
         name: 'write_file',
-        description: 'Write content to a file with automatic directory creation',
+        description: 'Atomically write content to a file, optionally only if it is unchanged since it was read',
         inputSchema: {
           type: 'object',
           properties: {
@@ -96,12 +172,197 @@ export class FileOperationTools {
             backup: {
               type: 'boolean',
               default: false,
-              description: 'Create backup of existing file'
+              description: 'Save the current content in the backup store first (see list_file_versions)'
+            },
+            expected_hash: {
+              type: 'string',
+              pattern: '^[0-9a-fA-F]{64}$',
+              description: 'SHA-256 the file must still have, as returned by read_file; the write fails if it changed'
+            },
+            expected_mtime: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Modification time the file must still have, as returned by read_file'
             }
           },
           required: ['path', 'content']
         }
       },
+      {
+        name: 'edit_file',
+        description: 'Edit a text file with search/replace blocks or a unified diff and return the resulting diff',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the file to edit'
+            },
+            edits: {
+              type: 'array',
+              minItems: 1,
+              description: 'Search/replace blocks applied in order; each search text must occur exactly once',
+              items: {
+                type: 'object',
+                properties: {
+                  search: {
+                    type: 'string',
+                    minLength: 1,
+                    description: 'Exact text to replace, including enough context to be unique'
+                  },
+                  replace: {
+                    type: 'string',
+                    description: 'Replacement text'
+                  }
+                },
+                required: ['search', 'replace'],
+                additionalProperties: false
+              }
+            },
+            diff: {
+              type: 'string',
+              description: 'Unified diff for this file; each hunk must match exactly one place'
+            },
+            dry_run: {
+              type: 'boolean',
+              default: false,
+              description: 'Return the diff without changing the file'
+            },
+            backup: {
+              type: 'boolean',
+              default: false,
+              description: 'Save the current content in the backup store first (see list_file_versions)'
+            }
+          },
+          required: ['path']
+        }
+      },
+      {
+        name: 'list_file_versions',
+        description: 'List the earlier versions of a file kept in the backup store',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path of the file'
+            }
+          },
+          required: ['path']
+        }
+      },
+      {
+        name: 'restore_file_version',
+        description: 'Restore a file to a version from the backup store, backing up its current content first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path of the file to restore'
+            },
+            version_id: {
+              type: 'string',
+              description: 'Version to restore, as listed by list_file_versions'
+            },
+            dry_run: {
+              type: 'boolean',
+              default: false,
+              description: 'Return the diff without changing the file'
+            }
+          },
+          required: ['path', 'version_id']
+        }
+      },
+      {
+        name: 'move_file',
+        description: 'Move or rename a file or directory',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'Path of the file or directory to move'
+            },
+            destination: {
+              type: 'string',
+              description: 'New path, including the new name'
+            },
+            overwrite: {
+              type: 'boolean',
+              default: false,
+              description: 'Replace the destination if it already exists'
+            }
+          },
+          required: ['source', 'destination']
+        }
+      },
+      {
+        name: 'copy_file',
+        description: 'Copy a file, or a directory with everything in it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source: {
+              type: 'string',
+              description: 'Path of the file or directory to copy'
+            },
+            destination: {
+              type: 'string',
+              description: 'Path of the copy, including its name'
+            },
+            recursive: {
+              type: 'boolean',
+              default: false,
+              description: 'Copy a directory and its contents'
+            },
+            overwrite: {
+              type: 'boolean',
+              default: false,
+              description: 'Replace files that already exist at the destination'
+            }
+          },
+          required: ['source', 'destination']
+        }
+      },
+      {
+        name: 'delete_file',
+        description: 'Delete a file or directory, by default by moving it to the workspace trash',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path of the file or directory to delete'
+            },
+            recursive: {
+              type: 'boolean',
+              default: false,
+              description: 'Delete a directory that is not empty'
+            },
+            trash: {
+              type: 'boolean',
+              default: true,
+              description: `Move it to ${TRASH_DIRECTORY} in its workspace root instead of deleting it for good`
+            }
+          },
+          required: ['path']
+        }
+      },
+      {
+        name: 'create_directory',
+        description: 'Create a directory and any missing parent directories',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path of the directory to create'
+            }
+          },
+          required: ['path']
+        }
+      },
       {
         name: 'list_directory',
         description: 'List directory contents with detailed file information',
@@ -122,10 +383,27 @@ export class FileOperationTools {
               default: false,
               description: 'Include hidden files and directories'
             },
+            include_ignored: {
+              type: 'boolean',
+              default: false,
+              description: 'Include entries matched by .gitignore, .ignore or the configured exclude patterns'
+            },
+            max_depth: {
+              type: 'number',
+              minimum: 1,
+              description: 'How many directory levels a recursive listing descends; 1 lists only this directory'
+            },
             filter_extension: {
               type: 'string',
               description: 'Filter files by extension (e.g., ".txt", ".js")'
             },
+            pattern: {
+              anyOf: [
+                { type: 'string' },
+                { type: 'array', items: { type: 'string' } }
+              ],
+              description: 'Only list entries matching this glob or list of globs, as in search_files'
+            },
             sort_by: {
               type: 'string',
               enum: ['name', 'size', 'modified', 'type'],
@@ -166,24 +444,80 @@ export class FileOperationTools {
               description: 'Directory to search in'
             },
             pattern: {
-              type: 'string',
-              description: 'File name pattern (supports wildcards like *.js)'
+              anyOf: [
+                { type: 'string' },
+                { type: 'array', items: { type: 'string' } }
+              ],
+              description: 'Glob or list of globs, such as "*.ts" or ["src/**/*.ts", "!**/*.test.ts"]; ' +
+                'globs without a slash match file names at any depth, a leading "!" excludes'
             },
             content_search: {
               type: 'string',
-              description: 'Search for text content within files'
+              description: 'Search for text content within files; with a name pattern, only matching files are searched'
+            },
+            regex: {
+              type: 'boolean',
+              default: false,
+              description: 'Treat content_search as a JavaScript regular expression (at most 1000 characters)'
+            },
+            whole_word: {
+              type: 'boolean',
+              default: false,
+              description: 'Only match content_search as a whole word'
             },
             case_sensitive: {
               type: 'boolean',
               default: false,
               description: 'Case sensitive search'
             },
+            context_lines: {
+              type: 'number',
+              default: 0,
+              minimum: 0,
+              maximum: 20,
+              description: 'Lines of context to show before and after each matching line'
+            },
+            before_context: {
+              type: 'number',
+              minimum: 0,
+              maximum: 20,
+              description: 'Lines of context before each matching line, overriding context_lines'
+            },
+            after_context: {
+              type: 'number',
+              minimum: 0,
+              maximum: 20,
+              description: 'Lines of context after each matching line, overriding context_lines'
+            },
+            output_mode: {
+              type: 'string',
+              enum: ['content', 'files_with_matches', 'count'],
+              default: 'content',
+              description: 'Show matching lines, only the files that match, or the number of matching lines per file'
+            },
+            max_matches_per_file: {
+              type: 'number',
+              default: 50,
+              minimum: 1,
+              maximum: 1000,
+              description: 'Maximum number of matching lines to show per file'
+            },
+            max_depth: {
+              type: 'number',
+              minimum: 1,
+              description: 'How many directory levels to search; 1 searches only this directory'
+            },
+            include_ignored: {
+              type: 'boolean',
+              default: false,
+              description: 'Also search files matched by .gitignore, .ignore or the configured exclude patterns'
+            },
             max_results: {
               type: 'number',
               default: 50,
               minimum: 1,
               maximum: 500,
-              description: 'Maximum number of results to return'
+              description: 'Maximum number of files to return'
             }
           },
           required: ['directory']
@@ -199,61 +533,106 @@ export class FileOperationTools {
     path: string;
     encoding?: 'utf8' | 'base64' | 'binary' | 'auto';
     max_size?: number;
-  }): Promise<{ content: Content[] }> {
+    unit?: ReadUnit;
+    offset?: number;
+    limit?: number;
+    tail?: number;
+    cursor?: string;
+  }, securityContext?: SecurityContext, signal?: AbortSignal): Promise<{ content: Content[] }> {
     const startTime = Date.now();
     
     try {
       this.logger.info('Reading file', { path: args.path });
       
       // Validate and resolve path
-      const filePath = resolve(args.path);
+      const filePath = await this.workspace.resolvePath(args.path, securityContext);
       await this.validateFileAccess(filePath, 'read');
       
       const stats = await stat(filePath);
       const maxSize = args.max_size || 1048576; // 1MB default
-      
-      if (stats.size > maxSize) {
-        throw new Error(`File too large: ${stats.size} bytes (max: ${maxSize})`);
+      const cursor = args.cursor !== undefined ? decodeReadCursor(args.cursor) : undefined;
+
+      if (cursor && (args.offset !== undefined || args.tail !== undefined)) {
+        throw new ToolValidationError('cursor cannot be combined with offset or tail');
+      }
+      if (args.tail !== undefined && args.offset !== undefined) {
+        throw new ToolValidationError('tail cannot be combined with offset');
+      }
+      if (cursor && cursor.mtimeMs !== stats.mtimeMs) {
+        throw new ToolValidationError(`${args.path} changed since the cursor was issued; read it again without a cursor`);
       }
 
       // Auto-detect encoding if needed
-      let encoding = args.encoding || 'auto';
+      let encoding = cursor?.encoding ?? args.encoding ?? 'auto';
       if (encoding === 'auto') {
         encoding = this.detectEncoding(filePath);
       }
 
-      // Read file content
-      const content = await readFile(filePath, encoding as BufferEncoding);
-      const ext = extname(filePath).toLowerCase();
-      const mimeType = mime.lookup(filePath) || 'application/octet-stream';
-      
+      // Base64 output has no lines, so it is always read by the byte
+      const unit = cursor?.unit ?? args.unit ?? (encoding === 'base64' ? 'bytes' : 'lines');
+      if (unit === 'lines' && encoding === 'base64') {
+        throw new ToolValidationError('base64 content can only be read by the byte');
+      }
+      const limit = args.limit ?? cursor?.limit;
+
+      let range: FileRange;
+      if (unit === 'bytes') {
+        const position = cursor?.position
+          ?? (args.tail !== undefined ? Math.max(0, stats.size - args.tail) : args.offset ?? 0);
+        range = await readByteRange(
+          filePath,
+          position,
+          Math.min(limit ?? args.tail ?? maxSize, maxSize),
+          stats.size,
+          encoding !== 'base64' && encoding !== 'binary',
+          signal
+        );
+      } else if (args.tail !== undefined) {
+        // Line numbers are unknown when counting from the end
+        const position = await findTailStart(filePath, args.tail, stats.size, signal);
+        range = await readLineRange(filePath, { position, line: undefined }, 0, limit, maxSize, signal);
+      } else {
+        const from = cursor ? { position: cursor.position, line: cursor.line } : { position: 0, line: 0 };
+        range = await readLineRange(filePath, from, args.offset ?? 0, limit, maxSize, signal);
+      }
+
+      // Hashed once per file version; later chunks take it from the cursor
+      const hash = cursor?.hash ?? await this.hashFile(filePath, signal);
+      const next = range.eof ? undefined : encodeReadCursor({
+        unit,
+        position: range.next.position,
+        line: range.next.line,
+        limit,
+        encoding,
+        mtimeMs: stats.mtimeMs,
+        hash,
+      });
+
       const duration = Date.now() - startTime;
       this.logger.info('File read completed', { 
         path: args.path, 
         size: stats.size,
+        bytesRead: range.data.length,
         encoding,
         duration: `${duration}ms`
       });
 
       return {
-        content: [{
-          type: ContentType.TEXT,
-          text: this.formatFileContent({
-            path: filePath,
-            filename: basename(filePath),
-            size: stats.size,
-            encoding,
-            mimeType,
-            extension: ext,
-            modified: stats.mtime.toISOString(),
-            content: content.toString()
-          })
-        }]
+        content: [
+          {
+            type: ContentType.TEXT,
+            text: range.data.toString(encoding as BufferEncoding)
+          },
+          {
+            type: ContentType.TEXT,
+            text: this.formatReadRange(filePath, unit, range, stats, hash, next)
+          }
+        ]
       };
 
     } catch (error) {
       this.logger.error('File read failed', error as Error, { path: args.path });
-      throw error;
+      throw toToolError(error, args.path);
     }
   }
 
@@ -266,12 +645,18 @@ export class FileOperationTools {
     encoding?: 'utf8' | 'base64';
     create_dirs?: boolean;
     backup?: boolean;
-  }): Promise<{ content: Content[] }> {
+    expected_hash?: string;
+    expected_mtime?: string;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
     try {
       this.logger.info('Writing file', { path: args.path });
       
-      const filePath = resolve(args.path);
+      const filePath = await this.workspace.resolvePath(args.path, securityContext);
       const encoding = args.encoding || 'utf8';
+
+      if (args.expected_hash !== undefined || args.expected_mtime !== undefined) {
+        await this.checkUnchanged(filePath, args.path, args.expected_hash, args.expected_mtime);
+      }
       
       // Create parent directories if needed
       if (args.create_dirs !== false) {
@@ -279,22 +664,16 @@ export class FileOperationTools {
         await mkdir(dir, { recursive: true });
       }
 
-      // Create backup if requested and file exists
+      // Keep the current content, if any, in the backup store
       if (args.backup) {
-        try {
-          await access(filePath, constants.F_OK);
-          const backupPath = `${filePath}.backup.${Date.now()}`;
-          const existingContent = await readFile(filePath);
-          await writeFile(backupPath, existingContent);
-          this.logger.info('Backup created', { original: filePath, backup: backupPath });
-        } catch (error) {
-          // File doesn't exist, no backup needed
-        }
+        await this.requireBackups().save(filePath, 'write_file');
       }
 
-      // Write file
-      await writeFile(filePath, args.content, encoding);
+      // Write to a temporary file and rename it, so the file is never seen half written
+      const data = Buffer.from(args.content, encoding);
+      await writeFileAtomic(filePath, data);
       const stats = await stat(filePath);
+      const hash = createHash('sha256').update(data).digest('hex');
       
       this.logger.info('File written successfully', { 
         path: args.path, 
@@ -305,13 +684,342 @@ export class FileOperationTools {
       return {
         content: [{
           type: ContentType.TEXT,
-          text: `✅ File written successfully\n\nDetails:\n• Path: ${filePath}\n• Size: ${this.formatBytes(stats.size)}\n• Encoding: ${encoding}\n• Modified: ${stats.mtime.toISOString()}`
+          text: `✅ File written successfully\n\nDetails:\n• Path: ${filePath}\n• Size: ${this.formatBytes(stats.size)}\n• Encoding: ${encoding}\n• Modified: ${stats.mtime.toISOString()}\n• SHA-256: ${hash}`
         }]
       };
 
     } catch (error) {
       this.logger.error('File write failed', error as Error, { path: args.path });
-      throw error;
+      throw toToolError(error, args.path);
+    }
+  }
+
+  /**
+   * Execute edit file tool
+   */
+  public async executeEditFile(args: {
+    path: string;
+    edits?: SearchReplaceEdit[];
+    diff?: string;
+    dry_run?: boolean;
+    backup?: boolean;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      this.logger.info('Editing file', { path: args.path, dryRun: args.dry_run || false });
+
+      if ((args.edits === undefined) === (args.diff === undefined)) {
+        throw new ToolValidationError('Provide either edits or diff');
+      }
+
+      const filePath = await this.workspace.resolvePath(args.path, securityContext);
+      await this.validateFileAccess(filePath, 'write');
+
+      const stats = await stat(filePath);
+      if (stats.size > this.maxFileSize) {
+        throw new SizeLimitError(args.path, this.maxFileSize, stats.size);
+      }
+
+      const original = await readFile(filePath, 'utf8');
+      const updated = args.edits
+        ? applySearchReplace(original, args.edits)
+        : applyUnifiedDiff(original, parseUnifiedDiff(args.diff!));
+      const displayPath = (await this.workspace.relativeToRoot(filePath, securityContext)) ?? filePath;
+      const diff = createUnifiedDiff(displayPath, original, updated);
+
+      if (!diff) {
+        return {
+          content: [{
+            type: ContentType.TEXT,
+            text: `No changes: the edits leave ${filePath} as it is`
+          }]
+        };
+      }
+
+      if (!args.dry_run) {
+        if (args.backup) {
+          await this.requireBackups().save(filePath, 'edit_file');
+        }
+        await writeFileAtomic(filePath, updated);
+      }
+
+      const { added, removed } = countDiffLines(diff);
+      this.logger.info(args.dry_run ? 'File edit previewed' : 'File edited successfully', {
+        path: args.path,
+        added,
+        removed
+      });
+
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: `${args.dry_run ? '🔍 Dry run, not written' : '✅ File edited'}: ${filePath} (+${added} -${removed})\n\n${diff}`
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('File edit failed', error as Error, { path: args.path });
+      throw toToolError(error, args.path);
+    }
+  }
+
+  /**
+   * Execute list file versions tool
+   */
+  public async executeListFileVersions(args: {
+    path: string;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      const filePath = await this.workspace.resolvePath(args.path, securityContext);
+      const versions = await this.requireBackups().list(filePath);
+
+      const sections = [`🗂️ Versions of ${filePath}: ${versions.length}`];
+      for (const version of versions) {
+        sections.push(
+          `   • ${version.id}  ${version.createdAt}  ${this.formatBytes(version.size)}  ` +
+          `replaced by ${version.reason}  sha256 ${version.hash.slice(0, 12)}`
+        );
+      }
+
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: sections.join('\n')
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('Listing file versions failed', error as Error, { path: args.path });
+      throw toToolError(error, args.path);
+    }
+  }
+
+  /**
+   * Execute restore file version tool
+   */
+  public async executeRestoreFileVersion(args: {
+    path: string;
+    version_id: string;
+    dry_run?: boolean;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      this.logger.info('Restoring file version', { path: args.path, version: args.version_id });
+
+      const filePath = await this.workspace.resolvePath(args.path, securityContext);
+      const backups = this.requireBackups();
+      const saved = await backups.read(filePath, args.version_id);
+      if (!saved) {
+        throw new NotFoundError(`version ${args.version_id} of ${args.path}`);
+      }
+
+      const current = await readFile(filePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return Buffer.alloc(0);
+        }
+        throw error;
+      });
+
+      if (!args.dry_run) {
+        // The content being replaced becomes a version too, so the restore can be undone
+        await backups.save(filePath, 'restore_file_version');
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFileAtomic(filePath, saved.data);
+      }
+
+      const displayPath = (await this.workspace.relativeToRoot(filePath, securityContext)) ?? filePath;
+      const diff = this.isTextFile(filePath)
+        ? createUnifiedDiff(displayPath, current.toString('utf8'), saved.data.toString('utf8'))
+        : '';
+
+      this.logger.info(args.dry_run ? 'File restore previewed' : 'File version restored', {
+        path: args.path,
+        version: args.version_id
+      });
+
+      const summary = `${args.dry_run ? '🔍 Dry run, not written' : '✅ File restored'}: ${filePath} ` +
+        `to version ${saved.version.id} from ${saved.version.createdAt}`;
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: diff ? `${summary}\n\n${diff}` : summary
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('File restore failed', error as Error, { path: args.path });
+      throw toToolError(error, args.path);
+    }
+  }
+
+  /**
+   * Execute move file tool
+   */
+  public async executeMoveFile(args: {
+    source: string;
+    destination: string;
+    overwrite?: boolean;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      this.logger.info('Moving file', { source: args.source, destination: args.destination });
+
+      const source = await this.resolveEntry(args.source, securityContext);
+      const destination = await this.resolveEntry(args.destination, securityContext);
+      const stats = await lstat(source);
+
+      if (source === destination) {
+        throw new ToolValidationError('Source and destination are the same path');
+      }
+      if (stats.isDirectory() && this.isInside(source, destination)) {
+        throw new ToolValidationError(`Cannot move ${args.source} into itself`);
+      }
+      if (this.isInside(destination, source)) {
+        throw new ToolValidationError(`Cannot replace ${args.destination}, which contains ${args.source}`);
+      }
+      await this.authorizeTree(source, destination, args.source, securityContext);
+      await this.prepareDestination(destination, args.destination, args.overwrite);
+      await this.moveEntry(source, destination);
+
+      this.logger.info('File moved', { source: args.source, destination: args.destination });
+
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: `✅ ${stats.isDirectory() ? 'Directory' : 'File'} moved\n\nDetails:\n• From: ${source}\n• To: ${destination}`
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('File move failed', error as Error, { source: args.source, destination: args.destination });
+      throw toToolError(error, args.source);
+    }
+  }
+
+  /**
+   * Execute copy file tool
+   */
+  public async executeCopyFile(args: {
+    source: string;
+    destination: string;
+    recursive?: boolean;
+    overwrite?: boolean;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      this.logger.info('Copying file', { source: args.source, destination: args.destination });
+
+      const source = await this.workspace.resolvePath(args.source, securityContext);
+      const destination = await this.resolveEntry(args.destination, securityContext);
+      const stats = await stat(source);
+
+      if (stats.isDirectory() && !args.recursive) {
+        throw new ToolValidationError(`${args.source} is a directory; pass recursive to copy it`);
+      }
+      if (stats.isDirectory() && this.isInside(source, destination)) {
+        throw new ToolValidationError(`Cannot copy ${args.source} into itself`);
+      }
+      await this.authorizeTree(source, destination, args.source, securityContext);
+      // Replace the destination entry itself, since cp would write through a symlink there
+      await this.prepareDestination(destination, args.destination, args.overwrite);
+
+      // Symlinks are copied as links; tools resolve them against the workspace when they are used
+      await cp(source, destination, {
+        recursive: true,
+        errorOnExist: true,
+        force: false,
+        preserveTimestamps: true,
+        verbatimSymlinks: true
+      });
+
+      this.logger.info('File copied', { source: args.source, destination: args.destination });
+
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: `✅ ${stats.isDirectory() ? 'Directory' : 'File'} copied\n\nDetails:\n• From: ${source}\n• To: ${destination}`
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('File copy failed', error as Error, { source: args.source, destination: args.destination });
+      throw toToolError(error, args.source);
+    }
+  }
+
+  /**
+   * Execute delete file tool
+   */
+  public async executeDeleteFile(args: {
+    path: string;
+    recursive?: boolean;
+    trash?: boolean;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      this.logger.info('Deleting file', { path: args.path, trash: args.trash !== false });
+
+      const target = await this.resolveEntry(args.path, securityContext);
+      const stats = await lstat(target);
+      const kind = stats.isDirectory() ? 'Directory' : 'File';
+
+      if (stats.isDirectory() && !args.recursive && (await readdir(target)).length > 0) {
+        throw new ToolValidationError(`Directory not empty: ${args.path}; pass recursive to delete it`);
+      }
+      await this.authorizeTree(target, undefined, args.path, securityContext);
+
+      let details = `• Path: ${target}`;
+      if (args.trash !== false) {
+        const root = await this.workspace.rootOf(target, securityContext);
+        if (root === null) {
+          throw new ToolError(`No workspace root contains ${args.path}`);
+        }
+        const trashPath = join(root, TRASH_DIRECTORY, `${Date.now()}-${randomUUID().slice(0, 8)}-${basename(target)}`);
+        if (this.isInside(target, trashPath)) {
+          throw new ToolValidationError(`Cannot move ${args.path} to the trash inside it`);
+        }
+        await mkdir(dirname(trashPath), { recursive: true });
+        await this.moveEntry(target, trashPath);
+        await this.pruneTrash(dirname(trashPath), basename(trashPath));
+        details += `\n• Moved to: ${trashPath}`;
+      } else {
+        await rm(target, { recursive: stats.isDirectory() });
+      }
+
+      this.logger.info('File deleted', { path: args.path, trash: args.trash !== false });
+
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: `✅ ${kind} deleted\n\nDetails:\n${details}`
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('File deletion failed', error as Error, { path: args.path });
+      throw toToolError(error, args.path);
+    }
+  }
+
+  /**
+   * Execute create directory tool
+   */
+  public async executeCreateDirectory(args: {
+    path: string;
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
+    try {
+      this.logger.info('Creating directory', { path: args.path });
+
+      const dirPath = await this.workspace.resolvePath(args.path, securityContext);
+      const created = await mkdir(dirPath, { recursive: true });
+
+      this.logger.info(created ? 'Directory created' : 'Directory already exists', { path: args.path });
+
+      return {
+        content: [{
+          type: ContentType.TEXT,
+          text: created ? `✅ Directory created: ${dirPath}` : `Directory already exists: ${dirPath}`
+        }]
+      };
+
+    } catch (error) {
+      this.logger.error('Directory creation failed', error as Error, { path: args.path });
+      throw toToolError(error, args.path);
     }
   }
 
@@ -322,20 +1030,34 @@ export class FileOperationTools {
     path: string;
     recursive?: boolean;
     include_hidden?: boolean;
+    include_ignored?: boolean;
+    max_depth?: number;
     filter_extension?: string;
+    pattern?: string | string[];
     sort_by?: 'name' | 'size' | 'modified' | 'type';
-  }): Promise<{ content: Content[] }> {
+  }, securityContext?: SecurityContext, signal?: AbortSignal, progress?: ProgressReporter): Promise<{ content: Content[] }> {
     try {
       this.logger.info('Listing directory', { path: args.path });
       
-      const dirPath = resolve(args.path);
+      const dirPath = await this.workspace.resolvePath(args.path, securityContext);
       await access(dirPath, constants.F_OK | constants.R_OK);
+
+      // Only recursive listings take long enough to be worth reporting
+      let listed = 0;
+      const onEntryListed = progress && args.recursive
+        ? () => progress(++listed, undefined, `Listed ${listed} entries`)
+        : undefined;
       
       const items = await this.listDirectoryRecursive(
         dirPath,
-        args.recursive || false,
-        args.include_hidden || false,
-        args.filter_extension
+        await this.walkOptions(dirPath, {
+          maxDepth: args.recursive ? args.max_depth ?? Infinity : 1,
+          includeHidden: args.include_hidden || false,
+          includeIgnored: args.include_ignored || false
+        }, securityContext, signal),
+        args.filter_extension,
+        this.createPathFilter(args.pattern, true),
+        onEntryListed
       );
 
       // Sort items
@@ -367,7 +1089,7 @@ export class FileOperationTools {
 
     } catch (error) {
       this.logger.error('Directory listing failed', error as Error, { path: args.path });
-      throw error;
+      throw toToolError(error, args.path);
     }
   }
 
@@ -377,11 +1099,11 @@ export class FileOperationTools {
   public async executeGetFileInfo(args: {
     path: string;
     include_content_preview?: boolean;
-  }): Promise<{ content: Content[] }> {
+  }, securityContext?: SecurityContext): Promise<{ content: Content[] }> {
     try {
       this.logger.info('Getting file info', { path: args.path });
       
-      const filePath = resolve(args.path);
+      const filePath = await this.workspace.resolvePath(args.path, securityContext);
       await access(filePath, constants.F_OK);
       
       const stats = await stat(filePath);
@@ -430,7 +1152,7 @@ export class FileOperationTools {
 
     } catch (error) {
       this.logger.error('Get file info failed', error as Error, { path: args.path });
-      throw error;
+      throw toToolError(error, args.path);
     }
   }
 
@@ -439,58 +1161,274 @@ export class FileOperationTools {
    */
   public async executeSearchFiles(args: {
     directory: string;
-    pattern?: string;
+    pattern?: string | string[];
     content_search?: string;
+    regex?: boolean;
+    whole_word?: boolean;
     case_sensitive?: boolean;
+    context_lines?: number;
+    before_context?: number;
+    after_context?: number;
+    output_mode?: SearchOutputMode;
+    max_matches_per_file?: number;
+    max_depth?: number;
+    include_ignored?: boolean;
     max_results?: number;
-  }): Promise<{ content: Content[] }> {
+  }, securityContext?: SecurityContext, signal?: AbortSignal, progress?: ProgressReporter): Promise<{ content: Content[] }> {
     try {
       this.logger.info('Searching files', { 
         directory: args.directory,
         pattern: args.pattern,
         contentSearch: args.content_search
       });
+
+      const outputMode = args.output_mode || 'content';
+      if (outputMode === 'count' && args.content_search === undefined) {
+        throw new ToolValidationError('output_mode "count" needs content_search');
+      }
       
-      const dirPath = resolve(args.directory);
+      const dirPath = await this.workspace.resolvePath(args.directory, securityContext);
       await access(dirPath, constants.F_OK | constants.R_OK);
       
       const maxResults = args.max_results || 50;
-      const results: Array<{
-        path: string;
-        name: string;
-        size: number;
-        modified: string;
-        matchType: 'name' | 'content';
-        matchDetails?: string;
-      }> = [];
+      const walkOptions = await this.walkOptions(dirPath, {
+        maxDepth: args.max_depth ?? Infinity,
+        includeHidden: true,
+        includeIgnored: args.include_ignored || false
+      }, securityContext, signal);
+      // The index covers literal queries over the files a default walk reaches
+      const indexFilter = args.content_search !== undefined && !args.regex && !args.include_ignored && walkOptions.root
+        ? this.searchIndex?.lookup(walkOptions.root, args.content_search)
+        : undefined;
+      const criteria: SearchCriteria = {
+        pathFilter: this.createPathFilter(args.pattern, args.case_sensitive || false),
+        query: args.content_search === undefined ? undefined : compileQuery(args.content_search, {
+          regex: args.regex || false,
+          wholeWord: args.whole_word || false,
+          caseSensitive: args.case_sensitive || false
+        }),
+        excerpt: outputMode === 'content'
+          ? {
+              before: args.before_context ?? args.context_lines ?? 0,
+              after: args.after_context ?? args.context_lines ?? 0,
+              maxLines: args.max_matches_per_file || 50
+            }
+          : undefined,
+        indexFilter
+      };
+      const results: SearchResult[] = [];
+
+      let scanned = 0;
+      const onFileScanned = progress
+        ? () => progress(++scanned, undefined, `Scanned ${scanned} files`)
+        : undefined;
 
       await this.searchInDirectory(
         dirPath,
-        args.pattern,
-        args.content_search,
-        args.case_sensitive || false,
+        criteria,
         results,
-        maxResults
+        maxResults,
+        walkOptions,
+        onFileScanned
       );
 
       this.logger.info('File search completed', { 
         directory: args.directory,
-        resultsFound: results.length
+        resultsFound: results.length,
+        indexed: indexFilter !== undefined
       });
 
       return {
         content: [{
           type: ContentType.TEXT,
-          text: this.formatSearchResults(dirPath, results, args)
+          text: this.formatSearchResults(dirPath, results, { ...args, output_mode: outputMode })
         }]
       };
 
     } catch (error) {
       this.logger.error('File search failed', error as Error, { directory: args.directory });
-      throw error;
+      throw toToolError(error, args.directory);
+    }
+  }
+
+  /**
+   * Resolve a path to the entry it names, without following a symlink in its
+   * last segment, so moving or deleting a link affects the link itself
+   */
+  private async resolveEntry(path: string, securityContext?: SecurityContext): Promise<string> {
+    const name = basename(path);
+    if (name === '' || name === '.' || name === '..') {
+      throw new ToolValidationError(`Not a file or directory name: ${path}`);
+    }
+    return join(await this.workspace.resolvePath(dirname(path), securityContext), name);
+  }
+
+  /**
+   * Refuse to move, copy or delete a directory when the caller's role may not
+   * touch an entry below it, or the path that entry would end up at
+   */
+  private async authorizeTree(
+    source: string,
+    destination: string | undefined,
+    displayPath: string,
+    securityContext?: SecurityContext
+  ): Promise<void> {
+    if (!this.authorizePath || !securityContext || !(await lstat(source)).isDirectory()) {
+      return;
+    }
+
+    for await (const entry of walkDirectory(source, {
+      maxDepth: Infinity,
+      includeHidden: true,
+      includeIgnored: true,
+      exclude: [],
+      canFollow: async () => false
+    })) {
+      const target = destination === undefined ? undefined : join(destination, relative(source, entry.path));
+      if (!(await this.authorizePath(securityContext, entry.path))
+        || (target !== undefined && !(await this.authorizePath(securityContext, target)))) {
+        throw new PermissionDeniedError(displayPath);
+      }
     }
   }
 
+  /**
+   * Make room for a move: create the parent directory and clear an existing entry when allowed
+   */
+  private async prepareDestination(destination: string, displayPath: string, overwrite?: boolean): Promise<void> {
+    if (await this.exists(destination)) {
+      if (!overwrite) {
+        throw new ConflictError(displayPath, 'already exists; pass overwrite to replace it');
+      }
+      await rm(destination, { recursive: true, force: true });
+    }
+    await mkdir(dirname(destination), { recursive: true });
+  }
+
+  /**
+   * Rename an entry, copying it instead when it has to cross file systems
+   */
+  private async moveEntry(source: string, destination: string): Promise<void> {
+    try {
+      await rename(source, destination);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+      await cp(source, destination, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+      await rm(source, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Drop trashed entries beyond the age and total size limits, oldest first.
+   * The entry just trashed is kept even when it alone exceeds the size limit.
+   */
+  private async pruneTrash(trashDirectory: string, keep: string): Promise<void> {
+    try {
+      const { maxAgeDays, maxTotalSizeMb } = this.workspace.getTrashConfig();
+      const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : -Infinity;
+      const limit = maxTotalSizeMb * 1024 * 1024;
+
+      // Entry names start with the time they were trashed at
+      const entries: Array<{ name: string; trashedAt: number; size: number }> = [];
+      for (const name of await readdir(trashDirectory)) {
+        entries.push({ name, trashedAt: parseInt(name, 10) || 0, size: await this.diskUsage(join(trashDirectory, name)) });
+      }
+      entries.sort((a, b) => a.trashedAt - b.trashedAt);
+
+      let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+      let removed = 0;
+      for (const entry of entries) {
+        if (entry.name === keep || (entry.trashedAt >= cutoff && total <= limit)) {
+          continue;
+        }
+        await rm(join(trashDirectory, entry.name), { recursive: true, force: true });
+        total -= entry.size;
+        removed++;
+      }
+
+      if (removed > 0) {
+        this.logger.info('Trash pruned', { directory: trashDirectory, removed });
+      }
+    } catch (error) {
+      // The delete itself succeeded; pruning is retried on the next one
+      this.logger.warn('Failed to prune trash', { directory: trashDirectory, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Get the total size of a file or directory tree, without following symlinks
+   */
+  private async diskUsage(path: string): Promise<number> {
+    const stats = await lstat(path);
+    if (!stats.isDirectory()) {
+      return stats.size;
+    }
+
+    let size = 0;
+    for (const name of await readdir(path)) {
+      size += await this.diskUsage(join(path, name));
+    }
+    return size;
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    return lstat(path).then(() => true, () => false);
+  }
+
+  /**
+   * Check whether a path is a directory or lies beneath it
+   */
+  private isInside(directory: string, path: string): boolean {
+    const rel = relative(directory, path);
+    return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+  }
+
+  /**
+   * Get the backup store, failing when none is configured
+   */
+  private requireBackups(): BackupStore {
+    if (!this.backups) {
+      throw new ToolError('File backups are not configured');
+    }
+    return this.backups;
+  }
+
+  /**
+   * Fail with a conflict unless the file still has the expected hash and modification time
+   */
+  private async checkUnchanged(
+    filePath: string,
+    displayPath: string,
+    expectedHash?: string,
+    expectedMtime?: string
+  ): Promise<void> {
+    const stats = await stat(filePath).catch((error: NodeJS.ErrnoException) => {
+      throw error.code === 'ENOENT' ? new ConflictError(displayPath, 'no longer exists') : error;
+    });
+
+    if (expectedMtime !== undefined && new Date(expectedMtime).getTime() !== stats.mtime.getTime()) {
+      throw new ConflictError(displayPath, `was modified at ${stats.mtime.toISOString()}, not ${expectedMtime}`);
+    }
+
+    if (expectedHash !== undefined) {
+      const hash = await this.hashFile(filePath);
+      if (hash !== expectedHash.toLowerCase()) {
+        throw new ConflictError(displayPath, `changed since it was read (SHA-256 is now ${hash})`);
+      }
+    }
+  }
+
+  /**
+   * Compute the SHA-256 of a file without loading it into memory
+   */
+  private async hashFile(filePath: string, signal?: AbortSignal): Promise<string> {
+    const hash = createHash('sha256');
+    await pipeline(createReadStream(filePath, signal ? { signal } : {}), hash);
+    return hash.digest('hex');
+  }
+
   /**
    * Validate file access permissions
    */
@@ -504,7 +1442,7 @@ export class FileOperationTools {
         await access(filePath, constants.W_OK);
       }
     } catch (error) {
-      throw new Error(`File access denied: ${filePath}`);
+      throw toToolError(error, filePath);
     }
   }
 
@@ -527,7 +1465,7 @@ export class FileOperationTools {
    * Check if file is likely a text file
    */
   private isTextFile(filePath: string): boolean {
-    const ext = extension(filePath).toLowerCase();
+    const ext = extname(filePath).toLowerCase();
     const mimeType = mime.lookup(filePath);
     
     return this.allowedExtensions.includes(ext) || 
@@ -551,58 +1489,34 @@ export class FileOperationTools {
    */
   private async listDirectoryRecursive(
     dirPath: string,
-    recursive: boolean,
-    includeHidden: boolean,
-    filterExtension?: string
-  ): Promise<Array<{
-    name: string;
-    path: string;
-    type: 'file' | 'directory';
-    size: number;
-    modified: string;
-    extension: string;
-    mimeType: string;
-  }>> {
-    const items = await readdir(dirPath, { withFileTypes: true });
-    const results: any[] = [];
-
-    for (const item of items) {
-      // Skip hidden files if not requested
-      if (!includeHidden && item.name.startsWith('.')) {
-        continue;
-      }
+    walkOptions: WalkOptions,
+    filterExtension?: string,
+    pathFilter?: (relativePath: string) => boolean,
+    onEntryListed?: () => void
+  ): Promise<ListedEntry[]> {
+    const results: ListedEntry[] = [];
 
-      const itemPath = join(dirPath, item.name);
-      const stats = await stat(itemPath);
-      const ext = extname(item.name).toLowerCase();
+    for await (const entry of walkDirectory(dirPath, walkOptions)) {
+      const ext = extname(entry.name).toLowerCase();
       
       // Apply extension filter
       if (filterExtension && ext !== filterExtension.toLowerCase()) {
         continue;
       }
+      if (pathFilter && !pathFilter(this.relativePath(dirPath, entry.path))) {
+        continue;
+      }
 
-      const fileInfo = {
-        name: item.name,
-        path: itemPath,
-        type: item.isDirectory() ? 'directory' as const : 'file' as const,
-        size: stats.size,
-        modified: stats.mtime.toISOString(),
+      results.push({
+        name: entry.name,
+        path: entry.path,
+        type: entry.stats.isDirectory() ? 'directory' : 'file',
+        size: entry.stats.size,
+        modified: entry.stats.mtime.toISOString(),
         extension: ext || 'none',
-        mimeType: mime.lookup(itemPath) || 'application/octet-stream'
-      };
-
-      results.push(fileInfo);
-
-      // Recurse into subdirectories
-      if (recursive && item.isDirectory()) {
-        const subItems = await this.listDirectoryRecursive(
-          itemPath,
-          true,
-          includeHidden,
-          filterExtension
-        );
-        results.push(...subItems);
-      }
+        mimeType: mime.lookup(entry.path) || 'application/octet-stream'
+      });
+      onEntryListed?.();
     }
 
     return results;
@@ -613,134 +1527,141 @@ export class FileOperationTools {
    */
   private async searchInDirectory(
     dirPath: string,
-    namePattern?: string,
-    contentSearch?: string,
-    caseSensitive: boolean = false,
-    results: any[] = [],
-    maxResults: number = 50
+    criteria: SearchCriteria,
+    results: SearchResult[],
+    maxResults: number,
+    walkOptions: WalkOptions,
+    onFileScanned?: () => void
   ): Promise<void> {
-    if (results.length >= maxResults) return;
+    for await (const entry of walkDirectory(dirPath, walkOptions)) {
+      if (results.length >= maxResults) break;
 
-    const items = await readdir(dirPath, { withFileTypes: true });
+      if (entry.stats.isDirectory()) {
+        continue;
+      }
 
-    for (const item of items) {
-      if (results.length >= maxResults) break;
+      const { pathFilter, query } = criteria;
 
-      const itemPath = join(dirPath, item.name);
-      
-      if (item.isDirectory()) {
-        // Recurse into subdirectories
-        await this.searchInDirectory(
-          itemPath,
-          namePattern,
-          contentSearch,
-          caseSensitive,
-          results,
-          maxResults
-        );
-      } else {
-        const stats = await stat(itemPath);
-        let matches = false;
-        let matchType: 'name' | 'content' = 'name';
-        let matchDetails = '';
-
-        // Check name pattern
-        if (namePattern) {
-          const pattern = caseSensitive ? namePattern : namePattern.toLowerCase();
-          const name = caseSensitive ? item.name : item.name.toLowerCase();
-          
-          if (this.matchesPattern(name, pattern)) {
-            matches = true;
-            matchType = 'name';
-            matchDetails = `Name matches pattern: ${namePattern}`;
-          }
-        }
+      // A name pattern selects the files; content_search then narrows them down
+      const nameMatches = !pathFilter || pathFilter(this.relativePath(dirPath, entry.path));
 
-        // Check content search
-        if (!matches && contentSearch && this.isTextFile(itemPath) && stats.size < 1048576) { // 1MB limit
-          try {
-            const content = await readFile(itemPath, 'utf8');
-            const searchText = caseSensitive ? contentSearch : contentSearch.toLowerCase();
-            const fileContent = caseSensitive ? content : content.toLowerCase();
-            
-            if (fileContent.includes(searchText)) {
-              matches = true;
-              matchType = 'content';
-              
-              // Find context around match
-              const index = fileContent.indexOf(searchText);
-              const start = Math.max(0, index - 50);
-              const end = Math.min(content.length, index + searchText.length + 50);
-              matchDetails = `Content match: ...${content.substring(start, end)}...`;
-            }
-          } catch (error) {
-            // Skip files that can't be read
+      let contentMatches: TextMatches | undefined;
+      const mayMatch = !criteria.indexFilter || criteria.indexFilter(entry.path, entry.stats);
+      if (nameMatches && query && mayMatch && this.isTextFile(entry.path) && entry.stats.size < 1048576) { // 1MB limit
+        try {
+          const content = await readFile(entry.path, { encoding: 'utf8', signal: walkOptions.signal });
+          contentMatches = matchText(content, query, criteria.excerpt);
+        } catch (error) {
+          // A query that runs out of time fails the search; files that can't be read are skipped
+          if (error instanceof ToolError) {
+            throw error;
           }
+          walkOptions.signal?.throwIfAborted();
         }
+      }
 
-        if (matches || (!namePattern && !contentSearch)) {
-          results.push({
-            path: itemPath,
-            name: item.name,
-            size: stats.size,
-            modified: stats.mtime.toISOString(),
-            matchType,
-            matchDetails
-          });
-        }
+      if (nameMatches && (!query || contentMatches)) {
+        results.push({
+          path: entry.path,
+          name: entry.name,
+          size: entry.stats.size,
+          modified: entry.stats.mtime.toISOString(),
+          matchType: query ? 'content' : 'name',
+          matchDetails: pathFilter && !query ? 'Name matches pattern' : '',
+          ...(contentMatches ? { matches: contentMatches } : {})
+        });
       }
+      onFileScanned?.();
     }
   }
 
   /**
-   * Check if name matches pattern (supports wildcards)
+   * Build the walk options for listing or searching a directory
    */
-  private matchesPattern(name: string, pattern: string): boolean {
-    // Convert wildcard pattern to regex
-    const regexPattern = pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*/g, '.*')
-      .replace(/\?/g, '.');
-    
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(name);
+  private async walkOptions(
+    dirPath: string,
+    options: Pick<WalkOptions, 'maxDepth' | 'includeHidden' | 'includeIgnored'>,
+    securityContext?: SecurityContext,
+    signal?: AbortSignal
+  ): Promise<WalkOptions> {
+    const root = await this.workspace.rootOf(dirPath, securityContext);
+    return {
+      ...options,
+      exclude: this.workspace.getExcludes(),
+      reserved: [TRASH_DIRECTORY],
+      // Never follow symlinks that lead outside the workspace
+      canFollow: path => this.workspace.contains(path, securityContext),
+      // Leave out entries the caller's role may not see
+      ...(this.authorizePath && securityContext
+        ? { canAccess: (path: string) => this.authorizePath!(securityContext, path) }
+        : {}),
+      ...(root !== null ? { root } : {}),
+      ...(signal ? { signal } : {})
+    };
   }
 
   /**
-   * Format file content for display
+   * Compile name globs into a filter on paths relative to the walked directory;
+   * globs without a slash match the name at any depth, as in ignore files
    */
-  private formatFileContent(info: {
-    path: string;
-    filename: string;
-    size: number;
-    encoding: string;
-    mimeType: string;
-    extension: string;
-    modified: string;
-    content: string;
-  }): string {
-    const sections = [
-      '📄 File Content',
-      '='.repeat(80),
-      '',
-      '📋 File Information:',
-      `   • Path: ${info.path}`,
-      `   • Filename: ${info.filename}`,
-      `   • Size: ${this.formatBytes(info.size)}`,
-      `   • Type: ${info.mimeType}`,
-      `   • Extension: ${info.extension || 'none'}`,
-      `   • Encoding: ${info.encoding}`,
-      `   • Modified: ${info.modified}`,
-      '',
-      '📝 Content:',
-      '-'.repeat(40),
-      info.content,
-      '-'.repeat(40),
-      '',
-      `✅ File read completed successfully`
-    ];
+  private createPathFilter(
+    patterns: string | readonly string[] | undefined,
+    caseSensitive: boolean
+  ): ((relativePath: string) => boolean) | undefined {
+    if (patterns === undefined) {
+      return undefined;
+    }
 
-    return sections.join('\n');
+    const globs = (typeof patterns === 'string' ? [patterns] : patterns).map(pattern => {
+      const negated = pattern.startsWith('!');
+      const glob = negated ? pattern.slice(1) : pattern;
+      const anchored = glob.includes('/') ? glob.replace(/^\//, '') : `**/${glob}`;
+      return negated ? `!${anchored}` : anchored;
+    });
+    return createGlobMatcher(globs, { ignoreCase: !caseSensitive });
+  }
+
+  private relativePath(dirPath: string, path: string): string {
+    return relative(dirPath, path).split(sep).join('/');
+  }
+
+  /**
+   * Describe which part of a file was read and how to continue
+   */
+  private formatReadRange(
+    filePath: string,
+    unit: ReadUnit,
+    range: FileRange,
+    stats: { size: number; mtime: Date },
+    hash: string,
+    cursor?: string
+  ): string {
+    const { size } = stats;
+    const end = range.next.position;
+    let description: string;
+    if (unit === 'bytes') {
+      description = `bytes ${range.start.position}-${end} of ${size}`;
+    } else if (range.lines === 0) {
+      description = `no lines, byte ${range.start.position} of ${size}`;
+    } else {
+      const bytes = `bytes ${range.start.position}-${end} of ${size}`;
+      const first = (range.start.line ?? 0) + 1;
+      const last = first + range.lines - 1;
+      if (range.start.line === undefined) {
+        description = `${range.lines} ${range.lines === 1 ? 'line' : 'lines'}, ${bytes}`;
+      } else {
+        description = first === last ? `line ${first}, ${bytes}` : `lines ${first}-${last}, ${bytes}`;
+      }
+      if (range.partialLine) {
+        description += ', last line continues';
+      }
+    }
+
+    // The version fields are what write_file takes as expected_hash and expected_mtime
+    const version = `sha256 ${hash}, modified ${stats.mtime.toISOString()}`;
+    return cursor
+      ? `[${filePath}: ${description}; ${version}; more available, pass cursor "${cursor}" to continue]`
+      : `[${filePath}: ${description}; ${version}; end of file]`;
   }
 
   /**
@@ -821,14 +1742,23 @@ export class FileOperationTools {
   /**
    * Format search results for display
    */
-  private formatSearchResults(dirPath: string, results: any[], options: any): string {
+  private formatSearchResults(dirPath: string, results: SearchResult[], options: {
+    pattern?: string | string[];
+    content_search?: string;
+    regex?: boolean;
+    whole_word?: boolean;
+    case_sensitive?: boolean;
+    output_mode: SearchOutputMode;
+    max_results?: number;
+  }): string {
+    const mode = [options.regex && 'regex', options.whole_word && 'whole word'].filter(Boolean).join(', ');
     const sections = [
       '🔍 File Search Results',
       '='.repeat(80),
       '',
       `📂 Search Directory: ${dirPath}`,
-      `🎯 Name Pattern: ${options.pattern || 'None'}`,
-      `📝 Content Search: ${options.content_search || 'None'}`,
+      `🎯 Name Pattern: ${[options.pattern ?? 'None'].flat().join(', ')}`,
+      `📝 Content Search: ${options.content_search === undefined ? 'None' : options.content_search}${mode ? ` (${mode})` : ''}`,
       `🔤 Case Sensitive: ${options.case_sensitive ? 'Yes' : 'No'}`,
       `📊 Results Found: ${results.length}`,
       `📈 Max Results: ${options.max_results || 50}`,
@@ -839,6 +1769,14 @@ export class FileOperationTools {
 
     if (results.length === 0) {
       sections.push('   No files found matching the criteria.');
+    } else if (options.output_mode === 'files_with_matches') {
+      for (const result of results) {
+        sections.push(`   ${result.path}`);
+      }
+    } else if (options.output_mode === 'count') {
+      for (const result of results) {
+        sections.push(`   ${result.path}: ${result.matches?.lines ?? 0}`);
+      }
     } else {
       for (const result of results) {
         const icon = result.matchType === 'content' ? '📝' : '📄';
@@ -846,7 +1784,14 @@ export class FileOperationTools {
         sections.push(`      Path: ${result.path}`);
         sections.push(`      Size: ${this.formatBytes(result.size)}`);
         sections.push(`      Modified: ${result.modified}`);
-        sections.push(`      Match: ${result.matchDetails || result.matchType}`);
+        if (result.matches) {
+          const { lines, matches, excerpt, truncated } = result.matches;
+          const more = truncated ? ', more lines not shown' : '';
+          sections.push(`      Matches: ${matches} on ${lines} line${lines === 1 ? '' : 's'}${more}`);
+          sections.push(...excerpt.map(line => `         ${line}`));
+        } else {
+          sections.push(`      Match: ${result.matchDetails || result.matchType}`);
+        }
         sections.push('');
       }
     }
@@ -868,3 +1813,36 @@ export class FileOperationTools {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }
 }
+
+interface ListedEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  modified: string;
+  extension: string;
+  mimeType: string;
+}
+
+type SearchOutputMode = 'content' | 'files_with_matches' | 'count';
+
+interface SearchCriteria {
+  /** Name globs; files that do not match are left out */
+  pathFilter: ((relativePath: string) => boolean) | undefined;
+  /** Content query; files whose content does not match are left out */
+  query: RegExp | undefined;
+  /** Excerpt of the matching lines to keep, when the output shows them */
+  excerpt: ExcerptOptions | undefined;
+  /** Files the search index rules out are not read */
+  indexFilter: IndexFilter | undefined;
+}
+
+interface SearchResult {
+  path: string;
+  name: string;
+  size: number;
+  modified: string;
+  matchType: 'name' | 'content';
+  matchDetails: string;
+  matches?: TextMatches;
+}
@@ -0,0 +1,87 @@
+/**
+ * Ignore Rules
+ *
+ * Parses `.gitignore`-style patterns and decides whether a path is ignored.
+ * Rules keep the directory of the file they came from, so patterns with a
+ * slash are anchored there while bare names match at any depth below it.
+ * As in git, the last matching rule wins and `!` re-includes a path.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { globToRegExp } from '@/core/glob';
+
+export interface IgnoreRule {
+  /** Directory of the ignore file, relative to the walk root; empty for the root itself */
+  readonly base: string;
+  readonly regex: RegExp;
+  readonly negated: boolean;
+  readonly directoryOnly: boolean;
+  /** Whether the pattern is matched against the whole relative path rather than the name */
+  readonly anchored: boolean;
+}
+
+/**
+ * Parse the lines of an ignore file found in `base`
+ */
+export function parseIgnoreRules(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are dropped unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated || line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+    if (line === '') {
+      continue;
+    }
+
+    // Ignore files have no brace alternatives
+    rules.push({ base, regex: globToRegExp(line, { braces: false }), negated, directoryOnly, anchored });
+  }
+
+  return rules;
+}
+
+/**
+ * Decide whether a path, relative to the walk root with `/` separators, is ignored
+ */
+export function isIgnored(rules: readonly IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  const name = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base !== '' && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+
+    const subject = rule.anchored
+      ? relativePath.slice(rule.base === '' ? 0 : rule.base.length + 1)
+      : name;
+    if (rule.regex.test(subject)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
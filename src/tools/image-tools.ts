@@ -10,6 +10,7 @@
 
 import { readFile, stat, access, constants } from 'fs/promises';
 import { extname, basename } from 'path';
+import { randomUUID } from 'crypto';
 import sharp from 'sharp';
 import { createWorker, Worker } from 'tesseract.js';
 import exifr from 'exifr';
@@ -23,17 +24,33 @@ import {
   ImageAnalysisResult,
   ImageMetadata,
   TextBlock,
-  Logger 
+  Logger,
+  SecurityContext,
+  ProgressReporter
 } from '@/types/mcp';
+import { WorkspaceSandbox } from '@/core/workspace-sandbox';
+import { writeFileAtomic } from '@/tools/atomic-write';
+import {
+  ToolError,
+  NotFoundError,
+  SizeLimitError,
+  ToolTimeoutError,
+  ToolValidationError,
+  toToolError,
+} from '@/tools/tool-errors';
 
 export class ImageAnalysisTools {
-  private ocrWorker?: Worker;
+  private ocrWorker: Worker | undefined;
+  // Progress reporters of running OCR jobs, by tesseract job id
+  private readonly ocrProgress = new Map<string, ProgressReporter>();
   private readonly logger: Logger;
+  private readonly workspace: WorkspaceSandbox;
   private readonly supportedFormats = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.svg'];
   private readonly maxFileSize = 50 * 1024 * 1024; // 50MB
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, workspace?: WorkspaceSandbox) {
     this.logger = logger;
+    this.workspace = workspace || new WorkspaceSandbox({ roots: [process.cwd()], userRoots: {} });
     this.initializeOCR();
   }
 
@@ -43,13 +60,75 @@ export class ImageAnalysisTools {
   private async initializeOCR(): Promise<void> {
     try {
       this.logger.info('Initializing OCR worker...');
-      this.ocrWorker = await createWorker('eng');
+      this.ocrWorker = await createWorker('eng', undefined, {
+        logger: message => {
+          if (message.status === 'recognizing text') {
+            this.ocrProgress.get(message.jobId)?.(Math.round(message.progress * 100), 100, 'Recognizing text');
+          }
+        },
+        // Failed jobs already reject their own promise; without a handler
+        // tesseract rethrows the error outside it, e.g. when offline
+        errorHandler: error => this.logger.debug('OCR worker reported an error', { error: String(error) }),
+      });
       this.logger.info('OCR worker initialized successfully');
     } catch (error) {
       this.logger.error('Failed to initialize OCR worker', error as Error);
     }
   }
 
+  /**
+   * Run OCR on the shared worker. Tesseract cannot abort a single job, so an
+   * aborted call terminates the worker and starts a fresh one; any other job
+   * running on it at the time fails as well.
+   */
+  private async recognize(
+    image: Buffer,
+    signal?: AbortSignal,
+    options?: Parameters<Worker['recognize']>[1],
+    progress?: ProgressReporter
+  ): ReturnType<Worker['recognize']> {
+    signal?.throwIfAborted();
+    const worker = this.ocrWorker;
+    if (!worker) {
+      throw new ToolError('OCR engine is not available');
+    }
+
+    const stop = () => {
+      void this.restartOCR(worker);
+    };
+    signal?.addEventListener('abort', stop, { once: true });
+
+    const jobId = `ocr-${randomUUID()}`;
+    if (progress) {
+      this.ocrProgress.set(jobId, progress);
+    }
+
+    try {
+      return await worker.recognize(image, options, undefined, jobId);
+    } finally {
+      signal?.removeEventListener('abort', stop);
+      this.ocrProgress.delete(jobId);
+    }
+  }
+
+  /**
+   * Replace an OCR worker whose job has to be stopped
+   */
+  private async restartOCR(worker: Worker): Promise<void> {
+    if (this.ocrWorker !== worker) {
+      return;
+    }
+
+    this.logger.warn('Terminating OCR worker to stop an aborted job');
+    this.ocrWorker = undefined;
+    try {
+      await worker.terminate();
+    } catch (error) {
+      this.logger.warn('Failed to terminate OCR worker', { error: (error as Error).message });
+    }
+    await this.initializeOCR();
+  }
+
   /**
    * Get all image analysis tools
    */
@@ -161,7 +240,7 @@ export class ImageAnalysisTools {
     return_base64?: boolean;
     max_dimension?: number;
     quality?: number;
-  }): Promise<{ content: Content[] }> {
+  }, securityContext?: SecurityContext, signal?: AbortSignal): Promise<{ content: Content[] }> {
     const startTime = Date.now();
     
     try {
@@ -177,7 +256,8 @@ export class ImageAnalysisTools {
       };
 
       // Perform analysis
-      const result = await this.analyzeImage(args.path, options);
+      const imagePath = await this.workspace.resolvePath(args.path, securityContext);
+      const result = await this.analyzeImage(imagePath, options, signal);
       
       const duration = Date.now() - startTime;
       this.logger.info('Image analysis completed', { 
@@ -196,7 +276,7 @@ export class ImageAnalysisTools {
 
     } catch (error) {
       this.logger.error('Image analysis failed', error as Error, { path: args.path });
-      throw error;
+      throw toToolError(error, args.path);
     }
   }
 
@@ -207,14 +287,22 @@ export class ImageAnalysisTools {
     url: string;
     save_path?: string;
     timeout?: number;
-  }): Promise<{ content: Content[] }> {
+  }, securityContext?: SecurityContext, signal?: AbortSignal, progress?: ProgressReporter): Promise<{ content: Content[] }> {
     try {
       this.logger.info('Downloading image', { url: args.url });
+
+      // Resolve the target before downloading so a rejected path costs no bandwidth
+      const requestedPath = args.save_path || `downloaded_image_${Date.now()}`;
+      const targetPath = await this.workspace.resolvePath(requestedPath, securityContext);
       
       const response = await axios.get(args.url, {
         responseType: 'arraybuffer',
         timeout: args.timeout || 30000,
         maxContentLength: this.maxFileSize,
+        ...(signal ? { signal } : {}),
+        ...(progress ? {
+          onDownloadProgress: event => progress(event.loaded, event.total, `Downloaded ${event.loaded} bytes`),
+        } : {}),
         headers: {
           'User-Agent': 'MCP-Enterprise-Server/1.0.0 (Image Downloader)'
         }
@@ -225,11 +313,13 @@ export class ImageAnalysisTools {
       
       // Determine file extension
       const ext = mime.extension(contentType) || 'bin';
-      const filename = args.save_path || `downloaded_image_${Date.now()}.${ext}`;
+      // The extension changes the final name, so check that path on its own
+      const filename = args.save_path
+        ? targetPath
+        : await this.workspace.resolvePath(`${targetPath}.${ext}`, securityContext);
       
       // Save file
-      const fs = await import('fs/promises');
-      await fs.writeFile(filename, buffer);
+      await writeFileAtomic(filename, buffer);
       
       // Basic validation
       if (!this.supportedFormats.includes(`.${ext}`)) {
@@ -254,7 +344,27 @@ export class ImageAnalysisTools {
 
     } catch (error) {
       this.logger.error('Image download failed', error as Error, { url: args.url });
-      throw new Error(`Download failed: ${(error as Error).message}`);
+      if (error instanceof ToolError) {
+        throw error;
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          throw new NotFoundError(args.url);
+        }
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          throw new ToolTimeoutError(`Download of ${args.url}`, args.timeout || 30000);
+        }
+        if (error.message.includes('maxContentLength')) {
+          throw new SizeLimitError(args.url, this.maxFileSize);
+        }
+        throw new ToolError(`Download failed: ${error.message}`);
+      }
+
+      const mapped = toToolError(error, args.save_path || args.url);
+      throw mapped instanceof ToolError ? mapped : new ToolError(`Download failed: ${(error as Error).message}`);
     }
   }
 
@@ -265,19 +375,20 @@ export class ImageAnalysisTools {
     path: string;
     language?: string;
     include_blocks?: boolean;
-  }): Promise<{ content: Content[] }> {
+  }, securityContext?: SecurityContext, signal?: AbortSignal, progress?: ProgressReporter): Promise<{ content: Content[] }> {
     try {
       this.logger.info('Extracting text from image', { path: args.path });
       
       if (!this.ocrWorker) {
-        throw new Error('OCR worker not initialized');
+        throw new ToolError('OCR engine is not available');
       }
 
       // Validate file
-      await this.validateImageFile(args.path);
+      const imagePath = await this.workspace.resolvePath(args.path, securityContext);
+      await this.validateImageFile(imagePath);
       
       // Read and process image
-      const imageBuffer = await readFile(args.path);
+      const imageBuffer = await readFile(imagePath);
       
       // Set language if specified
       const language = args.language || 'eng';
@@ -287,7 +398,7 @@ export class ImageAnalysisTools {
       });
 
       // Perform OCR
-      const { data } = await this.ocrWorker.recognize(imageBuffer, { lang: language });
+      const { data } = await this.recognize(imageBuffer, signal, { lang: language }, progress);
       
       const result = {
         extracted_text: data.text.trim() || 'No text detected',
@@ -312,14 +423,18 @@ export class ImageAnalysisTools {
 
     } catch (error) {
       this.logger.error('Text extraction failed', error as Error, { path: args.path });
-      throw error;
+      throw toToolError(error, args.path);
     }
   }
 
   /**
    * Perform comprehensive image analysis
    */
-  private async analyzeImage(path: string, options: ImageAnalysisOptions): Promise<ImageAnalysisResult> {
+  private async analyzeImage(
+    path: string,
+    options: ImageAnalysisOptions,
+    signal?: AbortSignal
+  ): Promise<ImageAnalysisResult> {
     // Validate file
     await this.validateImageFile(path);
     
@@ -373,7 +488,7 @@ export class ImageAnalysisTools {
     // Add OCR results if requested
     if (options.includeOcr && this.ocrWorker) {
       try {
-        const { data } = await this.ocrWorker.recognize(imageBuffer);
+        const { data } = await this.recognize(imageBuffer, signal);
         result.ocrResults = {
           extractedText: data.text.trim() || 'No text detected',
           confidence: Math.round(data.confidence),
@@ -381,6 +496,9 @@ export class ImageAnalysisTools {
           blocks: this.processTextBlocks(data)
         };
       } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
         result.ocrResults = {
           extractedText: '',
           confidence: 0,
@@ -432,18 +550,22 @@ export class ImageAnalysisTools {
    */
   private async validateImageFile(path: string): Promise<void> {
     // Check file exists and is readable
-    await access(path, constants.F_OK | constants.R_OK);
+    try {
+      await access(path, constants.F_OK | constants.R_OK);
+    } catch (error) {
+      throw toToolError(error, path);
+    }
     
     // Check file size
     const stats = await stat(path);
     if (stats.size > this.maxFileSize) {
-      throw new Error(`File too large: ${stats.size} bytes (max: ${this.maxFileSize})`);
+      throw new SizeLimitError(path, this.maxFileSize, stats.size);
     }
     
     // Check file extension
     const ext = extname(path).toLowerCase();
     if (!this.supportedFormats.includes(ext)) {
-      throw new Error(`Unsupported image format: ${ext}. Supported formats: ${this.supportedFormats.join(', ')}`);
+      throw new ToolValidationError(`Unsupported image format: ${ext}. Supported formats: ${this.supportedFormats.join(', ')}`);
     }
   }
 
@@ -0,0 +1,361 @@
+/**
+ * Text Patches
+ *
+ * Applies edits to text files and describes the result as a unified diff.
+ * Edits come as search/replace blocks or as the hunks of a unified diff;
+ * each has to match exactly one place in the file, so an edit never lands
+ * somewhere the author did not intend.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { ToolValidationError } from '@/tools/tool-errors';
+
+/**
+ * Beyond this many changed lines the diff stops looking for common lines in between
+ */
+const MAX_EDIT_DISTANCE = 1000;
+
+export interface SearchReplaceEdit {
+  readonly search: string;
+  readonly replace: string;
+}
+
+/**
+ * One hunk of a unified diff; `lines` keep their ' ', '-' or '+' prefix
+ */
+export interface DiffHunk {
+  readonly oldStart: number;
+  readonly lines: readonly string[];
+}
+
+/**
+ * Apply search/replace edits in order; each search text must occur exactly once
+ */
+export function applySearchReplace(content: string, edits: readonly SearchReplaceEdit[]): string {
+  const eol = detectEol(content);
+  let result = content;
+
+  edits.forEach((edit, index) => {
+    const search = withEol(edit.search, eol);
+    if (search.length === 0) {
+      throw new ToolValidationError(`Edit ${index + 1}: search text is empty`);
+    }
+
+    const first = result.indexOf(search);
+    if (first === -1) {
+      throw new ToolValidationError(`Edit ${index + 1}: search text not found`);
+    }
+    const matches = countOccurrences(result, search);
+    if (matches > 1) {
+      throw new ToolValidationError(
+        `Edit ${index + 1}: search text found ${matches} times; include surrounding lines to make it unique`
+      );
+    }
+
+    result = result.slice(0, first) + withEol(edit.replace, eol) + result.slice(first + search.length);
+  });
+
+  return result;
+}
+
+/**
+ * Parse the hunks of a unified diff for a single file
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: Array<{ oldStart: number; lines: string[] }> = [];
+  let files = 0;
+  let current: { oldStart: number; lines: string[] } | undefined;
+
+  const lines = diff.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  lines.forEach((line, index) => {
+    const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+    if (header) {
+      current = { oldStart: Number(header[1]), lines: [] };
+      hunks.push(current);
+    } else if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+      // File headers end the previous hunk; anything else starting with '-' is a removed line
+      files++;
+      current = undefined;
+    } else if (line.startsWith('+++ ') && lines[index - 1]?.startsWith('--- ')) {
+      current = undefined;
+    } else if (current && (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+'))) {
+      current.lines.push(line);
+    } else if (current && line === '') {
+      // Editors often strip the leading space of empty context lines
+      current.lines.push(' ');
+    } else if (current && !line.startsWith('\\')) {
+      current = undefined;
+    }
+  });
+
+  if (files > 1) {
+    throw new ToolValidationError('The diff changes more than one file');
+  }
+  if (hunks.length === 0) {
+    throw new ToolValidationError('The diff contains no hunks');
+  }
+  return hunks;
+}
+
+/**
+ * Apply diff hunks, locating each by its context and removed lines rather than its line numbers
+ */
+export function applyUnifiedDiff(content: string, hunks: readonly DiffHunk[]): string {
+  const file = splitLines(content);
+  const placed = hunks.map((hunk, index) => {
+    const oldLines = hunk.lines.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+    const newLines = hunk.lines.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+
+    // A hunk that only adds lines has nothing to match, so its line number places it
+    if (oldLines.length === 0) {
+      if (hunk.oldStart > file.lines.length) {
+        throw new ToolValidationError(`Hunk ${index + 1} does not apply: line ${hunk.oldStart} is past the end of the file`);
+      }
+      return { index, start: hunk.oldStart, oldLines, newLines };
+    }
+
+    const starts = findSequence(file.lines, oldLines);
+    if (starts.length === 0) {
+      throw new ToolValidationError(`Hunk ${index + 1} does not apply: its context and removed lines were not found`);
+    }
+    if (starts.length > 1) {
+      throw new ToolValidationError(
+        `Hunk ${index + 1} matches ${starts.length} places; include more context lines to make it unique`
+      );
+    }
+    return { index, start: starts[0]!, oldLines, newLines };
+  });
+
+  placed.sort((a, b) => a.start - b.start);
+  const result: string[] = [];
+  let position = 0;
+  for (const hunk of placed) {
+    if (hunk.start < position) {
+      throw new ToolValidationError(`Hunk ${hunk.index + 1} overlaps another hunk`);
+    }
+    result.push(...file.lines.slice(position, hunk.start), ...hunk.newLines);
+    position = hunk.start + hunk.oldLines.length;
+  }
+  result.push(...file.lines.slice(position));
+
+  // Lines added to an empty file end with a newline like any other text file
+  return joinLines(result, file.eol, file.lines.length === 0 || file.finalNewline);
+}
+
+/**
+ * Describe the change from one text to another as a unified diff; empty when they are equal
+ */
+export function createUnifiedDiff(path: string, before: string, after: string, context = 3): string {
+  const ops = diffLines(before.match(/[^\n]*\n|[^\n]+$/g) ?? [], after.match(/[^\n]*\n|[^\n]+$/g) ?? []);
+  const changed = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]));
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Line numbers before each operation, in the old and the new text
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of ops) {
+    oldLine.push(oldCount);
+    newLine.push(newCount);
+    oldCount += op.type === '+' ? 0 : 1;
+    newCount += op.type === '-' ? 0 : 1;
+  }
+  oldLine.push(oldCount);
+  newLine.push(newCount);
+
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+  let group = 0;
+  while (group < changed.length) {
+    let last = group;
+    while (last + 1 < changed.length && changed[last + 1]! - changed[last]! <= 2 * context + 1) {
+      last++;
+    }
+
+    const from = Math.max(0, changed[group]! - context);
+    const to = Math.min(ops.length, changed[last]! + context + 1);
+    const oldLength = oldLine[to]! - oldLine[from]!;
+    const newLength = newLine[to]! - newLine[from]!;
+    output.push(
+      `@@ -${oldLine[from]! + (oldLength > 0 ? 1 : 0)},${oldLength} +${newLine[from]! + (newLength > 0 ? 1 : 0)},${newLength} @@`
+    );
+
+    for (const op of ops.slice(from, to)) {
+      output.push(op.type + op.line.replace(/\r?\n$/, ''));
+      if (!op.line.endsWith('\n')) {
+        output.push('\\ No newline at end of file');
+      }
+    }
+    group = last + 1;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Count the lines a diff adds and removes
+ */
+export function countDiffLines(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  // The first two lines are the file headers
+  for (const line of diff.split('\n').slice(2)) {
+    if (line.startsWith('+')) {
+      added++;
+    } else if (line.startsWith('-')) {
+      removed++;
+    }
+  }
+  return { added, removed };
+}
+
+/**
+ * Shortest edit script between two line lists (Myers' algorithm)
+ */
+function diffLines(a: readonly string[], b: readonly string[]): DiffOp[] {
+  // Lines shared at the start and end are common to both; only the middle needs diffing
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const head = a.slice(0, prefix).map(line => ({ type: ' ' as const, line }));
+  const tail = a.slice(a.length - suffix).map(line => ({ type: ' ' as const, line }));
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+
+  return [...head, ...diffMiddle(oldMiddle, newMiddle), ...tail];
+}
+
+function diffMiddle(a: readonly string[], b: readonly string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): DiffOp[] => [
+    ...a.map(line => ({ type: '-' as const, line })),
+    ...b.map(line => ({ type: '+' as const, line })),
+  ];
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x on each diagonal before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset, d);
+      }
+    }
+  }
+
+  return replaceAll();
+}
+
+function backtrack(a: readonly string[], b: readonly string[], trace: Int32Array[], offset: number, depth: number): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = depth; d > 0; d--) {
+    const v = trace[d]!;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!) ? k + 1 : k - 1;
+    const previousX = v[offset + previousK]!;
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push({ type: ' ', line: a[--x]! });
+      y--;
+    }
+    if (x === previousX) {
+      ops.push({ type: '+', line: b[--y]! });
+    } else {
+      ops.push({ type: '-', line: a[--x]! });
+    }
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: ' ', line: a[--x]! });
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+function splitLines(content: string): { lines: string[]; eol: string; finalNewline: boolean } {
+  const finalNewline = content.endsWith('\n');
+  const body = finalNewline ? content.replace(/\r?\n$/, '') : content;
+  return {
+    lines: body.length === 0 && !finalNewline ? [] : body.split(/\r?\n/),
+    eol: detectEol(content),
+    finalNewline,
+  };
+}
+
+function joinLines(lines: readonly string[], eol: string, finalNewline: boolean): string {
+  return lines.join(eol) + (finalNewline && lines.length > 0 ? eol : '');
+}
+
+/**
+ * Every start index at which `sequence` occurs in `lines`
+ */
+function findSequence(lines: readonly string[], sequence: readonly string[]): number[] {
+  const starts: number[] = [];
+  for (let start = 0; start + sequence.length <= lines.length; start++) {
+    if (sequence.every((line, offset) => lines[start + offset] === line)) {
+      starts.push(start);
+    }
+  }
+  return starts;
+}
+
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+function detectEol(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Give edit text the line endings of the file it is applied to
+ */
+function withEol(text: string, eol: string): string {
+  return eol === '\r\n' ? text.replace(/\r?\n/g, '\r\n') : text;
+}
+
+interface DiffOp {
+  readonly type: ' ' | '-' | '+';
+  readonly line: string;
+}
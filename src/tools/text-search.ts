@@ -0,0 +1,172 @@
+/**
+ * Text Search
+ *
+ * Finds the lines of a text that match a literal or regular expression query
+ * and renders them ripgrep style: `12:matching line` for matches, `13-line`
+ * for context lines and `--` between groups that are not adjacent. Matching
+ * runs under a time limit, so a regular expression that backtracks
+ * catastrophically fails the search instead of blocking the event loop.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { Script, createContext } from 'vm';
+import { ToolTimeoutError, ToolValidationError } from '@/tools/tool-errors';
+
+/**
+ * Lines longer than this are cut short in excerpts, so minified files do not flood the output
+ */
+const MAX_LINE_LENGTH = 500;
+
+/**
+ * Regular expressions longer than this are refused
+ */
+export const MAX_PATTERN_LENGTH = 1000;
+
+/**
+ * Time one text may take to match; the search fails once it is exceeded
+ */
+export const MATCH_TIME_LIMIT_MS = 250;
+
+// Matching runs inside a script, as only scripts can be interrupted by a vm timeout
+const matchSandbox: { match?: () => void } = {};
+const matchScript = new Script('match()');
+createContext(matchSandbox);
+
+export interface TextQueryOptions {
+  readonly regex?: boolean;
+  readonly wholeWord?: boolean;
+  readonly caseSensitive?: boolean;
+}
+
+export interface ExcerptOptions {
+  readonly before: number;
+  readonly after: number;
+  /** Stop after this many matching lines */
+  readonly maxLines: number;
+}
+
+/**
+ * The matches found in one text
+ */
+export interface TextMatches {
+  /** Number of matching lines, counting past `maxLines` */
+  readonly lines: number;
+  /** Number of matches, several per line where a line matches more than once */
+  readonly matches: number;
+  /** Matching and context lines, or empty when no excerpt was asked for */
+  readonly excerpt: readonly string[];
+  /** Whether matching lines beyond `maxLines` were left out of the excerpt */
+  readonly truncated: boolean;
+}
+
+/**
+ * Compile a search query; literal queries are escaped, regular expressions are checked
+ */
+export function compileQuery(query: string, options: TextQueryOptions = {}): RegExp {
+  if (query.length === 0) {
+    throw new ToolValidationError('The search query is empty');
+  }
+  if (options.regex && query.length > MAX_PATTERN_LENGTH) {
+    throw new ToolValidationError(`Regular expressions are limited to ${MAX_PATTERN_LENGTH} characters`);
+  }
+
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`;
+  }
+
+  try {
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    throw new ToolValidationError(`Invalid regular expression: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Find every line of a text that matches, with an excerpt of them and their context
+ * when `excerpt` is given; undefined when nothing matches
+ */
+export function matchText(content: string, query: RegExp, excerpt?: ExcerptOptions): TextMatches | undefined {
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const matched: number[] = [];
+  let matches = 0;
+  withTimeLimit(() => {
+    lines.forEach((line, index) => {
+      const count = countMatches(line, query);
+      if (count > 0) {
+        matched.push(index);
+        matches += count;
+      }
+    });
+  });
+
+  if (matched.length === 0) {
+    return undefined;
+  }
+
+  return {
+    lines: matched.length,
+    matches,
+    excerpt: excerpt ? renderExcerpt(lines, matched, excerpt) : [],
+    truncated: excerpt !== undefined && matched.length > excerpt.maxLines,
+  };
+}
+
+function withTimeLimit(work: () => void): void {
+  matchSandbox.match = work;
+  try {
+    matchScript.runInContext(matchSandbox, { timeout: MATCH_TIME_LIMIT_MS });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new ToolTimeoutError('Matching the search query', MATCH_TIME_LIMIT_MS);
+    }
+    throw error;
+  } finally {
+    delete matchSandbox.match;
+  }
+}
+
+function countMatches(line: string, query: RegExp): number {
+  let count = 0;
+  query.lastIndex = 0;
+  for (let match = query.exec(line); match; match = query.exec(line)) {
+    count++;
+    // Step past empty matches, such as those of `^`, or the search never advances
+    if (match[0].length === 0) {
+      query.lastIndex++;
+    }
+  }
+  return count;
+}
+
+function renderExcerpt(lines: readonly string[], matched: readonly number[], options: ExcerptOptions): string[] {
+  const output: string[] = [];
+  const isMatch = new Set(matched);
+  let printedUpTo = -1;
+
+  for (const index of matched.slice(0, options.maxLines)) {
+    // Context may already have printed this match; then only its own after context remains
+    const from = Math.max(index - options.before, printedUpTo + 1);
+    const to = Math.min(index + options.after, lines.length - 1);
+    if (printedUpTo >= 0 && from > printedUpTo + 1) {
+      output.push('--');
+    }
+
+    for (let line = from; line <= to; line++) {
+      output.push(`${line + 1}${isMatch.has(line) ? ':' : '-'}${truncate(lines[line]!)}`);
+    }
+    printedUpTo = to;
+  }
+
+  return output;
+}
+
+function truncate(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line;
+}
@@ -0,0 +1,164 @@
+/**
+ * Tool Errors
+ *
+ * Typed failures raised while a tool runs. The tool registry reports them to
+ * the client as tool results with `isError: true`, keeping JSON-RPC errors for
+ * protocol problems such as unknown tools or malformed arguments.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { McpErrorCode } from '@/types/mcp';
+
+export type ToolErrorKind =
+  | 'not_found'
+  | 'permission_denied'
+  | 'size_limit'
+  | 'timeout'
+  | 'cancelled'
+  | 'conflict'
+  | 'validation'
+  | 'execution';
+
+/**
+ * Base class of every failure a tool reports to the client
+ */
+export class ToolError extends Error {
+  public readonly kind: ToolErrorKind;
+  public readonly code: McpErrorCode;
+
+  constructor(message: string, kind: ToolErrorKind = 'execution', code: McpErrorCode = McpErrorCode.PROCESSING_ERROR) {
+    super(message);
+    this.name = 'ToolError';
+    this.kind = kind;
+    this.code = code;
+  }
+}
+
+/**
+ * Raised when a file, directory or remote resource does not exist
+ */
+export class NotFoundError extends ToolError {
+  public readonly target: string;
+
+  constructor(target: string) {
+    super(`Not found: ${target}`, 'not_found', McpErrorCode.RESOURCE_NOT_FOUND);
+    this.name = 'NotFoundError';
+    this.target = target;
+  }
+}
+
+/**
+ * Raised when the operating system refuses access to a path
+ */
+export class PermissionDeniedError extends ToolError {
+  public readonly target: string;
+
+  constructor(target: string) {
+    super(`Permission denied: ${target}`, 'permission_denied', McpErrorCode.PERMISSION_DENIED);
+    this.name = 'PermissionDeniedError';
+    this.target = target;
+  }
+}
+
+/**
+ * Raised when content exceeds a size limit
+ */
+export class SizeLimitError extends ToolError {
+  public readonly size: number | undefined;
+  public readonly limit: number;
+
+  constructor(target: string, limit: number, size?: number) {
+    super(
+      size === undefined
+        ? `Too large: ${target} exceeds ${limit} bytes`
+        : `Too large: ${target} is ${size} bytes (max: ${limit})`,
+      'size_limit',
+      McpErrorCode.VALIDATION_ERROR
+    );
+    this.name = 'SizeLimitError';
+    this.size = size;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Raised when a tool or an operation it waits on runs out of time
+ */
+export class ToolTimeoutError extends ToolError {
+  public readonly timeoutMs: number;
+
+  constructor(operation: string, timeoutMs: number) {
+    super(`${operation} timed out after ${timeoutMs}ms`, 'timeout', McpErrorCode.PROCESSING_ERROR);
+    this.name = 'ToolTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised when the client cancels a call with `notifications/cancelled`
+ */
+export class ToolCancelledError extends ToolError {
+  public readonly reason: string | undefined;
+
+  constructor(operation: string, reason?: string) {
+    super(
+      reason ? `${operation} was cancelled: ${reason}` : `${operation} was cancelled`,
+      'cancelled',
+      McpErrorCode.REQUEST_CANCELLED
+    );
+    this.name = 'ToolCancelledError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when a file no longer matches the version the caller based a change on
+ */
+export class ConflictError extends ToolError {
+  public readonly target: string;
+
+  constructor(target: string, detail: string) {
+    super(`Conflict: ${target} ${detail}`, 'conflict', McpErrorCode.CONFLICT);
+    this.name = 'ConflictError';
+    this.target = target;
+  }
+}
+
+/**
+ * Raised when input passes the schema but cannot be processed, such as an unsupported format
+ */
+export class ToolValidationError extends ToolError {
+  constructor(message: string) {
+    super(message, 'validation', McpErrorCode.VALIDATION_ERROR);
+    this.name = 'ToolValidationError';
+  }
+}
+
+/**
+ * Translate a filesystem error into the matching tool error. Errors that are
+ * already tool errors, or that have no filesystem meaning, are returned as is.
+ */
+export function toToolError(error: unknown, target: string): unknown {
+  if (error instanceof ToolError) {
+    return error;
+  }
+
+  switch ((error as NodeJS.ErrnoException | undefined)?.code) {
+    case 'ENOENT':
+    case 'ENOTDIR':
+      return new NotFoundError(target);
+    case 'EACCES':
+    case 'EPERM':
+      return new PermissionDeniedError(target);
+    case 'EISDIR':
+      return new ToolValidationError(`Is a directory: ${target}`);
+    case 'ENOTEMPTY':
+      return new ToolValidationError(`Directory not empty: ${target}`);
+    case 'EEXIST':
+      return new ConflictError(target, 'already exists');
+    default:
+      return error;
+  }
+}
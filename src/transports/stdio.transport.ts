@@ -0,0 +1,155 @@
+/**
+ * Stdio Transport
+ *
+ * Serves MCP over stdin/stdout using newline-delimited JSON-RPC messages, as
+ * expected by clients that launch the server as a subprocess. stdout carries
+ * protocol messages only; all diagnostics must go to stderr.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { EventEmitter } from 'events';
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { format } from 'util';
+import {
+  JsonRpcMessage,
+  JsonRpcReply,
+  JsonRpcNotification,
+  JsonRpcErrorCode,
+  Logger,
+} from '@/types/mcp';
+
+/**
+ * Handles one decoded message or batch; resolves to null when no response is due
+ */
+export type StdioMessageHandler = (message: JsonRpcMessage) => Promise<JsonRpcReply | null>;
+
+export interface StdioTransportOptions {
+  readonly input?: Readable;
+  readonly output?: Writable;
+}
+
+export class StdioTransport extends EventEmitter {
+  private readonly handler: StdioMessageHandler;
+  private readonly logger: Logger;
+  private readonly input: Readable;
+  private readonly output: Writable;
+  private readonly pending = new Set<Promise<void>>();
+  private reader?: Interface;
+  private closed = false;
+
+  constructor(handler: StdioMessageHandler, logger: Logger, options: StdioTransportOptions = {}) {
+    super();
+    this.handler = handler;
+    this.logger = logger;
+    this.input = options.input || process.stdin;
+    this.output = options.output || process.stdout;
+  }
+
+  /**
+   * Route everything written through console.log/info/debug to stderr so that
+   * stray diagnostics from any module can never corrupt the protocol stream
+   */
+  public static redirectConsoleToStderr(): void {
+    const toStderr = (...args: unknown[]): void => {
+      process.stderr.write(`${format(...args)}\n`);
+    };
+    Object.assign(console, { log: toStderr, info: toStderr, debug: toStderr });
+  }
+
+  /**
+   * Start reading messages from the input stream
+   */
+  public async start(): Promise<void> {
+    if (this.reader) {
+      return;
+    }
+
+    this.reader = createInterface({ input: this.input, crlfDelay: Infinity });
+    this.reader.on('line', line => this.track(this.handleLine(line)));
+    this.reader.on('close', () => {
+      void this.drain().then(() => this.close());
+    });
+
+    this.logger.info('Stdio transport started');
+  }
+
+  /**
+   * Write a message to the output stream
+   */
+  public send(message: JsonRpcReply | JsonRpcNotification): void {
+    if (this.closed) {
+      return;
+    }
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+
+  /**
+   * Stop reading and notify listeners that the session is over
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.reader?.close();
+    this.logger.info('Stdio transport closed');
+    this.emit('close');
+  }
+
+  /**
+   * Decode and dispatch a single line of input
+   */
+  private async handleLine(line: string): Promise<void> {
+    if (!line.trim()) {
+      return;
+    }
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch (error) {
+      this.logger.warn('Discarding unparseable stdio message', { error: (error as Error).message });
+      this.send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Parse error' },
+      });
+      return;
+    }
+
+    try {
+      const response = await this.handler(message);
+      if (response) {
+        this.send(response);
+      }
+    } catch (error) {
+      this.logger.error('Stdio message handling failed', error as Error);
+      this.send({
+        jsonrpc: '2.0',
+        id: typeof message === 'object' && message !== null && !Array.isArray(message) && 'id' in message
+          ? (message as { id: string | number | null }).id
+          : null,
+        error: { code: JsonRpcErrorCode.INTERNAL_ERROR, message: 'Internal server error' },
+      });
+    }
+  }
+
+  /**
+   * Keep track of in-flight messages so responses are flushed before closing
+   */
+  private track(work: Promise<void>): void {
+    this.pending.add(work);
+    void work.finally(() => this.pending.delete(work));
+  }
+
+  /**
+   * Wait for all in-flight messages to finish
+   */
+  private async drain(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pending));
+  }
+}
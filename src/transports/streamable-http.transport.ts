@@ -0,0 +1,419 @@
+/**
+ * Streamable HTTP Transport
+ *
+ * Implements the MCP Streamable HTTP transport on a single endpoint:
+ * POST carries client messages and may answer with an SSE stream so that
+ * notifications can precede the response, GET opens a standalone SSE stream
+ * for server-initiated notifications, and DELETE ends a session. Sessions are
+ * issued when `initialize` succeeds and tracked via the `Mcp-Session-Id`
+ * header; they belong to the principal that opened them, and a
+ * `sessionClosed` event is emitted when one ends.
+ *
+ * @author aezizhu
+ * @version 1.0.0
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import {
+  JsonRpcRequest,
+  JsonRpcMessage,
+  JsonRpcReply,
+  JsonRpcNotification,
+  JsonRpcErrorCode,
+  NotificationSender,
+  Logger,
+} from '@/types/mcp';
+
+export const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+export interface HttpMessageContext {
+  readonly req: Request;
+  readonly sessionId?: string;
+  readonly sendNotification: NotificationSender;
+  /** Aborted when the client disconnects before the response is complete */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Handles one decoded message or batch; resolves to null when no response is due
+ */
+export type HttpMessageHandler = (
+  message: JsonRpcMessage,
+  context: HttpMessageContext
+) => Promise<JsonRpcReply | null>;
+
+export interface StreamableHttpTransportOptions {
+  readonly sessionTimeoutMs?: number;
+  readonly keepAliveMs?: number;
+}
+
+interface HttpSession {
+  readonly id: string;
+  /** User id of the principal that opened the session; undefined when anonymous */
+  readonly ownerId: string | undefined;
+  readonly createdAt: Date;
+  lastActivity: number;
+  readonly streams: Set<SseStream>;
+}
+
+/**
+ * A single Server-Sent Events response stream
+ */
+class SseStream {
+  private readonly res: Response;
+  private readonly keepAlive: NodeJS.Timeout;
+  private nextEventId = 1;
+  private closed = false;
+
+  constructor(res: Response, keepAliveMs: number, onClose: () => void = () => undefined) {
+    this.res = res;
+
+    // no-transform keeps the compression middleware from buffering events
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    this.keepAlive = setInterval(() => this.write(': keepalive\n\n'), keepAliveMs);
+    this.keepAlive.unref();
+
+    res.on('close', () => {
+      this.dispose();
+      onClose();
+    });
+  }
+
+  public send(message: JsonRpcReply | JsonRpcNotification): void {
+    this.write(`id: ${this.nextEventId++}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  public close(): void {
+    if (!this.closed) {
+      this.dispose();
+      this.res.end();
+    }
+  }
+
+  private write(chunk: string): void {
+    if (!this.closed) {
+      this.res.write(chunk);
+    }
+  }
+
+  private dispose(): void {
+    this.closed = true;
+    clearInterval(this.keepAlive);
+  }
+}
+
+export class StreamableHttpTransport extends EventEmitter {
+  private readonly handler: HttpMessageHandler;
+  private readonly logger: Logger;
+  private readonly sessions = new Map<string, HttpSession>();
+  private readonly sessionTimeoutMs: number;
+  private readonly keepAliveMs: number;
+  private readonly sweeper: NodeJS.Timeout;
+
+  constructor(handler: HttpMessageHandler, logger: Logger, options: StreamableHttpTransportOptions = {}) {
+    super();
+    this.handler = handler;
+    this.logger = logger;
+    this.sessionTimeoutMs = options.sessionTimeoutMs || 30 * 60 * 1000; // 30 minutes
+    this.keepAliveMs = options.keepAliveMs || 15000;
+
+    this.sweeper = setInterval(() => this.expireIdleSessions(), 60000);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Build the Express router serving the MCP endpoint
+   */
+  public router(): Router {
+    const router = Router();
+    router.post('/', (req, res) => void this.handlePost(req, res));
+    router.get('/', (req, res) => this.handleGet(req, res));
+    router.delete('/', (req, res) => this.handleDelete(req, res));
+    return router;
+  }
+
+  /**
+   * Send a notification on the standalone streams of one session
+   */
+  public notify(sessionId: string, notification: JsonRpcNotification): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.streams.size === 0) {
+      return false;
+    }
+
+    for (const stream of session.streams) {
+      stream.send(notification);
+    }
+    return true;
+  }
+
+  /**
+   * Send a notification to every session with an open standalone stream
+   */
+  public broadcast(notification: JsonRpcNotification): void {
+    for (const sessionId of this.sessions.keys()) {
+      this.notify(sessionId, notification);
+    }
+  }
+
+  /**
+   * Check whether a session is still open
+   */
+  public hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Get the number of active sessions
+   */
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every stream and forget all sessions
+   */
+  public close(): void {
+    clearInterval(this.sweeper);
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.terminateSession(sessionId);
+    }
+  }
+
+  /**
+   * Handle client-to-server messages
+   */
+  private async handlePost(req: Request, res: Response): Promise<void> {
+    const requestedSessionId = req.get(MCP_SESSION_HEADER);
+    let session: HttpSession | undefined;
+
+    if (requestedSessionId) {
+      session = this.findSession(requestedSessionId, req);
+      if (!session) {
+        this.sendHttpError(res, 404, JsonRpcErrorCode.INVALID_REQUEST, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+    }
+
+    // Responses from the client are accepted as they are: the server sends no
+    // requests of its own that would be waiting for them
+    const body = req.body as JsonRpcMessage;
+    const requests = Array.isArray(body) ? body.filter(entry => !this.isResponse(entry)) : [];
+    if (Array.isArray(body) ? body.length > 0 && requests.length === 0 : this.isResponse(body)) {
+      res.status(202).end();
+      return;
+    }
+    const message: JsonRpcMessage = Array.isArray(body) ? requests : body;
+
+    // A batch expects a response body as soon as one entry is a request
+    const isRequest = Array.isArray(message)
+      ? message.some(entry => this.isRequest(entry))
+      : this.isRequest(message);
+    // The session of an initialize request only opens once initialize succeeds
+    const isInitialize = !Array.isArray(message) && isRequest && (message as JsonRpcRequest).method === 'initialize' && !session;
+
+    const sessionId = session?.id ?? (isInitialize ? randomUUID() : undefined);
+    const notifySession: NotificationSender = notification => {
+      if (sessionId) {
+        this.notify(sessionId, notification);
+      }
+    };
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort('Client disconnected');
+      }
+    });
+    const baseContext = { req, signal: controller.signal, ...(sessionId ? { sessionId } : {}) };
+
+    try {
+      // Notifications and client responses are acknowledged without a body;
+      // only a malformed message produces an (error) response here
+      if (!isRequest) {
+        const response = await this.handler(message, { ...baseContext, sendNotification: notifySession });
+        if (response) {
+          res.status(400).json(response);
+        } else {
+          res.status(202).end();
+        }
+        return;
+      }
+
+      if (isInitialize) {
+        const response = await this.handler(message, { ...baseContext, sendNotification: notifySession });
+        if (response && !Array.isArray(response) && 'result' in response) {
+          this.createSession(sessionId!, req.securityContext?.userId);
+          res.setHeader(MCP_SESSION_HEADER, sessionId!);
+        }
+        res.json(response);
+        return;
+      }
+
+      // Stream the response when the client accepts SSE, so request-scoped
+      // notifications such as progress can be delivered before the result
+      if (this.acceptsEventStream(req)) {
+        const stream = new SseStream(res, this.keepAliveMs);
+        const response = await this.handler(message, {
+          ...baseContext,
+          sendNotification: notification => stream.send(notification),
+        });
+        if (response) {
+          stream.send(response);
+        }
+        stream.close();
+        return;
+      }
+
+      const response = await this.handler(message, { ...baseContext, sendNotification: notifySession });
+      if (response) {
+        res.json(response);
+      } else {
+        // Cancelled requests get no response
+        res.status(202).end();
+      }
+
+    } catch (error) {
+      this.logger.error('MCP request processing failed', error as Error, { sessionId });
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      this.sendHttpError(res, 500, JsonRpcErrorCode.INTERNAL_ERROR, 'Internal server error');
+    }
+  }
+
+  /**
+   * Open a standalone SSE stream for server-initiated messages
+   */
+  private handleGet(req: Request, res: Response): void {
+    if (!this.acceptsEventStream(req)) {
+      this.sendHttpError(res, 406, JsonRpcErrorCode.INVALID_REQUEST, 'Client must accept text/event-stream');
+      return;
+    }
+
+    const session = this.getRequiredSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const stream = new SseStream(res, this.keepAliveMs, () => {
+      session.streams.delete(stream);
+      session.lastActivity = Date.now();
+    });
+    session.streams.add(stream);
+    session.lastActivity = Date.now();
+
+    this.logger.debug('SSE stream opened', { sessionId: session.id, streams: session.streams.size });
+  }
+
+  /**
+   * Explicitly terminate a session
+   */
+  private handleDelete(req: Request, res: Response): void {
+    const session = this.getRequiredSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    this.terminateSession(session.id);
+    res.status(204).end();
+  }
+
+  /**
+   * Look up the session named by the request header, answering with an error if absent
+   */
+  private getRequiredSession(req: Request, res: Response): HttpSession | undefined {
+    const sessionId = req.get(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      this.sendHttpError(res, 400, JsonRpcErrorCode.INVALID_REQUEST, `Missing ${MCP_SESSION_HEADER} header`);
+      return undefined;
+    }
+
+    const session = this.findSession(sessionId, req);
+    if (!session) {
+      this.sendHttpError(res, 404, JsonRpcErrorCode.INVALID_REQUEST, 'Session not found');
+      return undefined;
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session if the caller is the principal that opened it; sessions of
+   * others are reported as not found so their ids cannot be probed
+   */
+  private findSession(sessionId: string, req: Request): HttpSession | undefined {
+    const session = this.sessions.get(sessionId);
+    return session && session.ownerId === req.securityContext?.userId ? session : undefined;
+  }
+
+  private createSession(id: string, ownerId: string | undefined): HttpSession {
+    const session: HttpSession = {
+      id,
+      ownerId,
+      createdAt: new Date(),
+      lastActivity: Date.now(),
+      streams: new Set(),
+    };
+    this.sessions.set(session.id, session);
+    this.logger.info('MCP session created', { sessionId: session.id });
+    return session;
+  }
+
+  private terminateSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    for (const stream of session.streams) {
+      stream.close();
+    }
+    this.sessions.delete(sessionId);
+    this.logger.info('MCP session terminated', { sessionId });
+    this.emit('sessionClosed', sessionId);
+  }
+
+  /**
+   * Drop sessions that have been idle without an open stream for too long
+   */
+  private expireIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionTimeoutMs;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.streams.size === 0 && session.lastActivity < cutoff) {
+        this.terminateSession(session.id);
+      }
+    }
+  }
+
+  private isRequest(message: unknown): boolean {
+    return !!message && typeof message === 'object' && 'method' in message && 'id' in message;
+  }
+
+  private isResponse(message: unknown): boolean {
+    return !!message && typeof message === 'object' && !('method' in message) && 'id' in message
+      && ('result' in message || 'error' in message);
+  }
+
+  private acceptsEventStream(req: Request): boolean {
+    return (req.get('Accept') || '').includes('text/event-stream');
+  }
+
+  private sendHttpError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code, message },
+    });
+  }
+}
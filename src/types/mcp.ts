@@ -34,9 +34,39 @@ export interface JsonRpcNotification {
   readonly params?: Record<string, unknown> | unknown[];
 }
 
+/**
+ * A single JSON-RPC message or a batch of them, as received from a transport
+ */
+export type JsonRpcMessage = JsonRpcRequest | readonly JsonRpcRequest[];
+
+/**
+ * The reply to a JSON-RPC message: one response, or an array for a batch
+ */
+export type JsonRpcReply = JsonRpcResponse | readonly JsonRpcResponse[];
+
+/**
+ * Delivers a server-to-client notification over whichever transport carried the request
+ */
+export type NotificationSender = (notification: JsonRpcNotification) => void;
+
+/**
+ * Receives progress updates from a running tool; `total` is omitted when unknown
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/**
+ * Decides whether the role policy lets a caller touch a workspace path
+ */
+export type PathAuthorizer = (securityContext: SecurityContext, path: string) => Promise<boolean>;
+
 // MCP Protocol Version
 export const MCP_PROTOCOL_VERSION = '2024-11-05' as const;
 
+/**
+ * Protocol versions this server speaks, newest first
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = ['2025-03-26', MCP_PROTOCOL_VERSION];
+
 // Standard JSON-RPC Error Codes
 export enum JsonRpcErrorCode {
   PARSE_ERROR = -32700,
@@ -56,6 +86,10 @@ export enum McpErrorCode {
   RATE_LIMITED = -32004,
   VALIDATION_ERROR = -32005,
   PROCESSING_ERROR = -32006,
+  WORKSPACE_VIOLATION = -32007,
+  UNAUTHENTICATED = -32008,
+  REQUEST_CANCELLED = -32009,
+  CONFLICT = -32010,
 }
 
 // Server Information
@@ -126,6 +160,11 @@ export interface InitializeResponse extends JsonRpcResponse {
 export interface ClientCapabilities {
   readonly experimental?: Record<string, unknown>;
   readonly sampling?: SamplingCapability;
+  readonly roots?: RootsCapability;
+}
+
+export interface RootsCapability {
+  readonly listChanged?: boolean;
 }
 
 export interface SamplingCapability {
@@ -138,6 +177,18 @@ export interface ClientInfo {
   readonly version: string;
 }
 
+/**
+ * What a client declared in `initialize`, kept for the lifetime of its session
+ */
+export interface ClientSession {
+  readonly sessionId: string;
+  readonly protocolVersion: string;
+  readonly capabilities: ClientCapabilities;
+  readonly clientInfo: ClientInfo;
+  readonly initializedAt: Date;
+  ready: boolean;
+}
+
 // Tool Definitions
 export interface Tool {
   readonly name: string;
@@ -146,7 +197,7 @@ export interface Tool {
 }
 
 export interface JsonSchema {
-  readonly type: string;
+  readonly type?: string;
   readonly properties?: Record<string, JsonSchemaProperty>;
   readonly required?: readonly string[];
   readonly additionalProperties?: boolean;
@@ -205,6 +256,7 @@ export interface Content {
   readonly text?: string;
   readonly data?: string;
   readonly mimeType?: string;
+  readonly resource?: ResourceContent;
 }
 
 export enum ContentType {
@@ -221,6 +273,18 @@ export interface Resource {
   readonly mimeType?: string;
 }
 
+export interface ResourceTemplate {
+  readonly uriTemplate: string;
+  readonly name: string;
+  readonly description?: string;
+  readonly mimeType?: string;
+}
+
+export interface ResourceListResult {
+  readonly resources: readonly Resource[];
+  readonly nextCursor?: string;
+}
+
 export interface ResourceReadRequest extends JsonRpcRequest {
   readonly method: 'resources/read';
   readonly params: {
@@ -241,6 +305,29 @@ export interface ResourceContent {
   readonly blob?: string;
 }
 
+// Prompt Definitions
+export interface Prompt {
+  readonly name: string;
+  readonly description?: string;
+  readonly arguments?: readonly PromptArgument[];
+}
+
+export interface PromptArgument {
+  readonly name: string;
+  readonly description?: string;
+  readonly required?: boolean;
+}
+
+export interface PromptMessage {
+  readonly role: 'user' | 'assistant';
+  readonly content: Content;
+}
+
+export interface GetPromptResult {
+  readonly description?: string;
+  readonly messages: readonly PromptMessage[];
+}
+
 // Logging
 export interface LoggingMessageNotification extends JsonRpcNotification {
   readonly method: 'notifications/message';
@@ -258,6 +345,36 @@ export interface ProgressNotification extends JsonRpcNotification {
     readonly progressToken: string | number;
     readonly progress: number;
     readonly total?: number;
+    readonly message?: string;
+  };
+}
+
+// Cancellation Notifications
+export interface CancelledNotification extends JsonRpcNotification {
+  readonly method: 'notifications/cancelled';
+  readonly params: {
+    readonly requestId: string | number;
+    readonly reason?: string;
+  };
+}
+
+// List Change Notifications
+export interface ToolListChangedNotification extends JsonRpcNotification {
+  readonly method: 'notifications/tools/list_changed';
+}
+
+export interface PromptListChangedNotification extends JsonRpcNotification {
+  readonly method: 'notifications/prompts/list_changed';
+}
+
+export interface ResourceListChangedNotification extends JsonRpcNotification {
+  readonly method: 'notifications/resources/list_changed';
+}
+
+export interface ResourceUpdatedNotification extends JsonRpcNotification {
+  readonly method: 'notifications/resources/updated';
+  readonly params: {
+    readonly uri: string;
   };
 }
 
@@ -325,13 +442,44 @@ export interface PluginManifest {
   readonly configuration?: JsonSchema;
 }
 
+/**
+ * Module exported by a plugin's `main` entry, as an instance or a class
+ */
+export interface Plugin {
+  initialize(context: PluginContext): Promise<void> | void;
+  shutdown?(): Promise<void> | void;
+}
+
+/**
+ * What a plugin can use and extend; registrations need the matching manifest capability
+ */
 export interface PluginContext {
+  readonly manifest: PluginManifest;
   readonly logger: Logger;
   readonly config: Record<string, unknown>;
   readonly services: ServiceRegistry;
   readonly events: EventEmitter;
+  registerTool(tool: Tool, handler: PluginToolHandler): void;
+  registerResource(resource: Resource, reader: PluginResourceReader): void;
+  registerPrompt(definition: unknown): void;
+  registerMethod(method: string, handler: PluginMethodHandler): void;
+}
+
+export interface PluginToolCall {
+  readonly securityContext?: SecurityContext;
+  readonly signal?: AbortSignal;
+  readonly progress?: ProgressReporter;
 }
 
+export type PluginToolHandler = (
+  args: Record<string, unknown>,
+  call: PluginToolCall
+) => Promise<{ content: Content[]; isError?: boolean }>;
+
+export type PluginResourceReader = (uri: string, securityContext: SecurityContext) => Promise<ResourceContent[]>;
+
+export type PluginMethodHandler = (params: unknown, securityContext: SecurityContext) => Promise<unknown>;
+
 export interface Logger {
   debug(message: string, meta?: Record<string, unknown>): void;
   info(message: string, meta?: Record<string, unknown>): void;
@@ -424,6 +572,7 @@ export interface ServerConfig {
     readonly port: number;
     readonly cors: CorsConfig;
     readonly rateLimit: RateLimitConfig;
+    readonly batch: BatchConfig;
     readonly security: SecurityConfig;
   };
   readonly logging: LoggingConfig;
@@ -431,6 +580,11 @@ export interface ServerConfig {
   readonly database?: DatabaseConfig;
   readonly plugins: PluginConfig;
   readonly monitoring: MonitoringConfig;
+  readonly workspace: WorkspaceConfig;
+  readonly resources: ResourcesConfig;
+  readonly prompts: PromptsConfig;
+  readonly backups: BackupConfig;
+  readonly searchIndex: SearchIndexConfig;
 }
 
 export interface CorsConfig {
@@ -448,21 +602,61 @@ export interface RateLimitConfig {
   readonly message: string;
 }
 
+export interface BatchConfig {
+  readonly maxSize: number;
+  readonly concurrency: number;
+}
+
 export interface SecurityConfig {
   readonly helmet: boolean;
   readonly authentication: {
     readonly enabled: boolean;
-    readonly jwt: {
-      readonly secret: string;
-      readonly expiresIn: string;
-    };
+    readonly jwt: JwtConfig;
   };
   readonly authorization: {
     readonly enabled: boolean;
     readonly roles: readonly string[];
+    readonly policyFile?: string;
   };
 }
 
+/**
+ * Tool names, path globs and resource URI patterns a rule applies to
+ */
+export interface AccessRules {
+  readonly tools?: readonly string[];
+  readonly paths?: readonly string[];
+  readonly resources?: readonly string[];
+}
+
+export interface RolePolicy {
+  readonly permissions?: readonly string[];
+  readonly allow?: AccessRules;
+  readonly deny?: AccessRules;
+}
+
+/**
+ * Declarative authorization policy, keyed by role name
+ */
+export interface AccessPolicyDocument {
+  readonly roles: Readonly<Record<string, RolePolicy>>;
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface JwtConfig {
+  readonly secret: string;
+  readonly expiresIn: string;
+  readonly algorithms?: readonly JwtAlgorithm[];
+  readonly publicKeyFile?: string;
+  readonly jwksFile?: string;
+  readonly issuer?: string;
+  readonly audience?: string;
+  readonly clockToleranceSec?: number;
+  readonly rolesClaim?: string;
+  readonly permissionsClaim?: string;
+}
+
 export interface LoggingConfig {
   readonly level: LogLevel;
   readonly format: 'json' | 'simple';
@@ -497,12 +691,94 @@ export interface PluginConfig {
   readonly enabled: boolean;
   readonly directory: string;
   readonly autoload: boolean;
+  readonly isolation: PluginIsolationConfig;
   readonly plugins: Record<string, PluginInstanceConfig>;
 }
 
 export interface PluginInstanceConfig {
   readonly enabled: boolean;
   readonly config: Record<string, unknown>;
+  readonly isolation?: PluginIsolationMode;
+}
+
+/**
+ * Where plugins run: in the server process, a worker thread or a child process
+ */
+export type PluginIsolationMode = 'none' | 'worker' | 'process';
+
+/**
+ * Limits and restart policy of isolated plugins
+ */
+export interface PluginIsolationConfig {
+  readonly mode: PluginIsolationMode;
+  readonly memoryLimitMb: number;
+  readonly callTimeoutMs: number;
+  readonly cancelGraceMs: number;
+  readonly maxRestarts: number;
+  readonly restartDelayMs: number;
+  readonly maxRestartDelayMs: number;
+}
+
+/**
+ * Directories exposed as file:// resources
+ */
+export interface ResourcesConfig {
+  readonly directories: readonly ResourceDirectoryConfig[];
+  readonly pageSize: number;
+  readonly maxReadSize: number;
+  readonly maxSubscriptionsPerSession: number;
+  readonly watchDebounceMs: number;
+}
+
+export interface ResourceDirectoryConfig {
+  readonly path: string;
+  readonly name?: string;
+  readonly description?: string;
+  readonly recursive?: boolean;
+}
+
+/**
+ * Directory of prompt definition files
+ */
+export interface PromptsConfig {
+  readonly directory: string;
+  readonly maxEmbedSize: number;
+}
+
+/**
+ * Versioned store of file contents replaced by the file tools
+ */
+export interface BackupConfig {
+  readonly directory: string;
+  readonly maxVersionsPerFile: number;
+  /** Versions older than this are dropped; 0 keeps them regardless of age */
+  readonly maxAgeDays: number;
+  readonly maxTotalSizeMb: number;
+}
+
+export interface SearchIndexConfig {
+  /** Keep a content index of each workspace root for search_files */
+  readonly enabled: boolean;
+  readonly directory: string;
+  /** Delay before re-indexing files reported changed */
+  readonly debounceMs: number;
+}
+
+export interface WorkspaceConfig {
+  readonly roots: readonly string[];
+  readonly userRoots: Readonly<Record<string, readonly string[]>>;
+  /** `.gitignore`-style patterns, relative to each root, that listings and searches skip */
+  readonly exclude?: readonly string[];
+  readonly trash?: TrashConfig;
+}
+
+/**
+ * Retention of the trash that delete_file keeps in each workspace root
+ */
+export interface TrashConfig {
+  /** Entries older than this are dropped; 0 keeps them regardless of age */
+  readonly maxAgeDays: number;
+  readonly maxTotalSizeMb: number;
 }
 
 export interface MonitoringConfig {
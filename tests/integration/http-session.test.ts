@@ -0,0 +1,87 @@
+/**
+ * HTTP Session Integration Tests
+ *
+ * Drives a real server over the Streamable HTTP endpoint, without mocked
+ * handlers, to check who a request is attributed to.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import request from 'supertest';
+import { MCPEnterpriseServer } from '../../src/core/server';
+import { MCP_SESSION_HEADER } from '../../src/transports/streamable-http.transport';
+
+describe('HTTP session', () => {
+  let baseDir: string;
+  let rootDir: string;
+  let aliceDir: string;
+  let server: MCPEnterpriseServer;
+
+  const initialize = async (): Promise<string> => {
+    const response = await request(server['app'])
+      .post('/mcp')
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+      })
+      .expect(200);
+    const sessionId = response.headers[MCP_SESSION_HEADER.toLowerCase()] as string;
+
+    await request(server['app'])
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      .expect(202);
+    return sessionId;
+  };
+
+  beforeEach(async () => {
+    baseDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-http-session-')));
+    rootDir = join(baseDir, 'workspace');
+    aliceDir = join(baseDir, 'alice');
+    await fs.mkdir(rootDir);
+    await fs.mkdir(aliceDir);
+    await fs.writeFile(join(aliceDir, 'private.txt'), 'alice only');
+
+    vi.stubEnv('JWT_SECRET', 'x'.repeat(32));
+    vi.stubEnv('AUTH_ENABLED', 'false');
+    vi.stubEnv('HOST', '127.0.0.1');
+    vi.stubEnv('PORT', '0');
+    vi.stubEnv('WORKSPACE_ROOTS', rootDir);
+    server = new MCPEnterpriseServer({
+      workspace: { roots: [rootDir], userRoots: { alice: [aliceDir] } },
+    });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.unstubAllEnvs();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should not let an unauthenticated caller claim a user id', async () => {
+    const sessionId = await initialize();
+
+    const response = await request(server['app'])
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .set('x-user-id', 'alice')
+      .send({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'read_file', arguments: { path: join(aliceDir, 'private.txt') } },
+      })
+      .expect(200);
+
+    expect(response.body.result.isError).toBe(true);
+    expect(JSON.stringify(response.body.result.content)).not.toContain('alice only');
+  });
+});
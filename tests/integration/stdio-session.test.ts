@@ -0,0 +1,78 @@
+/**
+ * Stdio Session Integration Tests
+ *
+ * Drives a real server over the stdio transport, without mocked handlers:
+ * the initialize handshake in its spec form, then tool calls.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PassThrough } from 'stream';
+import { createInterface } from 'readline';
+import { MCPEnterpriseServer } from '../../src/core/server';
+
+describe('stdio session', () => {
+  let rootDir: string;
+  let server: MCPEnterpriseServer;
+  let input: PassThrough;
+  let replies: AsyncIterableIterator<string>;
+
+  const send = (message: Record<string, unknown>) => input.write(`${JSON.stringify(message)}\n`);
+
+  const nextReply = async (): Promise<Record<string, unknown>> => {
+    const { value } = await replies.next();
+    return JSON.parse(value as string);
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-stdio-session-')));
+    await fs.writeFile(join(rootDir, 'notes.txt'), 'hello from the workspace');
+
+    input = new PassThrough();
+    const output = new PassThrough();
+    replies = createInterface({ input: output })[Symbol.asyncIterator]();
+
+    vi.stubEnv('JWT_SECRET', 'x'.repeat(32));
+    vi.stubEnv('WORKSPACE_ROOTS', rootDir);
+    server = new MCPEnterpriseServer();
+    await server.startStdio({ input, output });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    vi.unstubAllEnvs();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should run tools after a params-less notifications/initialized', async () => {
+    send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+    });
+    expect(await nextReply()).toMatchObject({ id: 1, result: { protocolVersion: '2024-11-05' } });
+
+    send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    send({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'read_file', arguments: { path: 'notes.txt' } } });
+
+    const reply = await nextReply();
+    expect(reply).toMatchObject({ id: 2, result: { content: expect.any(Array) } });
+    expect((reply['result'] as { content: { text: string }[] }).content[0]?.text).toBe('hello from the workspace');
+  });
+
+  it('should answer params-less requests instead of failing them', async () => {
+    send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+    expect(await nextReply()).toMatchObject({ id: 1, result: {} });
+
+    send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(await nextReply()).toMatchObject({ id: 2, result: { tools: expect.any(Array) } });
+
+    send({ jsonrpc: '2.0', id: 3, method: 'tools/call' });
+    expect(await nextReply()).toMatchObject({ id: 3, error: { code: -32602 } });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Access Policy Unit Tests
+ *
+ * Tests role-based evaluation of tool names, workspace path globs and
+ * resource URI patterns, including deny-over-allow precedence.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AccessPolicy } from '../../src/core/access-policy';
+import { AccessPolicyDocument } from '../../src/types/mcp';
+
+describe('AccessPolicy', () => {
+  const roles = ['admin', 'user', 'readonly', 'auditor'];
+
+  const document: AccessPolicyDocument = {
+    roles: {
+      user: {
+        permissions: ['read', 'write'],
+        allow: { tools: ['*'], paths: ['**'], resources: ['file:///srv/**'] },
+        deny: { paths: ['secrets/**', '/etc/**'] },
+      },
+      readonly: {
+        permissions: ['read'],
+        allow: { tools: ['read_*', 'list_directory'], paths: ['docs/**'] },
+      },
+      auditor: {
+        allow: { tools: ['*'] },
+        deny: { tools: ['write_file'] },
+      },
+    },
+  };
+
+  let policy: AccessPolicy;
+
+  beforeEach(() => {
+    policy = new AccessPolicy(document, roles);
+  });
+
+  it('should hide write_file from the default readonly role', () => {
+    const defaults = new AccessPolicy(AccessPolicy.DEFAULT_DOCUMENT, roles);
+
+    expect(defaults.canUseTool(['readonly'], 'write_file')).toBe(false);
+    expect(defaults.canUseTool(['readonly'], 'edit_file')).toBe(false);
+    expect(defaults.canUseTool(['readonly'], 'restore_file_version')).toBe(false);
+    expect(defaults.canUseTool(['readonly'], 'delete_file')).toBe(false);
+    expect(defaults.canUseTool(['readonly'], 'read_file')).toBe(true);
+    expect(defaults.canUseTool(['user'], 'write_file')).toBe(true);
+  });
+
+  it('should match tool names against glob patterns', () => {
+    expect(policy.canUseTool(['readonly'], 'read_file')).toBe(true);
+    expect(policy.canUseTool(['readonly'], 'write_file')).toBe(false);
+  });
+
+  it('should let a deny in any role override allows from other roles', () => {
+    expect(policy.canUseTool(['user'], 'write_file')).toBe(true);
+    expect(policy.canUseTool(['user', 'auditor'], 'write_file')).toBe(false);
+  });
+
+  it('should deny callers without configured roles', () => {
+    expect(policy.canUseTool([], 'read_file')).toBe(false);
+    expect(policy.canUseTool(['guest'], 'read_file')).toBe(false);
+  });
+
+  it('should match relative path globs against the root-relative path', () => {
+    expect(policy.canAccessPath(['readonly'], { absolute: '/ws/docs/a/b.md', relative: 'docs/a/b.md' })).toBe(true);
+    expect(policy.canAccessPath(['readonly'], { absolute: '/ws/src/a.ts', relative: 'src/a.ts' })).toBe(false);
+    expect(policy.canAccessPath(['user'], { absolute: '/ws/secrets/key', relative: 'secrets/key' })).toBe(false);
+  });
+
+  it('should let a trailing globstar cover the directory itself', () => {
+    expect(policy.canAccessPath(['user'], { absolute: '/ws/secrets', relative: 'secrets' })).toBe(false);
+    expect(policy.canAccessPath(['user'], { absolute: '/ws/secrets-old', relative: 'secrets-old' })).toBe(true);
+    expect(policy.canAccessPath(['readonly'], { absolute: '/ws/docs', relative: 'docs' })).toBe(true);
+  });
+
+  it('should match absolute path globs against the real path', () => {
+    expect(policy.canAccessPath(['user'], { absolute: '/etc/passwd', relative: 'passwd' })).toBe(false);
+    expect(policy.canAccessPath(['user'], { absolute: '/ws/notes.txt', relative: 'notes.txt' })).toBe(true);
+  });
+
+  it('should match resource URIs against patterns', () => {
+    expect(policy.canAccessResource(['user'], 'file:///srv/data/report.csv')).toBe(true);
+    expect(policy.canAccessResource(['user'], 'file:///home/alice/notes')).toBe(false);
+    expect(policy.canAccessResource(['readonly'], 'file:///srv/data/report.csv')).toBe(false);
+  });
+
+  it('should collect permissions granted by roles', () => {
+    expect(policy.grantedPermissions(['user', 'readonly']).sort()).toEqual(['read', 'write']);
+  });
+
+  describe('fromFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'mcp-policy-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load a policy file', async () => {
+      const file = join(dir, 'policy.json');
+      await fs.writeFile(file, JSON.stringify(document));
+
+      expect(AccessPolicy.fromFile(file, roles).canUseTool(['readonly'], 'read_file')).toBe(true);
+    });
+
+    it('should reject roles that are not configured', async () => {
+      const file = join(dir, 'policy.json');
+      await fs.writeFile(file, JSON.stringify({ roles: { root: { allow: { tools: ['*'] } } } }));
+
+      expect(() => AccessPolicy.fromFile(file, roles)).toThrow('unconfigured roles: root');
+    });
+
+    it('should reject malformed rules', async () => {
+      const file = join(dir, 'policy.json');
+      await fs.writeFile(file, JSON.stringify({ roles: { user: { allow: { tools: 'write_file' } } } }));
+
+      expect(() => AccessPolicy.fromFile(file, roles)).toThrow('Invalid access policy');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Backup Store Unit Tests
+ *
+ * Tests saving, listing and reading file versions, and pruning by count,
+ * age and total size.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { BackupStore } from '../../src/core/backup-store';
+import { BackupConfig, Logger } from '../../src/types/mcp';
+
+describe('BackupStore', () => {
+  let testDir: string;
+  let mockLogger: Logger;
+
+  const createStore = (config: Partial<BackupConfig> = {}): BackupStore =>
+    new BackupStore(mockLogger, {
+      directory: join(testDir, 'backups'),
+      maxVersionsPerFile: 10,
+      maxAgeDays: 0,
+      maxTotalSizeMb: 1,
+      ...config,
+    });
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(join(tmpdir(), 'mcp-filebridge-backups-'));
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as Logger;
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should save versions and read them back newest first', async () => {
+    const store = createStore();
+    const file = join(testDir, 'notes.txt');
+
+    await fs.writeFile(file, 'first');
+    const first = await store.save(file, 'write_file');
+    await fs.writeFile(file, 'second');
+    const second = await store.save(file, 'edit_file');
+
+    const versions = await store.list(file);
+    expect(versions.map(version => version.id)).toEqual([second!.id, first!.id]);
+    expect(versions[0]!.reason).toBe('edit_file');
+
+    const saved = await store.read(file, first!.id);
+    expect(saved!.data.toString()).toBe('first');
+    expect(await store.read(file, 'missing')).toBeUndefined();
+  });
+
+  it('should skip missing files and unchanged content', async () => {
+    const store = createStore();
+    const file = join(testDir, 'notes.txt');
+
+    expect(await store.save(file, 'write_file')).toBeUndefined();
+
+    await fs.writeFile(file, 'same');
+    const first = await store.save(file, 'write_file');
+    const again = await store.save(file, 'write_file');
+
+    expect(again!.id).toBe(first!.id);
+    expect(await store.list(file)).toHaveLength(1);
+  });
+
+  it('should keep at most the configured number of versions per file', async () => {
+    const store = createStore({ maxVersionsPerFile: 2 });
+    const file = join(testDir, 'notes.txt');
+
+    for (const content of ['one', 'two', 'three']) {
+      await fs.writeFile(file, content);
+      await store.save(file, 'write_file');
+    }
+
+    const versions = await store.list(file);
+    expect(versions).toHaveLength(2);
+    expect((await store.read(file, versions[1]!.id))!.data.toString()).toBe('two');
+  });
+
+  it('should drop versions older than the age limit', async () => {
+    const store = createStore({ maxAgeDays: 1 });
+    const file = join(testDir, 'notes.txt');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    await fs.writeFile(file, 'old');
+    await store.save(file, 'write_file');
+
+    vi.setSystemTime(new Date('2026-01-03T00:00:00Z'));
+    await fs.writeFile(file, 'new');
+    await store.save(file, 'write_file');
+
+    const versions = await store.list(file);
+    expect(versions).toHaveLength(1);
+    expect(versions[0]!.createdAt).toBe('2026-01-03T00:00:00.000Z');
+  });
+
+  it('should drop the oldest versions across files beyond the total size limit', async () => {
+    const store = createStore({ maxTotalSizeMb: 1 });
+    const first = join(testDir, 'first.bin');
+    const second = join(testDir, 'second.bin');
+
+    await fs.writeFile(first, Buffer.alloc(600 * 1024, 1));
+    await store.save(first, 'write_file');
+    await fs.writeFile(second, Buffer.alloc(600 * 1024, 2));
+    await store.save(second, 'write_file');
+
+    expect(await store.list(first)).toHaveLength(0);
+    expect(await store.list(second)).toHaveLength(1);
+  });
+
+  it('should keep the version just saved even when it alone exceeds the size limit', async () => {
+    const store = createStore({ maxTotalSizeMb: 1 });
+    const filePath = join(testDir, 'large.bin');
+    await fs.writeFile(filePath, Buffer.alloc(2 * 1024 * 1024, 1));
+
+    const version = await store.save(filePath, 'write_file');
+
+    expect(version).toBeDefined();
+    expect((await store.read(filePath, version!.id))?.data.length).toBe(2 * 1024 * 1024);
+  });
+
+  it('should count versions already in the store and those pruned per file towards the size limit', async () => {
+    const first = join(testDir, 'first.bin');
+    const second = join(testDir, 'second.bin');
+    const third = join(testDir, 'third.bin');
+
+    await fs.writeFile(first, Buffer.alloc(400 * 1024, 1));
+    await createStore().save(first, 'write_file');
+
+    const store = createStore({ maxVersionsPerFile: 1 });
+    await fs.writeFile(second, Buffer.alloc(400 * 1024, 2));
+    await store.save(second, 'write_file');
+    await fs.writeFile(second, Buffer.alloc(400 * 1024, 3));
+    await store.save(second, 'write_file');
+    expect(await store.list(first)).toHaveLength(1);
+
+    await fs.writeFile(third, Buffer.alloc(400 * 1024, 4));
+    await store.save(third, 'write_file');
+    expect(await store.list(first)).toHaveLength(0);
+    expect(await store.list(second)).toHaveLength(1);
+    expect(await store.list(third)).toHaveLength(1);
+  });
+});
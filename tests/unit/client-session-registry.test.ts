@@ -0,0 +1,96 @@
+/**
+ * Client Session Registry Unit Tests
+ *
+ * Tests protocol version negotiation, initialize parameter validation and
+ * the initialized handshake state kept per session.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ClientSessionRegistry,
+  UnsupportedProtocolVersionError,
+  InitializeError,
+  negotiateProtocolVersion,
+} from '../../src/core/client-session-registry';
+import { JsonRpcErrorCode, Logger } from '../../src/types/mcp';
+
+describe('negotiateProtocolVersion', () => {
+  const supported = ['2025-03-26', '2024-11-05'];
+
+  it('should accept versions the server speaks', () => {
+    expect(negotiateProtocolVersion('2024-11-05', supported)).toBe('2024-11-05');
+    expect(negotiateProtocolVersion('2025-03-26', supported)).toBe('2025-03-26');
+  });
+
+  it('should offer the newest version not newer than the request', () => {
+    expect(negotiateProtocolVersion('2026-01-01', supported)).toBe('2025-03-26');
+    expect(negotiateProtocolVersion('2025-01-15', supported)).toBe('2024-11-05');
+  });
+
+  it('should reject older and malformed versions', () => {
+    expect(() => negotiateProtocolVersion('2024-01-01', supported)).toThrow(UnsupportedProtocolVersionError);
+    expect(() => negotiateProtocolVersion('latest', supported)).toThrow('Unsupported protocol version: latest');
+  });
+});
+
+describe('ClientSessionRegistry', () => {
+  let registry: ClientSessionRegistry;
+
+  const params = {
+    protocolVersion: '2024-11-05',
+    capabilities: { roots: { listChanged: true } },
+    clientInfo: { name: 'test-client', version: '1.2.3' },
+  };
+
+  beforeEach(() => {
+    const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    registry = new ClientSessionRegistry(mockLogger);
+  });
+
+  it('should record the negotiated version, capabilities and client info', () => {
+    const session = registry.initialize('s-1', params);
+
+    expect(session).toMatchObject({
+      sessionId: 's-1',
+      protocolVersion: '2024-11-05',
+      capabilities: { roots: { listChanged: true } },
+      clientInfo: { name: 'test-client', version: '1.2.3' },
+      ready: false,
+    });
+    expect(registry.getSession('s-1')).toBe(session);
+  });
+
+  it('should become ready only after the initialized notification', () => {
+    registry.initialize('s-1', params);
+    expect(registry.isReady('s-1')).toBe(false);
+
+    expect(registry.markReady('s-1')).toBe(true);
+    expect(registry.isReady('s-1')).toBe(true);
+    expect(registry.markReady('unknown')).toBe(false);
+  });
+
+  it('should reject malformed parameters and repeated initialization', () => {
+    expect(() => registry.initialize('s-1', { protocolVersion: '2024-11-05' })).toThrow(InitializeError);
+
+    registry.initialize('s-1', params);
+    registry.markReady('s-1');
+
+    try {
+      registry.initialize('s-1', params);
+      expect.fail('expected repeated initialize to be rejected');
+    } catch (error) {
+      expect(error).toBeInstanceOf(InitializeError);
+      expect((error as InitializeError).code).toBe(JsonRpcErrorCode.INVALID_REQUEST);
+    }
+  });
+
+  it('should forget removed sessions', () => {
+    registry.initialize('s-1', params);
+    registry.removeSession('s-1');
+
+    expect(registry.getSession('s-1')).toBeUndefined();
+    expect(registry.getSessionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Directory Walker Unit Tests
+ *
+ * Tests ignore-file parsing and matching, and walking with ignore files,
+ * exclude patterns, reserved paths, depth limits and symlink loops.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join, relative, sep } from 'path';
+import { tmpdir } from 'os';
+import { WalkOptions, isWalked, walkDirectory } from '../../src/tools/directory-walker';
+import { isIgnored, parseIgnoreRules } from '../../src/tools/ignore-rules';
+
+describe('ignore rules', () => {
+  it('should match bare names at any depth and anchored patterns from their base', () => {
+    const rules = parseIgnoreRules('# build output\n*.log\n/dist\nsrc/**/*.gen.ts\n', '');
+
+    expect(isIgnored(rules, 'a/b/debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'dist', true)).toBe(true);
+    expect(isIgnored(rules, 'packages/dist', true)).toBe(false);
+    expect(isIgnored(rules, 'src/api/client.gen.ts', false)).toBe(true);
+    expect(isIgnored(rules, 'src/api/client.ts', false)).toBe(false);
+  });
+
+  it('should let later negations re-include paths', () => {
+    const rules = parseIgnoreRules('*.env\n!example.env\n');
+
+    expect(isIgnored(rules, 'prod.env', false)).toBe(true);
+    expect(isIgnored(rules, 'config/example.env', false)).toBe(false);
+  });
+
+  it('should apply directory-only patterns to directories', () => {
+    const rules = parseIgnoreRules('cache/\n');
+
+    expect(isIgnored(rules, 'cache', true)).toBe(true);
+    expect(isIgnored(rules, 'cache', false)).toBe(false);
+  });
+
+  it('should limit rules to the directory of their ignore file', () => {
+    const rules = parseIgnoreRules('/out\n[Tt]emp\n', 'web');
+
+    expect(isIgnored(rules, 'web/out', true)).toBe(true);
+    expect(isIgnored(rules, 'out', true)).toBe(false);
+    expect(isIgnored(rules, 'web/x/Temp', true)).toBe(true);
+    expect(isIgnored(rules, 'Temp', true)).toBe(false);
+  });
+});
+
+describe('walkDirectory', () => {
+  let rootDir: string;
+
+  const walk = async (start: string, options: Partial<WalkOptions> = {}): Promise<string[]> => {
+    const paths: string[] = [];
+    for await (const entry of walkDirectory(start, {
+      maxDepth: Infinity,
+      includeHidden: false,
+      includeIgnored: false,
+      exclude: [],
+      root: rootDir,
+      canFollow: async () => true,
+      ...options,
+    })) {
+      paths.push(relative(rootDir, entry.path).split(sep).join('/'));
+    }
+    return paths.sort();
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(join(tmpdir(), 'mcp-filebridge-walk-'));
+    await fs.mkdir(join(rootDir, 'src', 'lib'), { recursive: true });
+    await fs.mkdir(join(rootDir, 'node_modules', 'pkg'), { recursive: true });
+    await fs.writeFile(join(rootDir, '.gitignore'), '*.log\nbuild/\n');
+    await fs.writeFile(join(rootDir, 'src', '.ignore'), 'secret.ts\n');
+    await fs.writeFile(join(rootDir, 'src', 'index.ts'), '');
+    await fs.writeFile(join(rootDir, 'src', 'secret.ts'), '');
+    await fs.writeFile(join(rootDir, 'src', 'lib', 'util.ts'), '');
+    await fs.writeFile(join(rootDir, 'src', 'lib', 'trace.log'), '');
+    await fs.writeFile(join(rootDir, 'node_modules', 'pkg', 'index.js'), '');
+    await fs.mkdir(join(rootDir, 'build'));
+    await fs.writeFile(join(rootDir, 'build', 'out.js'), '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should skip ignored entries and excluded patterns', async () => {
+    expect(await walk(rootDir, { exclude: ['node_modules'] })).toEqual([
+      'src',
+      'src/index.ts',
+      'src/lib',
+      'src/lib/util.ts',
+    ]);
+  });
+
+  it('should apply ignore files above the start directory', async () => {
+    expect(await walk(join(rootDir, 'src', 'lib'))).toEqual(['src/lib/util.ts']);
+  });
+
+  it('should walk everything when ignored entries are included', async () => {
+    const paths = await walk(rootDir, { includeIgnored: true, includeHidden: true, exclude: ['node_modules'] });
+
+    expect(paths).toContain('build/out.js');
+    expect(paths).toContain('node_modules/pkg/index.js');
+    expect(paths).toContain('src/secret.ts');
+    expect(paths).toContain('.gitignore');
+  });
+
+  it('should never walk reserved paths, but walk them when started inside', async () => {
+    await fs.mkdir(join(rootDir, '.trash', '1-a-old'), { recursive: true });
+    await fs.writeFile(join(rootDir, '.trash', '1-a-old', 'notes.md'), '');
+    const options = { includeIgnored: true, includeHidden: true, reserved: ['.trash'] };
+
+    expect((await walk(rootDir, options)).filter(path => path.startsWith('.trash'))).toEqual([]);
+    expect(await walk(join(rootDir, '.trash'), options)).toEqual(['.trash/1-a-old', '.trash/1-a-old/notes.md']);
+    expect(await isWalked(rootDir, join(rootDir, '.trash', '1-a-old', 'notes.md'), false, { ...options, exclude: [] }))
+      .toBe(false);
+  });
+
+  it('should stop at the maximum depth', async () => {
+    expect(await walk(rootDir, { maxDepth: 1, exclude: ['node_modules'] })).toEqual(['src']);
+  });
+
+  it('should not follow symlinks back into the directories being walked', async () => {
+    await fs.symlink(join(rootDir, 'src'), join(rootDir, 'src', 'lib', 'loop'));
+
+    const paths = await walk(rootDir, { exclude: ['node_modules'] });
+
+    expect(paths).toContain('src/lib/loop');
+    expect(paths.filter(path => path.startsWith('src/lib/loop/'))).toEqual([]);
+  });
+
+  it('should tell whether a walk from the root reaches a path', async () => {
+    const options = { includeHidden: false, includeIgnored: false, exclude: ['node_modules'] };
+
+    expect(await isWalked(rootDir, join(rootDir, 'src', 'lib', 'util.ts'), false, options)).toBe(true);
+    expect(await isWalked(rootDir, join(rootDir, 'src', 'secret.ts'), false, options)).toBe(false);
+    expect(await isWalked(rootDir, join(rootDir, 'build', 'out.js'), false, options)).toBe(false);
+    expect(await isWalked(rootDir, join(rootDir, 'node_modules', 'pkg'), true, options)).toBe(false);
+    expect(await isWalked(rootDir, join(rootDir, '.gitignore'), false, options)).toBe(false);
+  });
+});
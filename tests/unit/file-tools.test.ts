@@ -9,10 +9,14 @@
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { join, relative } from 'path';
 import { tmpdir } from 'os';
 import { FileOperationTools } from '../../src/tools/file-tools';
-import { Logger } from '../../src/types/mcp';
+import { WorkspaceSandbox } from '../../src/core/workspace-sandbox';
+import { BackupStore } from '../../src/core/backup-store';
+import { AccessPolicy } from '../../src/core/access-policy';
+import { NotFoundError, ToolError, ToolTimeoutError } from '../../src/tools/tool-errors';
+import { Logger, McpErrorCode, PathAuthorizer, SecurityContext } from '../../src/types/mcp';
 
 describe('FileOperationTools', () => {
   let fileTools: FileOperationTools;
@@ -29,8 +33,17 @@ describe('FileOperationTools', () => {
       debug: jest.fn()
     } as Logger;
 
-    fileTools = new FileOperationTools(mockLogger);
     testDir = join(tmpdir(), 'mcp-filebridge-test-' + Date.now());
+    fileTools = new FileOperationTools(
+      mockLogger,
+      new WorkspaceSandbox({ roots: [tmpdir()], userRoots: {} }),
+      new BackupStore(mockLogger, {
+        directory: join(testDir, '.backups'),
+        maxVersionsPerFile: 5,
+        maxAgeDays: 0,
+        maxTotalSizeMb: 1
+      })
+    );
     testFile = join(testDir, 'test.txt');
     testImage = join(testDir, 'test.jpg');
   });
@@ -55,9 +68,10 @@ describe('FileOperationTools', () => {
         encoding: 'utf8'
       });
 
-      expect(result.content).toHaveLength(1);
-      expect(result.content[0].text).toContain('Hello, World!');
-      expect(result.content[0].text).toContain('test.txt');
+      expect(result.content).toHaveLength(2);
+      expect(result.content[0].text).toBe('Hello, World!\nThis is a test file.');
+      expect(result.content[1].text).toContain('lines 1-2');
+      expect(result.content[1].text).toContain('end of file');
       expect(mockLogger.info).toHaveBeenCalledWith('File read completed', expect.any(Object));
     });
 
@@ -66,18 +80,17 @@ describe('FileOperationTools', () => {
 
       await expect(fileTools.executeReadFile({
         path: nonexistentFile
-      })).rejects.toThrow('File access denied');
+      })).rejects.toBeInstanceOf(NotFoundError);
 
       expect(mockLogger.error).toHaveBeenCalledWith('File read failed', expect.any(Error), expect.any(Object));
     });
 
-    it('should respect max_size limit', async () => {
-      await expect(fileTools.executeReadFile({
-        path: testFile,
-        max_size: 5 // Very small limit
-      })).rejects.toThrow('File too large');
+    it('should report paths outside the workspace as tool errors', async () => {
+      const error = await fileTools.executeReadFile({ path: '/etc/hostname' }).catch(failure => failure);
 
-      expect(mockLogger.error).toHaveBeenCalledWith('File read failed', expect.any(Error), expect.any(Object));
+      expect(error).toBeInstanceOf(ToolError);
+      expect(error.kind).toBe('permission_denied');
+      expect(error.code).toBe(McpErrorCode.WORKSPACE_VIOLATION);
     });
 
     it('should auto-detect encoding', async () => {
@@ -86,7 +99,73 @@ describe('FileOperationTools', () => {
         encoding: 'auto'
       });
 
-      expect(result.content[0].text).toContain('utf8');
+      expect(result.content[0].text).toContain('Hello, World!');
+    });
+  });
+
+  describe('executeReadFile ranges', () => {
+    const cursorOf = (text: string): string => /cursor "([^"]+)"/.exec(text)![1]!;
+
+    beforeEach(async () => {
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(testFile, Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+    });
+
+    it('should read a range of lines', async () => {
+      const result = await fileTools.executeReadFile({ path: testFile, offset: 2, limit: 3 });
+
+      expect(result.content[0].text).toBe('line 3\nline 4\nline 5\n');
+      expect(result.content[1].text).toContain('lines 3-5');
+    });
+
+    it('should read a range of bytes', async () => {
+      const result = await fileTools.executeReadFile({ path: testFile, unit: 'bytes', offset: 7, limit: 6 });
+
+      expect(result.content[0].text).toBe('line 2');
+      expect(result.content[1].text).toContain('bytes 7-13');
+    });
+
+    it('should read the last lines of a file', async () => {
+      const result = await fileTools.executeReadFile({ path: testFile, tail: 2 });
+
+      expect(result.content[0].text).toBe('line 9\nline 10\n');
+      expect(result.content[1].text).toContain('end of file');
+    });
+
+    it('should page through a file with a cursor', async () => {
+      const first = await fileTools.executeReadFile({ path: testFile, limit: 4 });
+      const second = await fileTools.executeReadFile({ path: testFile, cursor: cursorOf(first.content[1].text) });
+      const third = await fileTools.executeReadFile({ path: testFile, cursor: cursorOf(second.content[1].text) });
+
+      expect(first.content[0].text).toBe('line 1\nline 2\nline 3\nline 4\n');
+      expect(second.content[0].text).toBe('line 5\nline 6\nline 7\nline 8\n');
+      expect(second.content[1].text).toContain('lines 5-8');
+      expect(third.content[0].text).toBe('line 9\nline 10\n');
+      expect(third.content[1].text).toContain('end of file');
+    });
+
+    it('should split files larger than max_size into chunks', async () => {
+      await fs.writeFile(testFile, 'x'.repeat(1500) + '\n' + 'y'.repeat(600) + '\n');
+
+      const first = await fileTools.executeReadFile({ path: testFile, max_size: 1024 });
+      const second = await fileTools.executeReadFile({ path: testFile, max_size: 1024, cursor: cursorOf(first.content[1].text) });
+      const third = await fileTools.executeReadFile({ path: testFile, max_size: 1024, cursor: cursorOf(second.content[1].text) });
+
+      expect(first.content[0].text).toBe('x'.repeat(1024));
+      expect(first.content[1].text).toContain('line 1, bytes 0-1024 of 2102, last line continues');
+      expect(second.content[0].text).toBe('x'.repeat(476) + '\n');
+      expect(third.content[0].text).toBe('y'.repeat(600) + '\n');
+      expect(third.content[1].text).toContain('line 2');
+    });
+
+    it('should reject a cursor for a file that changed', async () => {
+      const first = await fileTools.executeReadFile({ path: testFile, limit: 4 });
+      await fs.utimes(testFile, new Date(), new Date(Date.now() + 60000));
+
+      await expect(fileTools.executeReadFile({
+        path: testFile,
+        cursor: cursorOf(first.content[1].text)
+      })).rejects.toThrow('changed since the cursor was issued');
     });
   });
 
@@ -128,7 +207,7 @@ describe('FileOperationTools', () => {
       expect(writtenContent).toBe('Nested content');
     });
 
-    it('should create backup when requested', async () => {
+    it('should keep backups in the backup store and restore them', async () => {
       const backupFile = join(testDir, 'backup.txt');
       await fs.writeFile(backupFile, 'Original content');
 
@@ -138,15 +217,46 @@ describe('FileOperationTools', () => {
         backup: true
       });
 
-      // Check backup was created
-      const backupFiles = await fs.readdir(testDir);
-      const backupPattern = backupFiles.find(file => file.startsWith('backup.txt.backup.'));
-      expect(backupPattern).toBeDefined();
+      // No backup copy is left next to the file
+      expect(await fs.readdir(testDir)).toEqual(['.backups', 'backup.txt']);
+
+      const listed = await fileTools.executeListFileVersions({ path: backupFile });
+      const versionId = /• (\S+)/.exec(listed.content[0].text as string)![1]!;
+      expect(listed.content[0].text).toContain('replaced by write_file');
+
+      const restored = await fileTools.executeRestoreFileVersion({ path: backupFile, version_id: versionId });
+      expect(restored.content[0].text).toContain('-New content');
+      expect(restored.content[0].text).toContain('+Original content');
+      expect(await fs.readFile(backupFile, 'utf8')).toBe('Original content');
 
-      const backupContent = await fs.readFile(join(testDir, backupPattern!), 'utf8');
-      expect(backupContent).toBe('Original content');
+      // The restore itself can be undone
+      const afterRestore = await fileTools.executeListFileVersions({ path: backupFile });
+      expect(afterRestore.content[0].text).toContain('Versions of ' + backupFile + ': 2');
+      expect(afterRestore.content[0].text).toContain('replaced by restore_file_version');
+    });
+
+    it('should write only while the file is unchanged', async () => {
+      const target = join(testDir, 'shared.txt');
+      await fs.writeFile(target, 'first version');
+
+      const read = await fileTools.executeReadFile({ path: target });
+      const [, hash, mtime] = /sha256 ([0-9a-f]{64}), modified (\S+);/.exec(read.content[1].text)!;
 
-      expect(mockLogger.info).toHaveBeenCalledWith('Backup created', expect.any(Object));
+      await fileTools.executeWriteFile({ path: target, content: 'second version', expected_hash: hash, expected_mtime: mtime });
+      expect(await fs.readFile(target, 'utf8')).toBe('second version');
+
+      await expect(fileTools.executeWriteFile({
+        path: target,
+        content: 'lost update',
+        expected_hash: hash
+      })).rejects.toThrow('Conflict: ');
+      expect(await fs.readFile(target, 'utf8')).toBe('second version');
+    });
+
+    it('should leave no temporary files behind', async () => {
+      await fileTools.executeWriteFile({ path: join(testDir, 'atomic.txt'), content: 'content' });
+
+      expect(await fs.readdir(testDir)).toEqual(['atomic.txt']);
     });
 
     it('should handle write errors', async () => {
@@ -161,6 +271,208 @@ describe('FileOperationTools', () => {
     });
   });
 
+  describe('file management', () => {
+    let managed: FileOperationTools;
+
+    beforeEach(async () => {
+      await fs.mkdir(join(testDir, 'docs', 'drafts'), { recursive: true });
+      await fs.writeFile(join(testDir, 'docs', 'readme.md'), 'readme');
+      await fs.writeFile(join(testDir, 'docs', 'drafts', 'plan.md'), 'plan');
+
+      // Rooted at the test directory so the trash stays inside it
+      managed = new FileOperationTools(mockLogger, new WorkspaceSandbox({ roots: [testDir], userRoots: {} }));
+    });
+
+    it('should move a file and refuse to overwrite unless asked', async () => {
+      await fs.writeFile(join(testDir, 'other.md'), 'other');
+
+      await managed.executeMoveFile({ source: 'docs/readme.md', destination: 'archive/readme.md' });
+      expect(await fs.readFile(join(testDir, 'archive', 'readme.md'), 'utf8')).toBe('readme');
+
+      await expect(managed.executeMoveFile({ source: 'other.md', destination: 'archive/readme.md' }))
+        .rejects.toThrow('Conflict: archive/readme.md already exists');
+
+      await managed.executeMoveFile({ source: 'other.md', destination: 'archive/readme.md', overwrite: true });
+      expect(await fs.readFile(join(testDir, 'archive', 'readme.md'), 'utf8')).toBe('other');
+    });
+
+    it('should not move a directory into itself', async () => {
+      await expect(managed.executeMoveFile({ source: 'docs', destination: 'docs/drafts/docs' }))
+        .rejects.toThrow('Cannot move docs into itself');
+    });
+
+    it('should copy directories only when recursive', async () => {
+      await expect(managed.executeCopyFile({ source: 'docs', destination: 'copy' }))
+        .rejects.toThrow('pass recursive to copy it');
+
+      await managed.executeCopyFile({ source: 'docs', destination: 'copy', recursive: true });
+      expect(await fs.readFile(join(testDir, 'copy', 'drafts', 'plan.md'), 'utf8')).toBe('plan');
+      expect(await fs.readFile(join(testDir, 'docs', 'drafts', 'plan.md'), 'utf8')).toBe('plan');
+    });
+
+    it('should move deleted entries to the trash by default', async () => {
+      await expect(managed.executeDeleteFile({ path: 'docs' })).rejects.toThrow('Directory not empty');
+
+      const result = await managed.executeDeleteFile({ path: 'docs', recursive: true });
+
+      expect(result.content[0].text).toContain('Directory deleted');
+      await expect(fs.access(join(testDir, 'docs'))).rejects.toThrow();
+      const [trashed] = await fs.readdir(join(testDir, '.trash'));
+      expect(trashed).toMatch(/-docs$/);
+      expect(await fs.readFile(join(testDir, '.trash', trashed!, 'readme.md'), 'utf8')).toBe('readme');
+    });
+
+    it('should keep the trash out of listings and searches', async () => {
+      await managed.executeDeleteFile({ path: 'docs/readme.md' });
+
+      const listing = await managed.executeListDirectory({
+        path: '.',
+        recursive: true,
+        include_hidden: true,
+        include_ignored: true
+      });
+      const search = await managed.executeSearchFiles({ directory: '.', content_search: 'readme', include_ignored: true });
+      const trash = await managed.executeListDirectory({ path: '.trash', include_hidden: true });
+
+      expect(listing.content[0].text).not.toContain('.trash');
+      expect(search.content[0].text).not.toContain('.trash');
+      expect(trash.content[0].text).toContain('readme.md');
+    });
+
+    it('should prune the trash by age and size but keep the entry just deleted', async () => {
+      const pruning = new FileOperationTools(
+        mockLogger,
+        new WorkspaceSandbox({ roots: [testDir], userRoots: {}, trash: { maxAgeDays: 1, maxTotalSizeMb: 0.001 } })
+      );
+      await fs.mkdir(join(testDir, '.trash'));
+      await fs.writeFile(join(testDir, '.trash', `${Date.now() - 2 * 24 * 60 * 60 * 1000}-aaaaaaaa-expired.md`), 'old');
+      await fs.writeFile(join(testDir, '.trash', `${Date.now() - 1000}-bbbbbbbb-recent.md`), 'x'.repeat(600));
+      await fs.writeFile(join(testDir, 'large.md'), 'y'.repeat(2048));
+
+      await pruning.executeDeleteFile({ path: 'docs/readme.md' });
+      let entries = await fs.readdir(join(testDir, '.trash'));
+      expect(entries.some(name => name.endsWith('-expired.md'))).toBe(false);
+      expect(entries.some(name => name.endsWith('-recent.md'))).toBe(true);
+      expect(entries.some(name => name.endsWith('-readme.md'))).toBe(true);
+
+      // Over the size limit on its own, but never dropped right after being deleted
+      await pruning.executeDeleteFile({ path: 'large.md' });
+      entries = await fs.readdir(join(testDir, '.trash'));
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatch(/-large\.md$/);
+    });
+
+    it('should delete permanently when trash is off', async () => {
+      await managed.executeDeleteFile({ path: 'docs/readme.md', trash: false });
+
+      await expect(fs.access(join(testDir, 'docs', 'readme.md'))).rejects.toThrow();
+      await expect(fs.access(join(testDir, '.trash'))).rejects.toThrow();
+    });
+
+    it('should delete a symlink rather than its target', async () => {
+      await fs.symlink(join(testDir, 'docs', 'readme.md'), join(testDir, 'link.md'));
+
+      await managed.executeDeleteFile({ path: 'link.md', trash: false });
+
+      expect(await fs.readFile(join(testDir, 'docs', 'readme.md'), 'utf8')).toBe('readme');
+    });
+
+    it('should not write through dangling symlinks that point outside the workspace', async () => {
+      const outsideDir = `${testDir}-outside`;
+      await fs.mkdir(outsideDir);
+      await fs.symlink(join(outsideDir, 'written.md'), join(testDir, 'write-link.md'));
+      await fs.symlink(join(outsideDir, 'copied.md'), join(testDir, 'copy-link.md'));
+      await fs.symlink(join(outsideDir, 'moved.md'), join(testDir, 'move-link.md'));
+
+      try {
+        await expect(managed.executeWriteFile({ path: 'write-link.md', content: 'leak' }))
+          .rejects.toMatchObject({ code: McpErrorCode.WORKSPACE_VIOLATION });
+        await expect(managed.executeCopyFile({ source: 'docs/readme.md', destination: 'copy-link.md' }))
+          .rejects.toThrow('Conflict: copy-link.md already exists');
+
+        // Overwriting replaces the link itself rather than writing to its target
+        await managed.executeCopyFile({ source: 'docs/readme.md', destination: 'copy-link.md', overwrite: true });
+        await managed.executeMoveFile({ source: 'docs/drafts/plan.md', destination: 'move-link.md', overwrite: true });
+
+        expect(await fs.readdir(outsideDir)).toEqual([]);
+        expect((await fs.lstat(join(testDir, 'copy-link.md'))).isFile()).toBe(true);
+        expect(await fs.readFile(join(testDir, 'copy-link.md'), 'utf8')).toBe('readme');
+        expect(await fs.readFile(join(testDir, 'move-link.md'), 'utf8')).toBe('plan');
+      } finally {
+        await fs.rm(outsideDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should create directories with their parents', async () => {
+      const created = await managed.executeCreateDirectory({ path: 'a/b/c' });
+      const again = await managed.executeCreateDirectory({ path: 'a/b/c' });
+
+      expect(created.content[0].text).toContain('Directory created');
+      expect(again.content[0].text).toContain('Directory already exists');
+      expect((await fs.stat(join(testDir, 'a', 'b', 'c'))).isDirectory()).toBe(true);
+    });
+  });
+
+  describe('path policy', () => {
+    const context: SecurityContext = { roles: ['user'], permissions: ['read', 'write'], sessionId: 's', ipAddress: '::1' };
+    let guarded: FileOperationTools;
+
+    beforeEach(async () => {
+      await fs.mkdir(join(testDir, 'project', 'secrets'), { recursive: true });
+      await fs.writeFile(join(testDir, 'project', 'readme.md'), 'token: public');
+      await fs.writeFile(join(testDir, 'project', 'secrets', 'key.txt'), 'token: private');
+
+      const policy = new AccessPolicy({
+        roles: { user: { allow: { paths: ['**'] }, deny: { paths: ['project/secrets/**'] } } },
+      }, ['user']);
+      const authorizePath: PathAuthorizer = async (securityContext, path) =>
+        policy.canAccessPath(securityContext.roles, { absolute: path, relative: relative(testDir, path) });
+
+      guarded = new FileOperationTools(
+        mockLogger,
+        new WorkspaceSandbox({ roots: [testDir], userRoots: {} }),
+        undefined,
+        undefined,
+        authorizePath
+      );
+    });
+
+    it('should leave denied entries out of listings', async () => {
+      const result = await guarded.executeListDirectory({ path: 'project', recursive: true }, context);
+
+      expect(result.content[0].text).toContain('readme.md');
+      expect(result.content[0].text).not.toContain('secrets');
+      expect(result.content[0].text).not.toContain('key.txt');
+    });
+
+    it('should not search the content of denied files', async () => {
+      const result = await guarded.executeSearchFiles({ directory: 'project', content_search: 'token' }, context);
+
+      expect(result.content[0].text).toContain('readme.md');
+      expect(result.content[0].text).not.toContain('private');
+    });
+
+    it('should refuse to copy, move or delete directories holding denied entries', async () => {
+      await expect(guarded.executeCopyFile({ source: 'project', destination: 'copy', recursive: true }, context))
+        .rejects.toThrow('Permission denied: project');
+      await expect(guarded.executeMoveFile({ source: 'project', destination: 'moved' }, context))
+        .rejects.toThrow('Permission denied: project');
+      await expect(guarded.executeDeleteFile({ path: 'project', recursive: true }, context))
+        .rejects.toThrow('Permission denied: project');
+
+      expect(await fs.readFile(join(testDir, 'project', 'secrets', 'key.txt'), 'utf8')).toBe('token: private');
+      await expect(fs.access(join(testDir, 'copy'))).rejects.toThrow();
+    });
+
+    it('should refuse to copy allowed entries to a denied destination', async () => {
+      await fs.mkdir(join(testDir, 'public'));
+      await fs.writeFile(join(testDir, 'public', 'notes.md'), 'notes');
+
+      await expect(guarded.executeCopyFile({ source: 'public', destination: 'project/secrets/public', recursive: true }, context))
+        .rejects.toThrow('Permission denied: public');
+    });
+  });
+
   describe('executeListDirectory', () => {
     beforeEach(async () => {
       await fs.mkdir(testDir, { recursive: true });
@@ -216,6 +528,35 @@ describe('FileOperationTools', () => {
       expect(result.content[0].text).toContain('.hidden.txt');
     });
 
+    it('should leave out entries matched by .gitignore unless asked', async () => {
+      await fs.writeFile(join(testDir, '.gitignore'), 'subdir/\n');
+
+      const listed = await fileTools.executeListDirectory({ path: testDir, recursive: true });
+      const all = await fileTools.executeListDirectory({ path: testDir, recursive: true, include_ignored: true });
+
+      expect(listed.content[0].text).not.toContain('nested.txt');
+      expect(all.content[0].text).toContain('nested.txt');
+    });
+
+    it('should stop recursive listings at the maximum depth', async () => {
+      const result = await fileTools.executeListDirectory({ path: testDir, recursive: true, max_depth: 1 });
+
+      expect(result.content[0].text).toContain('subdir');
+      expect(result.content[0].text).not.toContain('nested.txt');
+    });
+
+    it('should filter entries by glob', async () => {
+      const result = await fileTools.executeListDirectory({
+        path: testDir,
+        recursive: true,
+        pattern: '*.txt'
+      });
+
+      expect(result.content[0].text).toContain('file1.txt');
+      expect(result.content[0].text).toContain('nested.txt');
+      expect(result.content[0].text).not.toContain('file2.js');
+    });
+
     it('should sort by different criteria', async () => {
       const result = await fileTools.executeListDirectory({
         path: testDir,
@@ -321,6 +662,16 @@ describe('FileOperationTools', () => {
       expect(result.content[0].text).not.toContain('test2.txt');
     });
 
+    it('should fail a search whose regular expression runs out of time', async () => {
+      await fs.writeFile(join(testDir, 'backtrack.txt'), `${'a'.repeat(40)}b`);
+
+      await expect(fileTools.executeSearchFiles({
+        directory: testDir,
+        content_search: '(a+)+$',
+        regex: true
+      })).rejects.toBeInstanceOf(ToolTimeoutError);
+    });
+
     it('should handle case insensitive search', async () => {
       const result = await fileTools.executeSearchFiles({
         directory: testDir,
@@ -331,6 +682,20 @@ describe('FileOperationTools', () => {
       expect(result.content[0].text).toContain('test1.txt');
     });
 
+    it('should match path globs and exclude negated ones', async () => {
+      await fs.writeFile(join(testDir, 'subdir', 'c++ notes (1).txt'), 'notes');
+
+      const result = await fileTools.executeSearchFiles({
+        directory: testDir,
+        pattern: ['subdir/**/*.{txt,md}', '!**/nested.*'],
+        output_mode: 'files_with_matches'
+      });
+
+      expect(result.content[0].text).toContain('c++ notes (1).txt');
+      expect(result.content[0].text).not.toContain('nested.txt');
+      expect(result.content[0].text).not.toContain('test1.txt');
+    });
+
     it('should respect max results limit', async () => {
       const result = await fileTools.executeSearchFiles({
         directory: testDir,
@@ -343,6 +708,44 @@ describe('FileOperationTools', () => {
       expect(content.split('📄').length).toBeLessThanOrEqual(3); // Header + 1 result + footer
     });
 
+    it('should show every matching line with context', async () => {
+      await fs.writeFile(join(testDir, 'notes.md'), 'todo: one\nfiller\nTODO two\nend\n');
+
+      const result = await fileTools.executeSearchFiles({
+        directory: testDir,
+        content_search: 'todo\\b',
+        regex: true,
+        context_lines: 1
+      });
+
+      expect(result.content[0].text).toContain('Matches: 2 on 2 lines');
+      expect(result.content[0].text).toContain('1:todo: one\n         2-filler\n         3:TODO two\n         4-end');
+    });
+
+    it('should only search files selected by the name pattern', async () => {
+      const result = await fileTools.executeSearchFiles({
+        directory: testDir,
+        pattern: 'nested*',
+        content_search: 'search content',
+        output_mode: 'files_with_matches'
+      });
+
+      expect(result.content[0].text).toContain(join(testDir, 'subdir', 'nested.txt'));
+      expect(result.content[0].text).not.toContain('test1.txt');
+    });
+
+    it('should count matching lines per file', async () => {
+      const result = await fileTools.executeSearchFiles({
+        directory: testDir,
+        content_search: 'content',
+        whole_word: true,
+        output_mode: 'count'
+      });
+
+      expect(result.content[0].text).toContain(`${join(testDir, 'test2.txt')}: 1`);
+      expect(result.content[0].text).not.toContain('script.js');
+    });
+
     it('should handle non-existent directories', async () => {
       const nonexistentDir = join(testDir, 'nonexistent');
 
@@ -405,8 +808,8 @@ describe('FileOperationTools', () => {
         max_size: 2000000 // 2MB limit
       });
 
-      expect(result.content[0].text).toContain('large.txt');
-      expect(result.content[0].text).toContain('1,000,000 bytes');
+      expect(result.content[0].text).toHaveLength(1000000);
+      expect(result.content[1].text).toContain('end of file');
     });
 
     it('should handle many files in directory', async () => {
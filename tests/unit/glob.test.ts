@@ -0,0 +1,76 @@
+/**
+ * Glob Unit Tests
+ *
+ * Tests glob translation (wildcards, globstar, braces, classes, escapes)
+ * and pattern lists with negation.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createGlobMatcher, globToRegExp } from '../../src/core/glob';
+
+describe('glob', () => {
+  const matches = (glob: string, path: string) => globToRegExp(glob).test(path);
+
+  it('should keep single stars and question marks within a segment', () => {
+    expect(matches('*.ts', 'index.ts')).toBe(true);
+    expect(matches('*.ts', 'src/index.ts')).toBe(false);
+    expect(matches('file?.txt', 'file1.txt')).toBe(true);
+    expect(matches('file?.txt', 'file/.txt')).toBe(false);
+  });
+
+  it('should let globstar segments span directories', () => {
+    expect(matches('**/*.test.ts', 'a.test.ts')).toBe(true);
+    expect(matches('**/*.test.ts', 'tests/unit/a.test.ts')).toBe(true);
+    expect(matches('src/**/index.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/**/index.ts', 'src/a/b/index.ts')).toBe(true);
+    expect(matches('docs/**', 'docs/guide/intro.md')).toBe(true);
+    expect(matches('a**b', 'a/x/b')).toBe(false);
+  });
+
+  it('should expand brace alternatives, nested ones included', () => {
+    expect(matches('*.{ts,tsx}', 'view.tsx')).toBe(true);
+    expect(matches('*.{ts,tsx}', 'view.js')).toBe(false);
+    expect(matches('{src,lib/{a,b}}/*.js', 'lib/b/x.js')).toBe(true);
+    expect(matches('{single}.js', '{single}.js')).toBe(true);
+    expect(globToRegExp('{a,b}', { braces: false }).test('{a,b}')).toBe(true);
+  });
+
+  it('should support character classes and their negation', () => {
+    expect(matches('[abc].txt', 'b.txt')).toBe(true);
+    expect(matches('[a-c].txt', 'd.txt')).toBe(false);
+    expect(matches('[!a-c].txt', 'd.txt')).toBe(true);
+    expect(matches('[!a-c].txt', '/.txt')).toBe(false);
+    expect(matches('[].txt', '[].txt')).toBe(true);
+  });
+
+  it('should treat regular expression characters and escapes literally', () => {
+    expect(matches('c++ (draft).md', 'c++ (draft).md')).toBe(true);
+    expect(matches('a.b', 'axb')).toBe(false);
+    expect(matches('\\*.md', '*.md')).toBe(true);
+    expect(matches('\\*.md', 'x.md')).toBe(false);
+    expect(matches('$HOME^', '$HOME^')).toBe(true);
+  });
+
+  it('should match regardless of case when asked', () => {
+    expect(globToRegExp('*.MD', { ignoreCase: true }).test('readme.md')).toBe(true);
+    expect(matches('*.MD', 'readme.md')).toBe(false);
+  });
+
+  it('should let later negated patterns exclude earlier matches', () => {
+    const sources = createGlobMatcher(['**/*.ts', '!**/*.test.ts', 'src/keep.test.ts']);
+
+    expect(sources('src/index.ts')).toBe(true);
+    expect(sources('src/index.test.ts')).toBe(false);
+    expect(sources('src/keep.test.ts')).toBe(true);
+    expect(sources('README.md')).toBe(false);
+  });
+
+  it('should include everything not excluded when the list starts with a negation', () => {
+    const notMarkdown = createGlobMatcher(['!**/*.md']);
+
+    expect(notMarkdown('src/index.ts')).toBe(true);
+    expect(notMarkdown('docs/intro.md')).toBe(false);
+  });
+});
@@ -13,6 +13,7 @@ import { join } from 'path';
 import { tmpdir } from 'os';
 import sharp from 'sharp';
 import { ImageAnalysisTools } from '../../src/tools/image-tools';
+import { WorkspaceSandbox, WorkspaceAccessError } from '../../src/core/workspace-sandbox';
 import { Logger } from '../../src/types/mcp';
 
 describe('ImageAnalysisTools', () => {
@@ -215,6 +216,23 @@ describe('ImageAnalysisTools', () => {
       })).rejects.toThrow('Invalid URL format');
     });
 
+    it('should not save through a dangling symlink that points outside the workspace', async () => {
+      const workspaceDir = join(testDir, 'workspace');
+      const outsidePath = join(testDir, 'outside.jpg');
+      await fs.mkdir(workspaceDir);
+      await fs.symlink(outsidePath, join(workspaceDir, 'escape.jpg'));
+      const confined = new ImageAnalysisTools(mockLogger, new WorkspaceSandbox({ roots: [workspaceDir], userRoots: {} }));
+
+      await expect(confined.executeDownloadImage({
+        url: 'https://example.com/image.jpg',
+        save_path: 'escape.jpg'
+      })).rejects.toBeInstanceOf(WorkspaceAccessError);
+
+      expect(mockAxios.get).not.toHaveBeenCalled();
+      await expect(fs.access(outsidePath)).rejects.toThrow();
+      await confined.cleanup();
+    });
+
     it('should handle HTTP errors', async () => {
       const error = new Error('HTTP 404');
       (error as any).response = { status: 404 };
@@ -0,0 +1,343 @@
+/**
+ * Isolated Plugin Unit Tests
+ *
+ * Tests the plugin bridge end to end with the runner served in process over a
+ * message channel: proxied registrations and services, error kinds, progress,
+ * timeouts, cancellation and crash reporting. The runner is also started in a
+ * real child process through spawnPluginChannel.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EventEmitter } from 'events';
+import { MessageChannel } from 'worker_threads';
+import { IsolatedPlugin, PluginChannel, spawnPluginChannel } from '../../src/services/isolated-plugin';
+import { runPlugin } from '../../src/services/plugin-runner';
+import { ToolCancelledError, ToolError, ToolTimeoutError } from '../../src/tools/tool-errors';
+import { Logger, PluginContext, PluginManifest, PluginToolHandler, SecurityContext } from '../../src/types/mcp';
+
+describe('IsolatedPlugin', () => {
+  let pluginDir: string;
+  let mockLogger: Logger;
+  let tools: Map<string, PluginToolHandler>;
+  let context: PluginContext;
+  let exits: EventEmitter;
+  let channels: MessageChannel[];
+
+  const securityContext: SecurityContext = {
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  };
+
+  const manifest: PluginManifest = {
+    name: 'sample',
+    version: '1.0.0',
+    description: 'Sample plugin',
+    author: 'Test',
+    main: 'index.mjs',
+    mcpVersion: '2024-11-05',
+    capabilities: ['tools'],
+  };
+
+  // Serves the runner on one end of a message channel instead of in a worker
+  const createChannel = (): PluginChannel => {
+    const channel = new MessageChannel();
+    channels.push(channel);
+    runPlugin(channel.port2);
+
+    return {
+      send: message => channel.port1.postMessage(message),
+      onMessage: listener => channel.port1.on('message', listener),
+      onExit: listener => exits.on('exit', listener),
+      terminate: async () => {
+        channel.port1.close();
+      },
+    };
+  };
+
+  const start = async (
+    source: string,
+    callTimeoutMs = 1000,
+    createPluginChannel: typeof createChannel = createChannel
+  ): Promise<IsolatedPlugin> => {
+    const entry = join(pluginDir, `plugin-${channels.length}.mjs`);
+    await fs.writeFile(entry, source);
+    const plugin = new IsolatedPlugin(
+      manifest,
+      entry,
+      { mode: 'worker', memoryLimitMb: 64, callTimeoutMs, cancelGraceMs: 100 },
+      mockLogger,
+      createPluginChannel
+    );
+    await plugin.initialize(context);
+    return plugin;
+  };
+
+  const samplePlugin = `
+    export default {
+      async initialize(context) {
+        context.registerTool(
+          { name: 'greet', description: 'Greet', inputSchema: { type: 'object' } },
+          async (args, call) => {
+            call.progress(1, 2, 'halfway');
+            return { content: [{ type: 'text', text: 'Hello ' + args.name + context.config.suffix }] };
+          }
+        );
+        context.registerTool(
+          { name: 'broken', description: 'Always fails', inputSchema: { type: 'object' } },
+          async () => {
+            const error = new Error('Nothing here');
+            error.kind = 'not_found';
+            throw error;
+          }
+        );
+        context.registerTool(
+          { name: 'stuck', description: 'Never answers', inputSchema: { type: 'object' } },
+          () => new Promise(() => {})
+        );
+        context.registerTool(
+          { name: 'patient', description: 'Answers when cancelled', inputSchema: { type: 'object' } },
+          (args, call) => new Promise((resolve, reject) => {
+            call.signal.addEventListener('abort', () => reject(new Error('stopped: ' + call.signal.reason)));
+          })
+        );
+      }
+    };
+  `;
+
+  beforeEach(async () => {
+    pluginDir = await fs.mkdtemp(join(tmpdir(), 'mcp-isolated-test-'));
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    tools = new Map();
+    exits = new EventEmitter();
+    channels = [];
+
+    context = {
+      manifest,
+      logger: mockLogger,
+      config: { suffix: '!' },
+      services: { get: vi.fn(), register: vi.fn(), unregister: vi.fn() },
+      events: { on: vi.fn(), off: vi.fn(), emit: vi.fn() },
+      registerTool: (tool, handler) => {
+        tools.set(tool.name, handler);
+      },
+      registerResource: vi.fn(),
+      registerPrompt: vi.fn(),
+      registerMethod: vi.fn(),
+    };
+  });
+
+  afterEach(async () => {
+    for (const channel of channels) {
+      channel.port1.close();
+      channel.port2.close();
+    }
+    await fs.rm(pluginDir, { recursive: true, force: true });
+  });
+
+  it('should proxy tools registered in the runner', async () => {
+    await start(samplePlugin);
+
+    expect([...tools.keys()]).toEqual(['greet', 'broken', 'stuck', 'patient']);
+
+    const progress = vi.fn();
+    await expect(tools.get('greet')!({ name: 'Ada' }, { securityContext, progress })).resolves.toEqual({
+      content: [{ type: 'text', text: 'Hello Ada!' }],
+    });
+    expect(progress).toHaveBeenCalledWith(1, 2, 'halfway');
+  });
+
+  it('should keep tool error kinds across the bridge', async () => {
+    await start(samplePlugin);
+
+    const result = tools.get('broken')!({}, { securityContext });
+
+    await expect(result).rejects.toBeInstanceOf(ToolError);
+    await expect(result).rejects.toMatchObject({ message: 'Nothing here', kind: 'not_found' });
+  });
+
+  it('should bridge services between the plugin and the server', async () => {
+    const services = new Map<string, unknown>([
+      ['clock', { now: () => 42, handle: () => () => 42 }],
+    ]);
+    context = {
+      ...context,
+      services: {
+        get: <T>(name: string): T => {
+          if (!services.has(name)) {
+            throw new Error(`Service not registered: ${name}`);
+          }
+          return services.get(name) as T;
+        },
+        register: (name, service) => {
+          services.set(name, service);
+        },
+        unregister: name => {
+          services.delete(name);
+        },
+      },
+    };
+
+    await start(`
+      export default {
+        async initialize(context) {
+          context.services.register('greeter', { hello: name => 'Hello ' + name });
+          context.registerTool({ name: 'use', description: 'Use a service', inputSchema: { type: 'object' } }, async args => {
+            const text = String(await context.services.get(args.service)[args.method]());
+            return { content: [{ type: 'text', text }] };
+          });
+          context.registerTool({ name: 'share', description: 'Share data', inputSchema: { type: 'object' } }, async () => {
+            context.services.register('settings', { retries: 3 });
+            return { content: [] };
+          });
+        }
+      };
+    `);
+
+    const greeter = services.get('greeter') as { hello: (name: string) => Promise<string> };
+    await expect(greeter.hello('Ada')).resolves.toBe('Hello Ada');
+
+    const use = (service: string, method: string) => tools.get('use')!({ service, method }, { securityContext });
+    await expect(use('clock', 'now')).resolves.toEqual({ content: [{ type: 'text', text: '42' }] });
+    await expect(use('clock', 'handle')).rejects.toThrow('Result of clock.handle cannot be sent to the plugin');
+    await expect(use('calendar', 'now')).rejects.toThrow('Service not registered: calendar');
+    await expect(use('clock', 'stop')).rejects.toThrow('Service clock has no method stop');
+    await expect(tools.get('share')!({}, { securityContext })).rejects.toThrow(
+      'Service settings cannot be shared by an isolated plugin'
+    );
+  });
+
+  it('should fail initialize when the plugin does', async () => {
+    const failing = start(`export default { async initialize() { throw new Error('no database'); } };`);
+
+    await expect(failing).rejects.toThrow('no database');
+  });
+
+  it('should cancel a timed-out call and keep a runner that stops it', async () => {
+    const plugin = await start(samplePlugin, 50);
+    const crash = vi.fn();
+    plugin.on('crash', crash);
+
+    await expect(tools.get('patient')!({}, { securityContext })).rejects.toBeInstanceOf(ToolTimeoutError);
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(crash).not.toHaveBeenCalled();
+    await expect(tools.get('greet')!({ name: 'Ada' }, { securityContext })).resolves.toBeDefined();
+  });
+
+  it('should cancel aborted calls in the runner', async () => {
+    await start(samplePlugin);
+    const controller = new AbortController();
+
+    const pending = tools.get('patient')!({}, { securityContext, signal: controller.signal });
+    controller.abort('client went away');
+
+    await expect(pending).rejects.toBeInstanceOf(ToolCancelledError);
+    await expect(pending).rejects.toMatchObject({ kind: 'cancelled', reason: 'client went away' });
+  });
+
+  it('should report a crash when a cancelled call does not finish in time', async () => {
+    const plugin = await start(samplePlugin, 50);
+    const crash = vi.fn();
+    plugin.on('crash', crash);
+
+    await expect(tools.get('stuck')!({}, { securityContext })).rejects.toThrow('timed out after 50ms');
+    expect(crash).not.toHaveBeenCalled();
+
+    await vi.waitFor(() =>
+      expect(crash).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('did not finish') }))
+    );
+    await expect(tools.get('greet')!({ name: 'Ada' }, { securityContext })).rejects.toThrow('is not running');
+  });
+
+  it('should report a crash when the runner exits', async () => {
+    const plugin = await start(samplePlugin);
+    const crash = vi.fn();
+    plugin.on('crash', crash);
+
+    const pending = tools.get('stuck')!({}, { securityContext });
+    exits.emit('exit', new Error('Worker exited with code 1'));
+
+    await expect(pending).rejects.toThrow('Plugin sample is unavailable: Worker exited with code 1');
+    expect(crash).toHaveBeenCalledTimes(1);
+    await expect(tools.get('greet')!({ name: 'Ada' }, { securityContext })).rejects.toThrow('is not running');
+  });
+
+  describe('spawnPluginChannel', () => {
+    let execArgv: string[];
+
+    // The runner is TypeScript here, so the child process loads it through tsx as `npm run start:dev` does
+    beforeEach(() => {
+      execArgv = [...process.execArgv];
+      process.execArgv.push('--import', 'tsx');
+    });
+
+    afterEach(() => {
+      process.execArgv.splice(0, process.execArgv.length, ...execArgv);
+    });
+
+    it('should run the plugin in a child process and cancel calls there', async () => {
+      const plugin = await start(samplePlugin, 2000, () => spawnPluginChannel('process', 64));
+      const crash = vi.fn();
+      plugin.on('crash', crash);
+
+      try {
+        await expect(tools.get('greet')!({ name: 'Ada' }, { securityContext })).resolves.toEqual({
+          content: [{ type: 'text', text: 'Hello Ada!' }],
+        });
+
+        await expect(tools.get('patient')!({}, { securityContext })).rejects.toBeInstanceOf(ToolTimeoutError);
+        await new Promise(resolve => setTimeout(resolve, 150));
+        expect(crash).not.toHaveBeenCalled();
+
+        await expect(tools.get('stuck')!({}, { securityContext })).rejects.toBeInstanceOf(ToolTimeoutError);
+        await vi.waitFor(() => expect(crash).toHaveBeenCalledTimes(1));
+      } finally {
+        await plugin.shutdown();
+      }
+    }, 20000);
+
+    it('should fail pending calls when the child closes its IPC channel', async () => {
+      const plugin = await start(`
+        export default {
+          async initialize(context) {
+            context.registerTool(
+              { name: 'leave', description: 'Disconnects', inputSchema: { type: 'object' } },
+              // Outlives its channel, so only the disconnect tells the server
+              () => new Promise(() => {
+                process.exit = () => {};
+                setInterval(() => {}, 1000);
+                process.disconnect();
+              })
+            );
+          }
+        };
+      `, 10000, () => spawnPluginChannel('process', 64));
+      const crash = vi.fn();
+      plugin.on('crash', crash);
+
+      await expect(tools.get('leave')!({}, { securityContext })).rejects.toThrow('Plugin sample is unavailable');
+      expect(crash).toHaveBeenCalledTimes(1);
+    }, 20000);
+
+    it('should report sends on a closed channel to the sender', async () => {
+      const channel = spawnPluginChannel('process', 64);
+      const exited = vi.fn();
+      channel.onExit(exited);
+      await channel.terminate();
+
+      const onError = vi.fn();
+      channel.send({ type: 'shutdown', id: 1 }, onError);
+      channel.send({ type: 'shutdown', id: 2 });
+
+      await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'ERR_IPC_CHANNEL_CLOSED' })));
+      expect(exited).toHaveBeenCalled();
+    }, 20000);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * JSON Schema Validation Unit Tests
+ *
+ * Tests the JSON Schema to Joi compilation used for tool arguments: types,
+ * enums, bounds, patterns, required fields, composition and defaults.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect } from 'vitest';
+import { jsonSchemaToJoi, validateWithSchema } from '../../src/core/json-schema';
+import { JsonSchema } from '../../src/types/mcp';
+
+describe('jsonSchemaToJoi', () => {
+  const validate = (schema: JsonSchema, value: unknown) => validateWithSchema(jsonSchemaToJoi(schema), value);
+
+  const searchSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      directory: { type: 'string', minLength: 1 },
+      pattern: { type: 'string', pattern: '^[\\w*.?-]+$' },
+      mode: { type: 'string', enum: ['files', 'count'], default: 'files' },
+      max_results: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+      recursive: { type: 'boolean', default: false },
+    },
+    required: ['directory'],
+    additionalProperties: false,
+  };
+
+  it('should accept valid arguments and inject defaults', () => {
+    const { value, violations } = validate(searchSchema, { directory: 'src', pattern: '*.ts' });
+
+    expect(violations).toEqual([]);
+    expect(value).toEqual({
+      directory: 'src',
+      pattern: '*.ts',
+      mode: 'files',
+      max_results: 50,
+      recursive: false,
+    });
+  });
+
+  it('should report every failing field', () => {
+    const { violations } = validate(searchSchema, {
+      pattern: 'a b',
+      mode: 'lines',
+      max_results: 1000,
+      recursive: 'yes',
+      extra: true,
+    });
+
+    expect(violations.map(violation => violation.path)).toEqual([
+      'directory',
+      'pattern',
+      'mode',
+      'max_results',
+      'recursive',
+      'extra',
+    ]);
+    expect(violations.find(violation => violation.path === 'mode')?.message)
+      .toBe('"mode" must be one of [files, count]');
+  });
+
+  it('should not coerce values between types', () => {
+    const { violations } = validate(searchSchema, { directory: 'src', max_results: '10' });
+
+    expect(violations).toEqual([{ path: 'max_results', message: '"max_results" must be a number' }]);
+  });
+
+  it('should distinguish integers from numbers and honour exclusive bounds', () => {
+    expect(validate({ type: 'integer' }, 1.5).violations).toHaveLength(1);
+    expect(validate({ type: 'number', exclusiveMinimum: 0 }, 0).violations).toHaveLength(1);
+    expect(validate({ type: 'number', exclusiveMinimum: 0 }, 0.1).violations).toHaveLength(0);
+  });
+
+  it('should require exactly one oneOf branch to match', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { path: { type: 'string' }, url: { type: 'string', format: 'uri' } },
+      oneOf: [{ type: 'object', required: ['path'] }, { type: 'object', required: ['url'] }],
+    };
+
+    expect(validate(schema, { path: 'a.png' }).violations).toEqual([]);
+    expect(validate(schema, { url: 'not a uri' }).violations.map(violation => violation.path)).toEqual(['url']);
+    expect(validate(schema, { path: 'a.png', url: 'https://example.com/a.png' }).violations).toEqual([
+      { path: '', message: '"value" must match exactly one of the oneOf schemas' },
+    ]);
+  });
+
+  it('should validate arrays and their items', () => {
+    const schema: JsonSchema = { type: 'array', items: { type: 'string' }, minItems: 1, uniqueItems: true };
+
+    expect(validate(schema, ['a', 'b']).violations).toEqual([]);
+    expect(validate(schema, ['a', 'a']).violations).toHaveLength(1);
+    expect(validate(schema, ['a', 2]).violations).toEqual([{ path: '1', message: '"[1]" must be a string' }]);
+  });
+});
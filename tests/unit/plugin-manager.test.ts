@@ -0,0 +1,196 @@
+/**
+ * Plugin Manager Unit Tests
+ *
+ * Tests plugin discovery, manifest and configuration validation, lifecycle
+ * hooks, and the registration API with its capability checks.
+ *
+ * @author aezizhu
+ */
+
+import 'reflect-metadata';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PluginManager, PluginRegistries } from '../../src/services/plugin-manager.service';
+import { ConfigService } from '../../src/services/config.service';
+import { LoggerService } from '../../src/services/logger.service';
+import { Logger, PluginConfig, SecurityContext } from '../../src/types/mcp';
+
+describe('PluginManager', () => {
+  let pluginDir: string;
+  let pluginsConfig: PluginConfig;
+  let mockLogger: Logger;
+  let registries: PluginRegistries;
+  let manager: PluginManager;
+
+  const context: SecurityContext = {
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  };
+
+  const writePlugin = async (
+    name: string,
+    source: string,
+    manifest: Record<string, unknown> = {}
+  ): Promise<void> => {
+    const dir = join(pluginDir, name);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(join(dir, 'index.mjs'), source);
+    await fs.writeFile(join(dir, 'plugin.json'), JSON.stringify({
+      name,
+      version: '1.0.0',
+      description: `The ${name} plugin`,
+      author: 'Test',
+      main: 'index.mjs',
+      mcpVersion: '2024-11-05',
+      capabilities: ['tools', 'methods'],
+      ...manifest,
+    }));
+  };
+
+  const echoPlugin = `
+    export default class EchoPlugin {
+      async initialize(context) {
+        context.registerTool(
+          { name: 'echo', description: 'Echo input', inputSchema: { type: 'object' } },
+          async args => ({ content: [{ type: 'text', text: String(args.text) }] })
+        );
+        context.registerMethod('echo/greet', async params => ({ greeting: 'Hello ' + params.name + context.config.suffix }));
+        context.services.register('echo.service', { ready: true });
+      }
+      async shutdown() {
+        globalThis.echoPluginStopped = true;
+      }
+    }
+  `;
+
+  beforeEach(async () => {
+    pluginDir = await fs.mkdtemp(join(tmpdir(), 'mcp-plugin-test-'));
+    pluginsConfig = {
+      enabled: true,
+      directory: pluginDir,
+      autoload: true,
+      isolation: {
+        mode: 'none',
+        memoryLimitMb: 256,
+        callTimeoutMs: 30000,
+        cancelGraceMs: 5000,
+        maxRestarts: 5,
+        restartDelayMs: 1000,
+        maxRestartDelayMs: 60000,
+      },
+      plugins: {},
+    };
+
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    const config = { get: () => pluginsConfig } as unknown as ConfigService;
+    const loggerService = { getLogger: () => mockLogger } as unknown as LoggerService;
+
+    registries = {
+      tools: { registerTool: vi.fn(), unregisterTool: vi.fn() },
+      resources: { registerResource: vi.fn(), unregisterResource: vi.fn(), getResource: vi.fn() },
+      prompts: { registerPrompt: vi.fn(), unregisterPrompt: vi.fn() },
+    } as unknown as PluginRegistries;
+
+    manager = new PluginManager(config, loggerService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(pluginDir, { recursive: true, force: true });
+  });
+
+  it('should load plugins and route their tools and methods', async () => {
+    pluginsConfig = { ...pluginsConfig, plugins: { echo: { enabled: true, config: { suffix: '!' } } } };
+    await writePlugin('echo', echoPlugin);
+
+    await manager.initialize(registries);
+
+    expect(manager.getLoadedPlugins()).toEqual(['echo']);
+    expect(registries.tools.registerTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'echo' }),
+      expect.any(Function)
+    );
+
+    const handler = vi.mocked(registries.tools.registerTool).mock.calls[0]![1];
+    await expect(handler({ text: 'hi' }, context)).resolves.toEqual({ content: [{ type: 'text', text: 'hi' }] });
+
+    expect(manager.hasMethod('echo/greet')).toBe(true);
+    await expect(manager.handleMethod('echo/greet', { name: 'Ada' }, context)).resolves.toEqual({ greeting: 'Hello Ada!' });
+  });
+
+  it('should run shutdown hooks and remove registrations on unload', async () => {
+    await writePlugin('echo', echoPlugin);
+    await manager.initialize(registries);
+
+    await manager.shutdown();
+
+    expect((globalThis as { echoPluginStopped?: boolean }).echoPluginStopped).toBe(true);
+    expect(registries.tools.unregisterTool).toHaveBeenCalledWith('echo');
+    expect(manager.hasMethod('echo/greet')).toBe(false);
+    expect(manager.getLoadedPlugins()).toEqual([]);
+  });
+
+  it('should skip plugins targeting an unsupported MCP version', async () => {
+    await writePlugin('future', echoPlugin, { mcpVersion: '2099-01-01' });
+
+    await manager.initialize(registries);
+
+    expect(manager.getLoadedPlugins()).toEqual([]);
+    expect(mockLogger.warn).toHaveBeenCalledWith('Skipping plugin with an invalid manifest', expect.objectContaining({
+      error: expect.stringContaining('targets MCP 2099-01-01'),
+    }));
+  });
+
+  it('should reject configuration that does not match the manifest schema', async () => {
+    pluginsConfig = { ...pluginsConfig, plugins: { echo: { enabled: true, config: { suffix: 1 } } } };
+    await writePlugin('echo', echoPlugin, {
+      configuration: { type: 'object', properties: { suffix: { type: 'string' } } },
+    });
+
+    await manager.initialize(registries);
+
+    expect(manager.getHealthStatus()).toEqual({ status: 'degraded', plugins: 0, failed: ['echo'], restarting: [] });
+    expect(registries.tools.registerTool).not.toHaveBeenCalled();
+  });
+
+  it('should enforce declared capabilities and undo partial registrations', async () => {
+    await writePlugin('echo', echoPlugin, { capabilities: ['tools'] });
+
+    await manager.initialize(registries);
+
+    expect(manager.getHealthStatus().failed).toEqual(['echo']);
+    expect(registries.tools.unregisterTool).toHaveBeenCalledWith('echo');
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to load plugin',
+      expect.objectContaining({ message: 'Plugin echo does not declare the "methods" capability' }),
+      { name: 'echo' }
+    );
+  });
+
+  it('should require plugin methods to be namespaced', async () => {
+    await writePlugin('named', `
+      export default {
+        initialize(context) {
+          context.registerMethod('tools/list', async () => ({}));
+        },
+      };
+    `);
+
+    await manager.initialize(registries);
+
+    expect(manager.hasMethod('tools/list')).toBe(false);
+    expect(manager.getHealthStatus().failed).toEqual(['named']);
+  });
+
+  it('should only load listed plugins when autoload is off', async () => {
+    pluginsConfig = { ...pluginsConfig, autoload: false };
+    await writePlugin('echo', echoPlugin);
+
+    await manager.initialize(registries);
+
+    expect(manager.getLoadedPlugins()).toEqual([]);
+  });
+});
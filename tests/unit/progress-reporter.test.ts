@@ -0,0 +1,113 @@
+/**
+ * Progress Reporter Unit Tests
+ *
+ * Tests the translation of tool progress into `notifications/progress`
+ * messages, including throttling, and progress from the file walkers.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createProgressReporter } from '../../src/core/progress-reporter';
+import { FileOperationTools } from '../../src/tools/file-tools';
+import { WorkspaceSandbox } from '../../src/core/workspace-sandbox';
+import { JsonRpcNotification, Logger, SecurityContext } from '../../src/types/mcp';
+
+describe('createProgressReporter', () => {
+  let sent: JsonRpcNotification[];
+  const send = (notification: JsonRpcNotification) => sent.push(notification);
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send progress for the request token', () => {
+    const report = createProgressReporter('token-1', send);
+
+    report(3, 10, 'Scanned 3 files');
+
+    expect(sent).toEqual([{
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 'token-1', progress: 3, total: 10, message: 'Scanned 3 files' },
+    }]);
+  });
+
+  it('should throttle updates but always report completion', () => {
+    vi.useFakeTimers();
+    const report = createProgressReporter(7, send, 100);
+
+    report(1, 100);
+    report(2, 100);
+    vi.advanceTimersByTime(100);
+    report(3, 100);
+    report(100, 100);
+
+    expect(sent.map(notification => (notification.params as { progress: number }).progress)).toEqual([1, 3, 100]);
+  });
+
+  it('should only send increasing progress', () => {
+    const report = createProgressReporter('token-1', send, 0);
+
+    report(5);
+    report(5);
+    report(4);
+    report(6);
+
+    expect(sent.map(notification => (notification.params as { progress: number }).progress)).toEqual([5, 6]);
+    expect(sent[0]?.params).not.toHaveProperty('total');
+  });
+});
+
+describe('file tool progress', () => {
+  let rootDir: string;
+  let fileTools: FileOperationTools;
+
+  const context: SecurityContext = {
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-progress-test-')));
+    await fs.mkdir(join(rootDir, 'src', 'lib'), { recursive: true });
+    await fs.writeFile(join(rootDir, 'src', 'a.ts'), 'export {};');
+    await fs.writeFile(join(rootDir, 'src', 'lib', 'b.ts'), 'export {};');
+    await fs.writeFile(join(rootDir, 'README.md'), '# test');
+
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    fileTools = new FileOperationTools(logger, new WorkspaceSandbox({ roots: [rootDir], userRoots: {} }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should report every file a search scans', async () => {
+    const progress = vi.fn();
+
+    await fileTools.executeSearchFiles({ directory: '.', pattern: '*.ts' }, context, undefined, progress);
+
+    expect(progress).toHaveBeenCalledTimes(3);
+    expect(progress).toHaveBeenLastCalledWith(3, undefined, 'Scanned 3 files');
+  });
+
+  it('should report entries of recursive listings only', async () => {
+    const progress = vi.fn();
+
+    await fileTools.executeListDirectory({ path: '.' }, context, undefined, progress);
+    expect(progress).not.toHaveBeenCalled();
+
+    await fileTools.executeListDirectory({ path: '.', recursive: true }, context, undefined, progress);
+    expect(progress).toHaveBeenLastCalledWith(5, undefined, 'Listed 5 entries');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Prompt Registry Unit Tests
+ *
+ * Tests the file-backed prompt library: definition validation, typed
+ * arguments, embedded workspace files and hot reload.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import { PromptRegistry, PromptNotFoundError, PromptArgumentError } from '../../src/core/prompt-registry';
+import { WorkspaceSandbox, WorkspaceAccessError } from '../../src/core/workspace-sandbox';
+import { ContentType, Logger, SecurityContext } from '../../src/types/mcp';
+
+describe('PromptRegistry', () => {
+  let baseDir: string;
+  let promptsDir: string;
+  let workspaceDir: string;
+  let registry: PromptRegistry;
+  let mockLogger: Logger;
+
+  const context: SecurityContext = {
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  };
+
+  const writePrompt = (file: string, definition: unknown) =>
+    fs.writeFile(join(promptsDir, file), JSON.stringify(definition));
+
+  beforeEach(async () => {
+    baseDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-prompts-test-')));
+    promptsDir = join(baseDir, 'prompts');
+    workspaceDir = join(baseDir, 'workspace');
+
+    await fs.mkdir(promptsDir);
+    await fs.mkdir(workspaceDir);
+    await fs.writeFile(join(workspaceDir, 'notes.md'), '# Notes');
+    await fs.writeFile(join(workspaceDir, 'chart.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    await fs.writeFile(join(baseDir, 'secret.txt'), 'outside');
+
+    await writePrompt('review.json', {
+      name: 'review',
+      description: 'Review a file',
+      arguments: [
+        { name: 'path', description: 'File to review', required: true },
+        { name: 'tone', type: 'enum', values: ['friendly', 'strict'], default: 'friendly' },
+        { name: 'limit', type: 'number' },
+      ],
+      messages: [
+        { role: 'user', text: 'Review this file in a {{tone}} tone, at most {{ limit }} comments.' },
+        { role: 'user', resource: '{{path}}' },
+      ],
+    });
+
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    registry = new PromptRegistry(
+      mockLogger,
+      { directory: promptsDir, maxEmbedSize: 1024 },
+      new WorkspaceSandbox({ roots: [workspaceDir], userRoots: {} })
+    );
+  });
+
+  afterEach(async () => {
+    registry.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should list prompts loaded from the prompt directory', async () => {
+    await registry.initialize();
+
+    expect(registry.listPrompts()).toEqual([
+      {
+        name: 'review',
+        description: 'Review a file',
+        arguments: [
+          { name: 'path', description: 'File to review', required: true },
+          { name: 'tone', description: 'tone (one of friendly, strict, default friendly)', required: false },
+          { name: 'limit', description: 'limit (number)', required: false },
+        ],
+      },
+    ]);
+  });
+
+  it('should skip invalid definitions and placeholders without arguments', async () => {
+    await writePrompt('broken.json', { name: 'broken' });
+    await writePrompt('typo.json', { name: 'typo', messages: [{ role: 'user', text: 'Hi {{who}}' }] });
+    await fs.writeFile(join(promptsDir, 'garbage.json'), '{ not json');
+    await registry.initialize();
+
+    expect(registry.listPrompts().map(prompt => prompt.name)).toEqual(['review']);
+    expect(mockLogger.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should render arguments and embed text and image files', async () => {
+    await registry.initialize();
+
+    const result = await registry.getPrompt('review', { path: 'notes.md', limit: 3 }, context);
+
+    expect(result.messages[0]).toEqual({
+      role: 'user',
+      content: { type: ContentType.TEXT, text: 'Review this file in a friendly tone, at most 3 comments.' },
+    });
+    expect(result.messages[1]!.content).toEqual({
+      type: ContentType.RESOURCE,
+      resource: {
+        uri: pathToFileURL(join(workspaceDir, 'notes.md')).href,
+        mimeType: 'text/markdown',
+        text: '# Notes',
+      },
+    });
+
+    const image = await registry.getPrompt('review', { path: 'chart.png' }, context);
+    expect(image.messages[1]!.content).toEqual({ type: ContentType.IMAGE, data: 'iVBORw==', mimeType: 'image/png' });
+  });
+
+  it('should report every invalid argument at once', async () => {
+    await registry.initialize();
+
+    const error = await registry.getPrompt('review', { tone: 'rude', limit: 'many', extra: 1 }, context)
+      .catch(e => e as PromptArgumentError);
+
+    expect(error).toBeInstanceOf(PromptArgumentError);
+    expect(error.problems).toEqual([
+      'path is required',
+      'tone must be one of friendly, strict',
+      'limit must be a number',
+      'unknown arguments: extra',
+    ]);
+  });
+
+  it('should refuse to embed files outside the workspace or denied by policy', async () => {
+    await registry.initialize();
+
+    await expect(registry.getPrompt('review', { path: '../secret.txt' }, context))
+      .rejects.toThrow(WorkspaceAccessError);
+    await expect(registry.getPrompt('review', { path: 'notes.md' }, context, async () => false))
+      .rejects.toThrow(PromptArgumentError);
+  });
+
+  it('should pass the resolved path of embedded files to the access check', async () => {
+    await registry.initialize();
+    const canEmbed = vi.fn(async (_uri: string, filePath: string) => !filePath.endsWith('notes.md'));
+
+    await expect(registry.getPrompt('review', { path: 'notes.md' }, context, canEmbed))
+      .rejects.toThrow(PromptArgumentError);
+    expect(canEmbed).toHaveBeenCalledWith(
+      pathToFileURL(join(workspaceDir, 'notes.md')).href,
+      join(workspaceDir, 'notes.md')
+    );
+  });
+
+  it('should reject unknown prompts', async () => {
+    await registry.initialize();
+
+    await expect(registry.getPrompt('missing', {}, context)).rejects.toThrow(PromptNotFoundError);
+  });
+
+  it('should reload the library and emit listChanged when files change', async () => {
+    await registry.initialize();
+    const listChanged = new Promise<void>(resolve => registry.once('listChanged', resolve));
+
+    await writePrompt('summarize.json', {
+      name: 'summarize',
+      messages: [{ role: 'user', text: 'Summarize the conversation.' }],
+    });
+    await listChanged;
+
+    expect(registry.listPrompts().map(prompt => prompt.name)).toEqual(['review', 'summarize']);
+  });
+
+  it('should serve prompts registered at runtime', async () => {
+    await registry.initialize();
+    const listener = vi.fn();
+    registry.on('listChanged', listener);
+
+    registry.registerPrompt({ name: 'greet', messages: [{ role: 'assistant', text: 'Hello!' }] });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    await expect(registry.getPrompt('greet', {}, context)).resolves.toEqual({
+      messages: [{ role: 'assistant', content: { type: ContentType.TEXT, text: 'Hello!' } }],
+    });
+    expect(() => registry.registerPrompt({ name: 'greet', messages: [{ role: 'user', text: 'x' }] }))
+      .toThrow('already registered');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Resource Registry Unit Tests
+ *
+ * Tests file:// resources served from configured directories: listing with
+ * pagination, text and blob reads, templates and confinement.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { pathToFileURL } from 'url';
+import {
+  ResourceRegistry,
+  ResourceNotFoundError,
+  InvalidCursorError,
+} from '../../src/core/resource-registry';
+import { Logger, SecurityContext } from '../../src/types/mcp';
+
+describe('ResourceRegistry', () => {
+  let baseDir: string;
+  let docsDir: string;
+  let registry: ResourceRegistry;
+  let mockLogger: Logger;
+
+  const context: SecurityContext = {
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  };
+
+  const uriOf = (...segments: string[]) => pathToFileURL(join(docsDir, ...segments)).href;
+
+  const createRegistry = (pageSize = 100) =>
+    new ResourceRegistry(mockLogger, {
+      directories: [{ path: docsDir, name: 'docs' }],
+      pageSize,
+      maxReadSize: 1024,
+      maxSubscriptionsPerSession: 10,
+      watchDebounceMs: 20,
+    });
+
+  beforeEach(async () => {
+    baseDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-resources-test-')));
+    docsDir = join(baseDir, 'docs');
+
+    await fs.mkdir(join(docsDir, 'guides'), { recursive: true });
+    await fs.mkdir(join(docsDir, '.git'), { recursive: true });
+    await fs.writeFile(join(docsDir, 'README.md'), '# Docs');
+    await fs.writeFile(join(docsDir, 'guides', 'setup.txt'), 'setup steps');
+    await fs.writeFile(join(docsDir, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+    await fs.writeFile(join(docsDir, '.git', 'config'), 'secret');
+    await fs.writeFile(join(baseDir, 'outside.txt'), 'not exposed');
+
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    registry = createRegistry();
+    await registry.initialize();
+  });
+
+  afterEach(async () => {
+    registry.close();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should list files of configured directories as file:// resources', async () => {
+    const { resources, nextCursor } = await registry.listResources(context);
+
+    expect(resources.map(resource => resource.name)).toEqual([
+      'docs/guides/setup.txt',
+      'docs/logo.png',
+      'docs/README.md',
+    ]);
+    expect(resources[0]).toMatchObject({ uri: uriOf('guides', 'setup.txt'), mimeType: 'text/plain' });
+    expect(nextCursor).toBeUndefined();
+  });
+
+  it('should paginate listings with cursors', async () => {
+    const paged = createRegistry(2);
+
+    const first = await paged.listResources(context);
+    expect(first.resources).toHaveLength(2);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await paged.listResources(context, first.nextCursor);
+    expect(second.resources.map(resource => resource.name)).toEqual(['docs/README.md']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should reject cursors it did not issue', async () => {
+    await expect(registry.listResources(context, 'not-a-cursor')).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  it('should apply the visibility filter before paging', async () => {
+    const { resources } = await registry.listResources(context, undefined, async resource =>
+      resource.name.endsWith('.md')
+    );
+
+    expect(resources.map(resource => resource.name)).toEqual(['docs/README.md']);
+  });
+
+  it('should read text resources as text and binary resources as base64 blobs', async () => {
+    const [text] = await registry.readResource(uriOf('README.md'), context);
+    expect(text).toEqual({ uri: uriOf('README.md'), mimeType: 'text/markdown', text: '# Docs' });
+
+    const [image] = await registry.readResource(uriOf('logo.png'), context);
+    expect(image?.mimeType).toBe('image/png');
+    expect(image?.text).toBeUndefined();
+    expect(Buffer.from(image!.blob!, 'base64')).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+  });
+
+  it('should not read files outside the directories or hidden files', async () => {
+    await expect(
+      registry.readResource(pathToFileURL(join(baseDir, 'outside.txt')).href, context)
+    ).rejects.toBeInstanceOf(ResourceNotFoundError);
+    await expect(registry.readResource(uriOf('.git', 'config'), context)).rejects.toBeInstanceOf(
+      ResourceNotFoundError
+    );
+    await expect(registry.readResource(uriOf('missing.txt'), context)).rejects.toBeInstanceOf(
+      ResourceNotFoundError
+    );
+  });
+
+  it('should only read top-level files of non-recursive directories', async () => {
+    const flat = new ResourceRegistry(mockLogger, {
+      directories: [{ path: docsDir, name: 'docs', recursive: false }],
+      pageSize: 100,
+      maxReadSize: 1024,
+      maxSubscriptionsPerSession: 10,
+      watchDebounceMs: 20,
+    });
+
+    const [readme] = await flat.readResource(uriOf('README.md'), context);
+    expect(readme?.text).toBe('# Docs');
+    await expect(flat.readResource(uriOf('guides', 'setup.txt'), context)).rejects.toBeInstanceOf(
+      ResourceNotFoundError
+    );
+    flat.close();
+  });
+
+  it('should refuse files larger than the configured limit', async () => {
+    await fs.writeFile(join(docsDir, 'big.txt'), 'x'.repeat(2048));
+
+    await expect(registry.readResource(uriOf('big.txt'), context)).rejects.toThrow('Resource too large');
+  });
+
+  it('should serve registered resources through their reader', async () => {
+    registry.registerResource({ uri: 'config://server', name: 'Server config' }, async uri => [
+      { uri, mimeType: 'application/json', text: '{}' },
+    ]);
+
+    const { resources } = await registry.listResources(context);
+    expect(resources[0]?.uri).toBe('config://server');
+    await expect(registry.readResource('config://server', context)).resolves.toEqual([
+      { uri: 'config://server', mimeType: 'application/json', text: '{}' },
+    ]);
+  });
+
+  it('should only accept subscriptions to readable file resources', async () => {
+    await expect(registry.subscribe('s1', uriOf('README.md'))).resolves.toBeUndefined();
+    await expect(registry.subscribe('s1', uriOf('.git', 'config'))).rejects.toBeInstanceOf(ResourceNotFoundError);
+    await expect(registry.subscribe('s1', 'config://server')).rejects.toBeInstanceOf(ResourceNotFoundError);
+    expect(registry.unsubscribe('s1', uriOf('README.md'))).toBe(true);
+  });
+
+  it('should announce list changes when files are added', async () => {
+    const listChanged = vi.fn();
+    registry.on('listChanged', listChanged);
+
+    await fs.writeFile(join(docsDir, 'guides', 'new.md'), 'new');
+
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(1), { timeout: 2000 });
+  });
+
+  it('should describe each directory as a resource template', () => {
+    expect(registry.listTemplates()).toEqual([
+      {
+        uriTemplate: `${pathToFileURL(docsDir).href}/{+path}`,
+        name: 'docs',
+        description: `Files under ${docsDir}`,
+      },
+    ]);
+  });
+});
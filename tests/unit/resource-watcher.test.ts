@@ -0,0 +1,89 @@
+/**
+ * Resource Watcher Unit Tests
+ *
+ * Tests subscription bookkeeping, debounced change notifications and the
+ * per-session subscription cap.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ResourceWatcher, SubscriptionLimitError } from '../../src/core/resource-watcher';
+import { Logger } from '../../src/types/mcp';
+
+describe('ResourceWatcher', () => {
+  let dir: string;
+  let watcher: ResourceWatcher;
+  let updated: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-watcher-test-')));
+    await fs.writeFile(join(dir, 'a.txt'), 'a');
+    await fs.writeFile(join(dir, 'b.txt'), 'b');
+
+    const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    watcher = new ResourceWatcher(mockLogger, { maxSubscriptionsPerSession: 2, debounceMs: 50 });
+    updated = vi.fn();
+    watcher.on('updated', updated);
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should emit one debounced update per burst of changes with the subscribed sessions', async () => {
+    watcher.subscribe('s1', 'file:///a', join(dir, 'a.txt'));
+    watcher.subscribe('s2', 'file:///a', join(dir, 'a.txt'));
+
+    await fs.appendFile(join(dir, 'a.txt'), '1');
+    await fs.appendFile(join(dir, 'a.txt'), '2');
+    await fs.appendFile(join(dir, 'a.txt'), '3');
+
+    await vi.waitFor(() => expect(updated).toHaveBeenCalled(), { timeout: 2000 });
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(updated).toHaveBeenCalledTimes(1);
+    expect(updated).toHaveBeenCalledWith('file:///a', ['s1', 's2']);
+  });
+
+  it('should keep tracking files that are replaced by rename', async () => {
+    watcher.subscribe('s1', 'file:///a', join(dir, 'a.txt'));
+
+    await fs.writeFile(join(dir, 'a.tmp'), 'replaced');
+    await fs.rename(join(dir, 'a.tmp'), join(dir, 'a.txt'));
+
+    await vi.waitFor(() => expect(updated).toHaveBeenCalledWith('file:///a', ['s1']), { timeout: 2000 });
+  });
+
+  it('should not report changes to unsubscribed files', async () => {
+    watcher.subscribe('s1', 'file:///a', join(dir, 'a.txt'));
+    watcher.unsubscribe('s1', 'file:///a');
+
+    await fs.appendFile(join(dir, 'a.txt'), 'x');
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(updated).not.toHaveBeenCalled();
+  });
+
+  it('should cap the number of subscriptions per session', () => {
+    watcher.subscribe('s1', 'file:///a', join(dir, 'a.txt'));
+    watcher.subscribe('s1', 'file:///b', join(dir, 'b.txt'));
+
+    expect(() => watcher.subscribe('s1', 'file:///c', join(dir, 'c.txt'))).toThrow(SubscriptionLimitError);
+    expect(() => watcher.subscribe('s1', 'file:///a', join(dir, 'a.txt'))).not.toThrow();
+    expect(() => watcher.subscribe('s2', 'file:///c', join(dir, 'c.txt'))).not.toThrow();
+  });
+
+  it('should release every subscription of a closed session', () => {
+    watcher.subscribe('s1', 'file:///a', join(dir, 'a.txt'));
+    watcher.subscribe('s1', 'file:///b', join(dir, 'b.txt'));
+
+    watcher.unsubscribeSession('s1');
+
+    expect(watcher.getSubscriptionCount('s1')).toBe(0);
+  });
+});
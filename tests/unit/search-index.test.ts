@@ -0,0 +1,132 @@
+/**
+ * Search Index Unit Tests
+ *
+ * Tests narrowing content searches with the trigram index, reusing a saved
+ * index, re-indexing watched changes and searching files through the index.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SearchIndex } from '../../src/core/search-index';
+import { WorkspaceSandbox } from '../../src/core/workspace-sandbox';
+import { FileOperationTools } from '../../src/tools/file-tools';
+import { Logger } from '../../src/types/mcp';
+
+describe('SearchIndex', () => {
+  let testDir: string;
+  let rootDir: string;
+  let mockLogger: Logger;
+  let workspace: WorkspaceSandbox;
+  let index: SearchIndex;
+
+  const createIndex = (): SearchIndex =>
+    new SearchIndex(mockLogger, { enabled: true, directory: join(testDir, 'index'), debounceMs: 20 }, workspace);
+
+  const mayContain = async (name: string, query: string): Promise<boolean | undefined> => {
+    const filter = index.lookup(rootDir, query);
+    const path = join(rootDir, name);
+    return filter?.(path, await fs.stat(path));
+  };
+
+  const whenReady = () => vi.waitFor(() => expect(index.lookup(rootDir, 'any query')).toBeDefined());
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-filebridge-index-')));
+    rootDir = join(testDir, 'root');
+    await fs.mkdir(join(rootDir, 'src'), { recursive: true });
+    await fs.writeFile(join(rootDir, 'src', 'server.ts'), 'export function startServer() {}\n');
+    await fs.writeFile(join(rootDir, 'src', 'client.ts'), 'export function connect() {}\n');
+    await fs.writeFile(join(rootDir, 'data.bin'), Buffer.from([0, 1, 2, 3]));
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as Logger;
+    workspace = new WorkspaceSandbox({ roots: [rootDir], userRoots: {} });
+    index = createIndex();
+  });
+
+  afterEach(async () => {
+    await index.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should rule out files that cannot contain the query, ignoring case', async () => {
+    await index.start();
+    await whenReady();
+
+    expect(await mayContain('src/server.ts', 'STARTSERVER')).toBe(true);
+    expect(await mayContain('src/client.ts', 'startServer')).toBe(false);
+    // Binary files are not indexed, so they are always searched
+    expect(await mayContain('data.bin', 'startServer')).toBe(true);
+  });
+
+  it('should not narrow short queries or roots it does not index', async () => {
+    await index.start();
+    await whenReady();
+
+    expect(index.lookup(rootDir, 'st')).toBeUndefined();
+    expect(index.lookup(testDir, 'startServer')).toBeUndefined();
+  });
+
+  it('should search files changed since they were indexed', async () => {
+    await index.start();
+    await whenReady();
+    const filter = index.lookup(rootDir, 'startServer')!;
+
+    const path = join(rootDir, 'src', 'client.ts');
+    await fs.writeFile(path, 'import { startServer } from "./server";\n');
+
+    expect(filter(path, await fs.stat(path))).toBe(true);
+    expect(filter(join(rootDir, 'src', 'new.ts'), await fs.stat(path))).toBe(true);
+  });
+
+  it('should re-index files the watcher reports changed', async () => {
+    await index.start();
+    await whenReady();
+
+    await fs.writeFile(join(rootDir, 'src', 'server.ts'), 'export function stopServer() {}\n');
+
+    await vi.waitFor(async () => {
+      expect(await mayContain('src/server.ts', 'stopServer')).toBe(true);
+      expect(await mayContain('src/server.ts', 'startServer')).toBe(false);
+    });
+  });
+
+  it('should save the index and reuse it on the next start', async () => {
+    await index.start();
+    await whenReady();
+    await index.close();
+
+    expect(await fs.readdir(join(testDir, 'index'))).toHaveLength(1);
+
+    index = createIndex();
+    await index.start();
+    await whenReady();
+
+    expect(await mayContain('src/client.ts', 'connect')).toBe(true);
+    expect(await mayContain('src/client.ts', 'startServer')).toBe(false);
+  });
+
+  it('should find the same content matches when search_files uses the index', async () => {
+    await index.start();
+    await whenReady();
+    const tools = new FileOperationTools(mockLogger, workspace, undefined, index);
+
+    const result = await tools.executeSearchFiles({
+      directory: rootDir,
+      content_search: 'function',
+      output_mode: 'files_with_matches',
+    });
+
+    expect(result.content[0]?.text).toContain('server.ts');
+    expect(result.content[0]?.text).toContain('client.ts');
+    expect(mockLogger.info).toHaveBeenCalledWith('File search completed', expect.objectContaining({ indexed: true }));
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Security Service Unit Tests
+ *
+ * Tests JWT verification for HS256 and RS256 (PEM key and local JWKS),
+ * expiry and not-before handling, and claim-to-user mapping.
+ *
+ * @author aezizhu
+ */
+
+import 'reflect-metadata';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { SecurityService, AuthenticationError } from '../../src/services/security.service';
+import { ConfigService } from '../../src/services/config.service';
+import { LoggerService } from '../../src/services/logger.service';
+import { JwtConfig, Logger } from '../../src/types/mcp';
+
+const SECRET = 'a-test-secret-that-is-at-least-32-characters';
+
+describe('SecurityService', () => {
+  let keyDir: string;
+  let publicKeyFile: string;
+  let jwksFile: string;
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const createService = (
+    jwtConfig: Partial<JwtConfig> = {},
+    enabled = true,
+    authorization: { enabled: boolean; policyFile?: string } = { enabled: false }
+  ): SecurityService => {
+    const server = {
+      security: {
+        authentication: {
+          enabled,
+          jwt: { secret: SECRET, expiresIn: '1h', ...jwtConfig },
+        },
+        authorization: { roles: ['admin', 'user', 'readonly'], ...authorization },
+      },
+    };
+    const config = {
+      get: (section: string) => (section === 'workspace' ? { roots: [keyDir], userRoots: {} } : server),
+    } as unknown as ConfigService;
+
+    const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    const loggerService = { getLogger: () => mockLogger } as unknown as LoggerService;
+
+    return new SecurityService(config, loggerService);
+  };
+
+  const hsToken = (claims: Record<string, unknown>, options: jwt.SignOptions = {}) =>
+    jwt.sign(claims, SECRET, { algorithm: 'HS256', expiresIn: '1h', ...options });
+
+  beforeAll(async () => {
+    keyDir = await fs.mkdtemp(join(tmpdir(), 'mcp-security-test-'));
+    publicKeyFile = join(keyDir, 'public.pem');
+    jwksFile = join(keyDir, 'jwks.json');
+
+    await fs.writeFile(publicKeyFile, publicKey.export({ type: 'spki', format: 'pem' }));
+    await fs.writeFile(jwksFile, JSON.stringify({
+      keys: [
+        { ...other.publicKey.export({ format: 'jwk' }), kid: 'old', use: 'sig' },
+        { ...publicKey.export({ format: 'jwk' }), kid: 'current', use: 'sig' },
+      ],
+    }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(keyDir, { recursive: true, force: true });
+  });
+
+  it('should verify HS256 tokens and map claims to the user', async () => {
+    const service = createService();
+    const token = hsToken({
+      sub: 'u-42',
+      preferred_username: 'alice',
+      roles: ['admin'],
+      permissions: ['read'],
+      scope: 'write read',
+    });
+
+    await expect(service.authenticate(token)).resolves.toEqual({
+      id: 'u-42',
+      username: 'alice',
+      roles: ['admin'],
+      permissions: ['read', 'write', 'admin'],
+    });
+  });
+
+  it('should read roles from a configured nested claim', () => {
+    const service = createService({ rolesClaim: 'realm_access.roles' });
+    const token = hsToken({ sub: 'u-1', realm_access: { roles: ['readonly'] } });
+
+    expect(service.verifyToken(token).roles).toEqual(['readonly']);
+  });
+
+  it('should add the permissions granted by the policy to the token roles', () => {
+    const service = createService();
+    const token = hsToken({ sub: 'u-1', roles: ['readonly'], permissions: ['export'] });
+
+    expect(service.verifyToken(token).permissions).toEqual(['export', 'read']);
+  });
+
+  it('should reject tokens signed with the wrong secret', async () => {
+    const service = createService();
+    const token = jwt.sign({ sub: 'u-1' }, 'another-secret-of-sufficient-length!!', { expiresIn: '1h' });
+
+    await expect(service.authenticate(token)).resolves.toBeNull();
+  });
+
+  it('should reject expired, not-yet-valid and non-expiring tokens', () => {
+    const service = createService();
+
+    expect(() => service.verifyToken(hsToken({ sub: 'u-1' }, { expiresIn: -10 }))).toThrow(AuthenticationError);
+    expect(() => service.verifyToken(hsToken({ sub: 'u-1' }, { notBefore: 3600 }))).toThrow(AuthenticationError);
+    expect(() => service.verifyToken(jwt.sign({ sub: 'u-1' }, SECRET))).toThrow('Token has no expiry');
+  });
+
+  it('should reject algorithms that are not configured', () => {
+    const service = createService();
+    const token = jwt.sign({ sub: 'u-1' }, privateKey, { algorithm: 'RS256', expiresIn: '1h' });
+
+    expect(() => service.verifyToken(token)).toThrow('Token algorithm RS256 is not accepted');
+  });
+
+  it('should verify RS256 tokens against a PEM public key', () => {
+    const service = createService({ algorithms: ['RS256'], publicKeyFile });
+    const token = jwt.sign({ sub: 'u-7' }, privateKey, { algorithm: 'RS256', expiresIn: '1h' });
+
+    expect(service.verifyToken(token).id).toBe('u-7');
+  });
+
+  it('should select RS256 keys from a JWKS file by key id', () => {
+    const service = createService({ algorithms: ['RS256'], jwksFile });
+    const sign = (kid: string) =>
+      jwt.sign({ sub: 'u-8' }, privateKey, { algorithm: 'RS256', expiresIn: '1h', keyid: kid });
+
+    expect(service.verifyToken(sign('current')).id).toBe('u-8');
+    expect(() => service.verifyToken(sign('old'))).toThrow(AuthenticationError);
+    expect(() => service.verifyToken(sign('unknown'))).toThrow('Unknown signing key unknown');
+  });
+
+  it('should extract bearer tokens from authorization headers', () => {
+    const service = createService();
+
+    expect(service.extractBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+    expect(service.extractBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(service.validateToken('Bearer')).toBe(false);
+  });
+
+  it('should enforce the role policy on tools and path arguments', async () => {
+    const policyFile = join(keyDir, 'policy.json');
+    await fs.writeFile(policyFile, JSON.stringify({
+      roles: {
+        readonly: { allow: { tools: ['read_file', 'copy_file'], paths: ['**'] }, deny: { paths: ['*.pem'] } },
+      },
+    }));
+    const service = createService({}, true, { enabled: true, policyFile });
+    const context = { userId: 'u-1', roles: ['readonly'], permissions: ['read'], sessionId: 's', ipAddress: '::1' };
+
+    await expect(service.canExecuteTool(context, 'write_file')).resolves.toBe(false);
+    await expect(service.canExecuteTool(context, 'read_file', { path: 'jwks.json' })).resolves.toBe(true);
+    await expect(service.canExecuteTool(context, 'read_file', { path: 'public.pem' })).resolves.toBe(false);
+    await expect(service.canExecuteTool(context, 'copy_file', { source: 'jwks.json', destination: 'copy.json' }))
+      .resolves.toBe(true);
+    await expect(service.canExecuteTool(context, 'copy_file', { source: 'public.pem', destination: 'copy.txt' }))
+      .resolves.toBe(false);
+  });
+
+  it('should check single paths and whole directories against the role policy', async () => {
+    const policyFile = join(keyDir, 'policy-paths.json');
+    await fs.mkdir(join(keyDir, 'keys'), { recursive: true });
+    await fs.writeFile(policyFile, JSON.stringify({
+      roles: { readonly: { allow: { tools: ['*'], paths: ['**'] }, deny: { paths: ['keys/**'] } } },
+    }));
+    const service = createService({}, true, { enabled: true, policyFile });
+    const context = { userId: 'u-1', roles: ['readonly'], permissions: ['read'], sessionId: 's', ipAddress: '::1' };
+
+    await expect(service.canAccessPath(context, join(keyDir, 'jwks.json'))).resolves.toBe(true);
+    await expect(service.canAccessPath(context, join(keyDir, 'keys', 'a.pem'))).resolves.toBe(false);
+    await expect(service.canExecuteTool(context, 'list_directory', { path: 'keys' })).resolves.toBe(false);
+    await expect(createService().canAccessPath(context, join(keyDir, 'keys'))).resolves.toBe(true);
+  });
+
+  it('should deny paths outside the workspace', async () => {
+    const policyFile = join(keyDir, 'policy-outside.json');
+    await fs.writeFile(policyFile, JSON.stringify({
+      roles: { readonly: { allow: { tools: ['*'], paths: ['/**'] } } },
+    }));
+    const service = createService({}, true, { enabled: true, policyFile });
+    const context = { userId: 'u-1', roles: ['readonly'], permissions: ['read'], sessionId: 's', ipAddress: '::1' };
+
+    await expect(service.canAccessPath(context, '/etc/hostname')).resolves.toBe(false);
+    await expect(service.canExecuteTool(context, 'read_file', { path: '../outside.txt' })).resolves.toBe(false);
+  });
+
+  it('should reload the policy file when it is modified', async () => {
+    const policyFile = join(keyDir, 'policy-reload.json');
+    const writePolicy = async (tools: string[], mtime: Date) => {
+      await fs.writeFile(policyFile, JSON.stringify({ roles: { readonly: { allow: { tools, paths: ['**'] } } } }));
+      await fs.utimes(policyFile, mtime, mtime);
+    };
+    const service = createService({}, true, { enabled: true, policyFile });
+    const context = { userId: 'u-1', roles: ['readonly'], permissions: ['read'], sessionId: 's', ipAddress: '::1' };
+
+    await writePolicy(['read_file'], new Date(1_000_000));
+    await expect(service.canExecuteTool(context, 'read_file')).resolves.toBe(true);
+
+    await writePolicy(['list_directory'], new Date(2_000_000));
+    await expect(service.canExecuteTool(context, 'read_file')).resolves.toBe(false);
+    await expect(service.canExecuteTool(context, 'list_directory')).resolves.toBe(true);
+  });
+
+  it('should report whether authentication is required', () => {
+    expect(createService({}, true).isAuthenticationRequired()).toBe(true);
+    expect(createService({}, false).isAuthenticationRequired()).toBe(false);
+  });
+});
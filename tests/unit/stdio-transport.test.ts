@@ -0,0 +1,101 @@
+/**
+ * Stdio Transport Unit Tests
+ *
+ * Tests newline-delimited JSON-RPC framing over stdin/stdout streams.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { StdioTransport } from '../../src/transports/stdio.transport';
+import { JsonRpcErrorCode, JsonRpcRequest, Logger } from '../../src/types/mcp';
+
+describe('StdioTransport', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let mockLogger: Logger;
+  let written: string[];
+
+  const waitForOutput = (count: number) =>
+    vi.waitFor(() => {
+      if (written.length < count) {
+        throw new Error('waiting for output');
+      }
+    });
+
+  beforeEach(() => {
+    input = new PassThrough();
+    output = new PassThrough();
+    written = [];
+    output.on('data', chunk => written.push(...chunk.toString().split('\n').filter(Boolean)));
+
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as Logger;
+  });
+
+  it('should dispatch each line and write one response per line', async () => {
+    const handler = vi.fn(async (request: JsonRpcRequest) => ({
+      jsonrpc: '2.0' as const,
+      id: request.id,
+      result: { method: request.method },
+    }));
+    const transport = new StdioTransport(handler, mockLogger, { input, output });
+    await transport.start();
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n{"jsonrpc":"2.0","id":2,"method":"tools/list"}\n');
+    await waitForOutput(2);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(written.map(line => JSON.parse(line).id).sort()).toEqual([1, 2]);
+  });
+
+  it('should not write anything when the handler returns null', async () => {
+    const handler = vi.fn(async () => null);
+    const transport = new StdioTransport(handler, mockLogger, { input, output });
+    await transport.start();
+
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+
+    expect(written).toHaveLength(0);
+  });
+
+  it('should answer malformed JSON with a parse error', async () => {
+    const transport = new StdioTransport(vi.fn(), mockLogger, { input, output });
+    await transport.start();
+
+    input.write('{not json\n');
+    await waitForOutput(1);
+
+    const response = JSON.parse(written[0]!);
+    expect(response.id).toBeNull();
+    expect(response.error.code).toBe(JsonRpcErrorCode.PARSE_ERROR);
+  });
+
+  it('should emit close once input ends and pending work has finished', async () => {
+    let release: () => void = () => undefined;
+    const handler = vi.fn(
+      (request: JsonRpcRequest) =>
+        new Promise<{ jsonrpc: '2.0'; id: JsonRpcRequest['id']; result: object }>(resolve => {
+          release = () => resolve({ jsonrpc: '2.0', id: request.id, result: {} });
+        })
+    );
+    const transport = new StdioTransport(handler, mockLogger, { input, output });
+    const onClose = vi.fn();
+    transport.on('close', onClose);
+    await transport.start();
+
+    input.end('{"jsonrpc":"2.0","id":7,"method":"tools/call"}\n');
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    expect(onClose).not.toHaveBeenCalled();
+
+    release();
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(JSON.parse(written[0]!).id).toBe(7);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Streamable HTTP Transport Unit Tests
+ *
+ * Tests session handling, SSE-framed responses, batches and notification
+ * delivery on the single MCP endpoint.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { once } from 'events';
+import { request as httpRequest } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import request from 'supertest';
+import {
+  StreamableHttpTransport,
+  HttpMessageHandler,
+  MCP_SESSION_HEADER,
+} from '../../src/transports/streamable-http.transport';
+import { Logger } from '../../src/types/mcp';
+
+describe('StreamableHttpTransport', () => {
+  let mockLogger: Logger;
+  let transport: StreamableHttpTransport;
+  let app: express.Express;
+
+  const echoHandler: HttpMessageHandler = async (message, context) => {
+    if (!('id' in message)) {
+      return null;
+    }
+    context.sendNotification({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } });
+    return { jsonrpc: '2.0', id: message.id, result: { method: message.method } };
+  };
+
+  const createApp = (handler: HttpMessageHandler) => {
+    transport = new StreamableHttpTransport(handler, mockLogger);
+    app = express();
+    app.use(express.json());
+    // Stands in for the authentication middleware
+    app.use((req, _res, next) => {
+      const userId = req.get('x-test-user');
+      if (userId) {
+        req.securityContext = { userId, roles: ['user'], permissions: [], sessionId: 'auth', ipAddress: '127.0.0.1' };
+      }
+      next();
+    });
+    app.use('/mcp', transport.router());
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    } as Logger;
+    createApp(echoHandler);
+  });
+
+  afterEach(() => {
+    transport.close();
+  });
+
+  it('should issue a session id on initialize', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize' })
+      .expect(200);
+
+    expect(response.headers[MCP_SESSION_HEADER.toLowerCase()]).toBeDefined();
+    expect(response.body.result).toEqual({ method: 'initialize' });
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('should not open a session when initialize fails', async () => {
+    createApp(async message => ({
+      jsonrpc: '2.0',
+      id: 'id' in message ? message.id : null,
+      error: { code: -32602, message: 'Unsupported protocol version' },
+    }));
+
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize' })
+      .expect(200);
+
+    expect(response.headers[MCP_SESSION_HEADER.toLowerCase()]).toBeUndefined();
+    expect(response.body.error.code).toBe(-32602);
+    expect(transport.getSessionCount()).toBe(0);
+  });
+
+  it('should accept client responses with 202 without handling them', async () => {
+    const handler = vi.fn(echoHandler);
+    createApp(handler);
+
+    await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 7, result: {} })
+      .expect(202);
+    await request(app)
+      .post('/mcp')
+      .send([{ jsonrpc: '2.0', id: 8, error: { code: -1, message: 'declined' } }])
+      .expect(202);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown session ids', async () => {
+    await request(app)
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, 'missing')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(404);
+  });
+
+  it('should acknowledge notifications with 202 and no body', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      .expect(202);
+
+    expect(response.text).toBe('');
+  });
+
+  it('should stream notifications ahead of the response when SSE is accepted', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .set('Accept', 'application/json, text/event-stream')
+      .send({ jsonrpc: '2.0', id: 7, method: 'tools/call' })
+      .expect(200);
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = response.text
+      .split('\n')
+      .filter(line => line.startsWith('data: '))
+      .map(line => JSON.parse(line.slice('data: '.length)));
+
+    expect(events).toHaveLength(2);
+    expect(events[0].method).toBe('notifications/progress');
+    expect(events[1].id).toBe(7);
+  });
+
+  it('should require a session and SSE support for standalone streams', async () => {
+    await request(app).get('/mcp').expect(406);
+    await request(app).get('/mcp').set('Accept', 'text/event-stream').expect(400);
+  });
+
+  it('should terminate sessions on DELETE', async () => {
+    const init = await request(app).post('/mcp').send({ jsonrpc: '2.0', id: 1, method: 'initialize' });
+    const sessionId = init.headers[MCP_SESSION_HEADER.toLowerCase()] as string;
+
+    await request(app).delete('/mcp').set(MCP_SESSION_HEADER, sessionId).expect(204);
+
+    expect(transport.getSessionCount()).toBe(0);
+    await request(app).delete('/mcp').set(MCP_SESSION_HEADER, sessionId).expect(404);
+  });
+
+  it('should only serve a session to the principal that opened it', async () => {
+    const init = await request(app)
+      .post('/mcp')
+      .set('x-test-user', 'alice')
+      .send({ jsonrpc: '2.0', id: 1, method: 'initialize' });
+    const sessionId = init.headers[MCP_SESSION_HEADER.toLowerCase()] as string;
+
+    await request(app)
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .set('x-test-user', 'bob')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      .expect(404);
+    await request(app)
+      .get('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .set('Accept', 'text/event-stream')
+      .expect(404);
+    await request(app).delete('/mcp').set(MCP_SESSION_HEADER, sessionId).set('x-test-user', 'bob').expect(404);
+    expect(transport.getSessionCount()).toBe(1);
+
+    await request(app)
+      .post('/mcp')
+      .set(MCP_SESSION_HEADER, sessionId)
+      .set('x-test-user', 'alice')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+      .expect(200);
+    await request(app).delete('/mcp').set(MCP_SESSION_HEADER, sessionId).set('x-test-user', 'alice').expect(204);
+  });
+
+  it('should abort a request when the client closes its event stream', async () => {
+    const signals: AbortSignal[] = [];
+    transport.close();
+    createApp(async (message, context) => {
+      signals.push(context.signal);
+      if ('id' in message && message.id === 1) {
+        return { jsonrpc: '2.0', id: 1, result: {} };
+      }
+      return new Promise(resolve => context.signal.addEventListener('abort', () => resolve(null)));
+    });
+
+    await request(app)
+      .post('/mcp')
+      .set('Accept', 'application/json, text/event-stream')
+      .send({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+      .expect(200);
+    expect(signals[0]?.aborted).toBe(false);
+
+    const server = app.listen(0, '127.0.0.1');
+    try {
+      await once(server, 'listening');
+      const client = httpRequest({
+        port: (server.address() as AddressInfo).port,
+        host: '127.0.0.1',
+        method: 'POST',
+        path: '/mcp',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      });
+      client.on('error', () => undefined);
+      client.end(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/call' }));
+
+      // The stream's headers are flushed before the handler runs
+      await once(client, 'response');
+      client.destroy();
+
+      await vi.waitFor(() => expect(signals[1]?.aborted).toBe(true));
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should pass batches through and acknowledge notification-only batches', async () => {
+    transport.close();
+    createApp(async message => {
+      const entries = Array.isArray(message) ? message : [message];
+      const responses = entries
+        .filter(entry => 'id' in entry)
+        .map(entry => ({ jsonrpc: '2.0' as const, id: entry.id, result: { method: entry.method } }));
+      return responses.length > 0 ? responses : null;
+    });
+
+    const response = await request(app)
+      .post('/mcp')
+      .send([
+        { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', id: 2, method: 'initialize' },
+      ])
+      .expect(200);
+
+    expect(response.body).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { method: 'tools/list' } },
+      { jsonrpc: '2.0', id: 2, result: { method: 'initialize' } },
+    ]);
+    expect(transport.getSessionCount()).toBe(0);
+
+    await request(app)
+      .post('/mcp')
+      .send([{ jsonrpc: '2.0', method: 'notifications/initialized' }])
+      .expect(202);
+  });
+
+  it('should answer with an internal error when the handler throws', async () => {
+    transport.close();
+    createApp(async () => {
+      throw new Error('boom');
+    });
+
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: 3, method: 'tools/list' })
+      .expect(500);
+
+    expect(response.body.error.code).toBe(-32603);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Text Patch Unit Tests
+ *
+ * Tests search/replace edits, unified diff parsing and application, and diff
+ * generation.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applySearchReplace,
+  applyUnifiedDiff,
+  countDiffLines,
+  createUnifiedDiff,
+  parseUnifiedDiff,
+} from '../../src/tools/text-patch';
+
+describe('text patches', () => {
+  const source = ['function add(a, b) {', '  return a + b;', '}', '', 'function sub(a, b) {', '  return a - b;', '}', ''].join('\n');
+
+  describe('applySearchReplace', () => {
+    it('should apply edits in order', () => {
+      const result = applySearchReplace(source, [
+        { search: 'return a + b;', replace: 'return a + b + 0;' },
+        { search: 'function sub', replace: 'function subtract' },
+      ]);
+
+      expect(result).toContain('return a + b + 0;');
+      expect(result).toContain('function subtract(a, b)');
+    });
+
+    it('should reject search text that is missing or ambiguous', () => {
+      expect(() => applySearchReplace(source, [{ search: 'return a * b;', replace: '' }])).toThrow('Edit 1: search text not found');
+      expect(() => applySearchReplace(source, [{ search: '(a, b)', replace: '()' }])).toThrow('found 2 times');
+    });
+
+    it('should keep CRLF line endings', () => {
+      const crlf = 'one\r\ntwo\r\nthree\r\n';
+
+      expect(applySearchReplace(crlf, [{ search: 'one\ntwo', replace: 'one\n1.5\ntwo' }])).toBe('one\r\n1.5\r\ntwo\r\nthree\r\n');
+    });
+  });
+
+  describe('unified diffs', () => {
+    it('should apply hunks by their context even when line numbers are off', () => {
+      const diff = [
+        '--- a/math.js',
+        '+++ b/math.js',
+        '@@ -40,3 +40,3 @@',
+        ' function sub(a, b) {',
+        '-  return a - b;',
+        '+  return a - b - 0;',
+        ' }',
+      ].join('\n');
+
+      const result = applyUnifiedDiff(source, parseUnifiedDiff(diff));
+
+      expect(result).toBe(source.replace('return a - b;', 'return a - b - 0;'));
+    });
+
+    it('should reject a hunk that matches more than one place', () => {
+      const diff = ['@@ -1,1 +1,1 @@', '-}', '+};'].join('\n');
+
+      expect(() => applyUnifiedDiff(source, parseUnifiedDiff(diff))).toThrow('Hunk 1 matches 2 places');
+    });
+
+    it('should reject a hunk whose context is missing', () => {
+      const diff = ['@@ -1,2 +1,2 @@', ' function mul(a, b) {', '-  return a * b;', '+  return b * a;'].join('\n');
+
+      expect(() => applyUnifiedDiff(source, parseUnifiedDiff(diff))).toThrow('Hunk 1 does not apply');
+    });
+
+    it('should reject diffs for several files', () => {
+      const diff = ['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-a', '+b', '--- a/y', '+++ b/y', '@@ -1 +1 @@', '-a', '+b'].join('\n');
+
+      expect(() => parseUnifiedDiff(diff)).toThrow('more than one file');
+    });
+
+    it('should create a diff that applies back to the original', () => {
+      const updated = source.replace('return a + b;', 'return a + b + 0;').replace('}\n\nfunction', '}\n\n// Subtraction\nfunction');
+
+      const diff = createUnifiedDiff('math.js', source, updated);
+
+      expect(diff).toContain('--- a/math.js\n+++ b/math.js\n@@ -1,7 +1,8 @@');
+      expect(countDiffLines(diff)).toEqual({ added: 2, removed: 1 });
+      expect(applyUnifiedDiff(source, parseUnifiedDiff(diff))).toBe(updated);
+    });
+
+    it('should mark a missing newline at the end of the file', () => {
+      expect(createUnifiedDiff('a.txt', 'a\n', 'a\nb')).toBe('--- a/a.txt\n+++ b/a.txt\n@@ -1,1 +1,2 @@\n a\n+b\n\\ No newline at end of file\n');
+      expect(createUnifiedDiff('a.txt', 'same\n', 'same\n')).toBe('');
+    });
+  });
+});
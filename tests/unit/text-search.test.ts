@@ -0,0 +1,78 @@
+/**
+ * Text Search Unit Tests
+ *
+ * Tests query compilation, matching lines with their context and the limits
+ * that keep regular expressions from blocking the event loop.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MAX_PATTERN_LENGTH, compileQuery, matchText } from '../../src/tools/text-search';
+import { ToolTimeoutError } from '../../src/tools/tool-errors';
+
+describe('text search', () => {
+  const source = ['import a from "a";', 'const total = add(1, 2);', '', 'function add(x, y) {', '  return x + y;', '}', 'add(3, 4);', ''].join('\n');
+
+  it('should escape literal queries and honour case sensitivity', () => {
+    expect(matchText('a.b axb', compileQuery('a.b'))!.matches).toBe(1);
+    expect(matchText('Add', compileQuery('add'))).toBeDefined();
+    expect(matchText('Add', compileQuery('add', { caseSensitive: true }))).toBeUndefined();
+  });
+
+  it('should match whole words only when asked', () => {
+    const query = compileQuery('add', { wholeWord: true });
+
+    expect(matchText('address', query)).toBeUndefined();
+    expect(matchText('add(x)', query)!.matches).toBe(1);
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(() => compileQuery('add(', { regex: true })).toThrow('Invalid regular expression');
+    expect(() => compileQuery('')).toThrow('The search query is empty');
+  });
+
+  it('should count every match and number matching lines', () => {
+    const result = matchText(source, compileQuery('add\\(\\d', { regex: true }), { before: 0, after: 0, maxLines: 10 });
+
+    expect(result).toMatchObject({ lines: 2, matches: 2, truncated: false });
+    expect(result!.excerpt).toEqual(['2:const total = add(1, 2);', '--', '7:add(3, 4);']);
+  });
+
+  it('should merge overlapping context and mark context lines', () => {
+    const result = matchText(source, compileQuery('add'), { before: 1, after: 1, maxLines: 10 });
+
+    expect(result!.lines).toBe(3);
+    expect(result!.excerpt).toEqual([
+      '1-import a from "a";',
+      '2:const total = add(1, 2);',
+      '3-',
+      '4:function add(x, y) {',
+      '5-  return x + y;',
+      '6-}',
+      '7:add(3, 4);',
+    ]);
+  });
+
+  it('should stop the excerpt after the maximum number of lines', () => {
+    const result = matchText(source, compileQuery('add'), { before: 0, after: 0, maxLines: 1 });
+
+    expect(result).toMatchObject({ lines: 3, truncated: true, excerpt: ['2:const total = add(1, 2);'] });
+  });
+
+  it('should not loop on empty matches', () => {
+    expect(matchText('abc\n\ndef\n', compileQuery('^', { regex: true }))!.lines).toBe(3);
+  });
+
+  it('should refuse overly long regular expressions', () => {
+    expect(() => compileQuery('a'.repeat(MAX_PATTERN_LENGTH + 1), { regex: true })).toThrow('limited to 1000 characters');
+    expect(compileQuery('a'.repeat(MAX_PATTERN_LENGTH + 1))).toBeInstanceOf(RegExp);
+  });
+
+  it('should stop a regular expression that backtracks catastrophically', () => {
+    const started = Date.now();
+
+    expect(() => matchText(`${'a'.repeat(40)}b`, compileQuery('(a+)+$', { regex: true }))).toThrow(ToolTimeoutError);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tool Cancellation Unit Tests
+ *
+ * Tests that the file walkers stop once the call's AbortSignal is aborted and
+ * report why they were stopped.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileOperationTools } from '../../src/tools/file-tools';
+import { WorkspaceSandbox } from '../../src/core/workspace-sandbox';
+import { ToolCancelledError, ToolTimeoutError } from '../../src/tools/tool-errors';
+import { Logger, SecurityContext } from '../../src/types/mcp';
+
+describe('tool cancellation', () => {
+  let rootDir: string;
+  let fileTools: FileOperationTools;
+
+  const context: SecurityContext = {
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-cancel-test-')));
+    await fs.mkdir(join(rootDir, 'a', 'b'), { recursive: true });
+    await fs.writeFile(join(rootDir, 'a', 'one.txt'), 'needle');
+    await fs.writeFile(join(rootDir, 'a', 'b', 'two.txt'), 'needle');
+
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as Logger;
+    fileTools = new FileOperationTools(logger, new WorkspaceSandbox({ roots: [rootDir], userRoots: {} }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should describe the cancellation', () => {
+    const error = new ToolCancelledError('Tool search_files', 'user pressed stop');
+
+    expect(error).toMatchObject({ kind: 'cancelled', reason: 'user pressed stop' });
+    expect(error.message).toBe('Tool search_files was cancelled: user pressed stop');
+    expect(new ToolCancelledError('Tool read_file').message).toBe('Tool read_file was cancelled');
+  });
+
+  it('should not walk a directory once the call is cancelled', async () => {
+    const controller = new AbortController();
+    const reason = new ToolCancelledError('Tool list_directory');
+    controller.abort(reason);
+
+    await expect(
+      fileTools.executeListDirectory({ path: '.', recursive: true }, context, controller.signal)
+    ).rejects.toBe(reason);
+  });
+
+  it('should report a timeout as the reason a search stopped', async () => {
+    const controller = new AbortController();
+    const reason = new ToolTimeoutError('Tool search_files', 10);
+    controller.abort(reason);
+
+    await expect(
+      fileTools.executeSearchFiles({ directory: '.', content_search: 'needle' }, context, controller.signal)
+    ).rejects.toBe(reason);
+  });
+
+  it('should search normally without a signal', async () => {
+    const result = await fileTools.executeSearchFiles({ directory: '.', content_search: 'needle' }, context);
+
+    expect(result.content[0]).toMatchObject({ text: expect.stringContaining('two.txt') });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tool Errors Unit Tests
+ *
+ * Tests the typed tool error hierarchy and the translation of filesystem
+ * errors into it.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ToolError,
+  ConflictError,
+  NotFoundError,
+  PermissionDeniedError,
+  SizeLimitError,
+  ToolTimeoutError,
+  ToolValidationError,
+  toToolError,
+} from '../../src/tools/tool-errors';
+import { McpErrorCode } from '../../src/types/mcp';
+
+describe('tool errors', () => {
+  const errno = (code: string) => Object.assign(new Error(code), { code });
+
+  it('should give every error a kind and an MCP error code', () => {
+    expect(new NotFoundError('a.txt')).toMatchObject({ kind: 'not_found', code: McpErrorCode.RESOURCE_NOT_FOUND });
+    expect(new PermissionDeniedError('a.txt')).toMatchObject({ kind: 'permission_denied', code: McpErrorCode.PERMISSION_DENIED });
+    expect(new SizeLimitError('a.txt', 10, 20)).toMatchObject({ kind: 'size_limit', size: 20, limit: 10 });
+    expect(new ToolTimeoutError('Tool read_file', 5)).toMatchObject({ kind: 'timeout', timeoutMs: 5 });
+    expect(new ToolValidationError('Unsupported image format')).toMatchObject({ kind: 'validation' });
+    expect(new ConflictError('a.txt', 'no longer exists')).toMatchObject({ kind: 'conflict', code: McpErrorCode.CONFLICT });
+    expect(new ToolError('OCR engine is not available').kind).toBe('execution');
+  });
+
+  it('should describe the failure in the message', () => {
+    expect(new NotFoundError('docs/a.txt').message).toBe('Not found: docs/a.txt');
+    expect(new SizeLimitError('big.bin', 1024, 4096).message).toBe('Too large: big.bin is 4096 bytes (max: 1024)');
+    expect(new SizeLimitError('https://example.com/a.png', 1024).message)
+      .toBe('Too large: https://example.com/a.png exceeds 1024 bytes');
+    expect(new ToolTimeoutError('Tool search_files', 30000).message).toBe('Tool search_files timed out after 30000ms');
+    expect(new ConflictError('a.txt', 'no longer exists').message).toBe('Conflict: a.txt no longer exists');
+  });
+
+  it('should translate filesystem error codes', () => {
+    expect(toToolError(errno('ENOENT'), 'a.txt')).toBeInstanceOf(NotFoundError);
+    expect(toToolError(errno('ENOTDIR'), 'a.txt/b')).toBeInstanceOf(NotFoundError);
+    expect(toToolError(errno('EACCES'), 'a.txt')).toBeInstanceOf(PermissionDeniedError);
+    expect(toToolError(errno('EPERM'), 'a.txt')).toBeInstanceOf(PermissionDeniedError);
+    expect(toToolError(errno('EISDIR'), 'docs')).toBeInstanceOf(ToolValidationError);
+    expect(toToolError(errno('ENOTEMPTY'), 'docs')).toBeInstanceOf(ToolValidationError);
+    expect(toToolError(errno('EEXIST'), 'docs')).toBeInstanceOf(ConflictError);
+  });
+
+  it('should leave tool errors and unrelated errors untouched', () => {
+    const toolError = new SizeLimitError('a', 1, 2);
+    const bug = new TypeError('undefined is not a function');
+
+    expect(toToolError(toolError, 'b')).toBe(toolError);
+    expect(toToolError(bug, 'a')).toBe(bug);
+  });
+
+  it('should translate a real missing file', async () => {
+    const missing = join(tmpdir(), 'mcp-tool-errors-missing', 'none.txt');
+    const error = await fs.readFile(missing).catch(e => toToolError(e, 'none.txt'));
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).target).toBe('none.txt');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Workspace Sandbox Unit Tests
+ *
+ * Tests confinement of tool paths to the configured workspace roots,
+ * including `..` traversal, symlink escapes and per-user roots.
+ *
+ * @author aezizhu
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { WorkspaceSandbox, WorkspaceAccessError } from '../../src/core/workspace-sandbox';
+import { McpErrorCode, SecurityContext } from '../../src/types/mcp';
+
+describe('WorkspaceSandbox', () => {
+  let baseDir: string;
+  let rootDir: string;
+  let outsideDir: string;
+  let sandbox: WorkspaceSandbox;
+
+  const contextFor = (userId?: string): SecurityContext => ({
+    ...(userId ? { userId } : {}),
+    roles: ['user'],
+    permissions: ['read'],
+    sessionId: 'test-session',
+    ipAddress: '127.0.0.1',
+  });
+
+  beforeEach(async () => {
+    baseDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-sandbox-test-')));
+    rootDir = join(baseDir, 'workspace');
+    outsideDir = join(baseDir, 'outside');
+
+    await fs.mkdir(join(rootDir, 'src'), { recursive: true });
+    await fs.mkdir(outsideDir, { recursive: true });
+    await fs.writeFile(join(rootDir, 'src', 'index.ts'), 'export {};');
+    await fs.writeFile(join(outsideDir, 'secret.txt'), 'top secret');
+
+    sandbox = new WorkspaceSandbox({ roots: [rootDir], userRoots: {} });
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should resolve relative paths against the first root', async () => {
+    await expect(sandbox.resolvePath('src/index.ts')).resolves.toBe(join(rootDir, 'src', 'index.ts'));
+  });
+
+  it('should allow paths that do not exist yet', async () => {
+    await expect(sandbox.resolvePath('new/dir/file.txt')).resolves.toBe(
+      join(rootDir, 'new', 'dir', 'file.txt')
+    );
+  });
+
+  it('should reject absolute paths outside the workspace', async () => {
+    await expect(sandbox.resolvePath(join(outsideDir, 'secret.txt'))).rejects.toBeInstanceOf(
+      WorkspaceAccessError
+    );
+  });
+
+  it('should reject .. traversal out of the workspace', async () => {
+    const error = await sandbox.resolvePath('../outside/secret.txt').catch(e => e);
+
+    expect(error).toBeInstanceOf(WorkspaceAccessError);
+    expect(error.code).toBe(McpErrorCode.WORKSPACE_VIOLATION);
+  });
+
+  it('should reject sibling directories sharing the root prefix', async () => {
+    await fs.mkdir(`${rootDir}-evil`);
+
+    await expect(sandbox.resolvePath(`${rootDir}-evil`)).rejects.toBeInstanceOf(WorkspaceAccessError);
+  });
+
+  it('should reject symlinks that escape the workspace', async () => {
+    await fs.symlink(outsideDir, join(rootDir, 'escape'));
+
+    await expect(sandbox.resolvePath('escape/secret.txt')).rejects.toBeInstanceOf(WorkspaceAccessError);
+    await expect(sandbox.contains(join(rootDir, 'escape'))).resolves.toBe(false);
+  });
+
+  it('should allow symlinks that stay inside the workspace', async () => {
+    await fs.symlink(join(rootDir, 'src'), join(rootDir, 'alias'));
+
+    await expect(sandbox.resolvePath('alias/index.ts')).resolves.toBe(join(rootDir, 'src', 'index.ts'));
+  });
+
+  it('should follow dangling symlinks to the path they would create', async () => {
+    await fs.symlink(join(outsideDir, 'created.txt'), join(rootDir, 'escape.txt'));
+    await fs.symlink(join(outsideDir, 'new-dir'), join(rootDir, 'escape-dir'));
+    await fs.symlink(join(rootDir, 'src', 'later.ts'), join(rootDir, 'pending.ts'));
+
+    await expect(sandbox.resolvePath('escape.txt')).rejects.toBeInstanceOf(WorkspaceAccessError);
+    await expect(sandbox.resolvePath('escape-dir/file.txt')).rejects.toBeInstanceOf(WorkspaceAccessError);
+    await expect(sandbox.resolvePath('pending.ts')).resolves.toBe(join(rootDir, 'src', 'later.ts'));
+  });
+
+  it('should reject symlink loops', async () => {
+    await fs.symlink(join(rootDir, 'loop-b'), join(rootDir, 'loop-a'));
+    await fs.symlink(join(rootDir, 'loop-a'), join(rootDir, 'loop-b'));
+
+    await expect(sandbox.resolvePath('loop-a')).rejects.toMatchObject({ code: 'ELOOP' });
+  });
+
+  it('should reject paths containing null bytes', async () => {
+    await expect(sandbox.resolvePath('src/index.ts\0.png')).rejects.toBeInstanceOf(WorkspaceAccessError);
+  });
+
+  it('should apply per-user roots instead of the server roots', async () => {
+    const userSandbox = new WorkspaceSandbox({
+      roots: [rootDir],
+      userRoots: { alice: [outsideDir] },
+    });
+
+    await expect(userSandbox.resolvePath('secret.txt', contextFor('alice'))).resolves.toBe(
+      join(outsideDir, 'secret.txt')
+    );
+    await expect(userSandbox.resolvePath(join(rootDir, 'src'), contextFor('alice'))).rejects.toBeInstanceOf(
+      WorkspaceAccessError
+    );
+    await expect(userSandbox.resolvePath('src', contextFor('bob'))).resolves.toBe(join(rootDir, 'src'));
+  });
+});